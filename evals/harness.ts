@@ -0,0 +1,204 @@
+// evals/harness.ts
+import { EvaluationError, type EvaluationRequest } from "../src/evaluation/provider";
+import { validateEvalResult } from "../src/evaluation/validate";
+import { DEFAULT_PROFILE, validateProfile, type CefrLevel, type NativeLanguage } from "../src/profile/profile";
+import type { EvalResult, IssueType } from "../src/types";
+import type { EvaluationPrompt } from "../netlify/lib/evaluationPrompts";
+import type { ModelClient } from "../netlify/lib/modelClient";
+import { createModelProvider } from "../netlify/lib/modelProvider";
+
+// Golden-set checks for the model evaluator: run each sample reflection through createModelProvider
+// with a given prompt version and model client, then check what came back. Pure apart from the
+// client it is handed, so the CLI (run.ts) decides between recorded, stubbed and live models.
+
+export type GoldenSample = {
+  id: string;
+  text: string;
+  level?: CefrLevel;
+  nativeLanguage?: NativeLanguage;
+  goals?: string[];
+  minSentences?: number;
+  prompt?: string;
+  expect: {
+    issueTypes?: IssueType[];    // each must be highlighted at least once
+    notIssueTypes?: IssueType[]; // none of these may be
+  };
+};
+
+export type SampleRun = {
+  sample: GoldenSample;
+  raw: string;            // the model's reply, exactly as streamed
+  result: EvalResult | null;
+  failures: string[];
+  warnings: string[];     // repairs the server would have made quietly
+};
+
+export function requestFor(sample: GoldenSample): EvaluationRequest {
+  const profile = validateProfile({
+    nativeLanguage: sample.nativeLanguage ?? DEFAULT_PROFILE.nativeLanguage,
+    level: sample.level ?? DEFAULT_PROFILE.level,
+    goals: sample.goals ?? DEFAULT_PROFILE.goals,
+    minSentences: sample.minSentences ?? 1,
+  });
+  if (!profile.ok) throw new Error(`Sample '${sample.id}' has an invalid profile: ${JSON.stringify(profile.errors)}`);
+  return { ...profile.profile, text: sample.text, locale: "en", prompt: sample.prompt };
+}
+
+export async function runSample(sample: GoldenSample, model: ModelClient, prompt: EvaluationPrompt): Promise<SampleRun> {
+  let raw = "";
+  const capturing: ModelClient = {
+    name: model.name,
+    async *streamJson(input, options) {
+      for await (const chunk of model.streamJson(input, options)) {
+        raw += chunk;
+        yield chunk;
+      }
+    },
+  };
+  const run: SampleRun = { sample, raw: "", result: null, failures: [], warnings: [] };
+  try {
+    run.result = await createModelProvider(capturing, { prompt, timeoutMs: 120_000 }).evaluate(requestFor(sample));
+  } catch (err: unknown) {
+    run.failures.push(`evaluation failed: ${err instanceof EvaluationError ? `${err.code}: ` : ""}${err instanceof Error ? err.message : String(err)}`);
+  }
+  run.raw = raw;
+  if (!raw) return run; // nothing came back to check
+
+  let reply: unknown;
+  try {
+    reply = JSON.parse(raw);
+  } catch {
+    run.failures.push("the reply is not JSON");
+    return run;
+  }
+  run.failures.push(...checkSchema(reply, prompt.schema).map((m) => `schema: ${m}`));
+  run.failures.push(...checkSpans(reply, sample.text).map((m) => `span: ${m}`));
+  const checked = validateEvalResult(reply, sample.text);
+  if (checked.ok) run.warnings.push(...checked.repairs.map((m) => `repair: ${m}`));
+  if (run.result) {
+    run.failures.push(...checkExpectations(sample, run.result));
+    if (run.result.version?.prompt !== prompt.version) run.failures.push(`version: expected prompt ${prompt.version}, got ${JSON.stringify(run.result.version)}`);
+  }
+  return run;
+}
+
+/**
+ * The part of JSON Schema that EVAL_RESULT_SCHEMA uses: type, required, properties, items and enum.
+ * Returns one message per violation, with a path like $.issues[2].type.
+ */
+export function checkSchema(value: unknown, schema: Record<string, unknown>, path = "$"): string[] {
+  const type = schema.type;
+  if (type === "object") {
+    if (!isRecord(value)) return [`${path} should be an object`];
+    const errors: string[] = [];
+    for (const key of (schema.required as string[] | undefined) ?? []) {
+      if (!(key in value)) errors.push(`${path}.${key} is missing`);
+    }
+    const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+    for (const [key, sub] of Object.entries(properties)) {
+      if (key in value) errors.push(...checkSchema(value[key], sub, `${path}.${key}`));
+    }
+    return errors;
+  }
+  if (type === "array") {
+    if (!Array.isArray(value)) return [`${path} should be an array`];
+    const items = schema.items as Record<string, unknown> | undefined;
+    return items ? value.flatMap((v, i) => checkSchema(v, items, `${path}[${i}]`)) : [];
+  }
+  const ok =
+    type === "string" ? typeof value === "string"
+    : type === "integer" ? Number.isInteger(value)
+    : type === "number" ? typeof value === "number"
+    : type === "boolean" ? typeof value === "boolean"
+    : true;
+  if (!ok) return [`${path} should be ${type === "integer" ? "an" : "a"} ${type}`];
+  const allowed = schema.enum as readonly unknown[] | undefined;
+  if (allowed && !allowed.includes(value)) return [`${path} should be one of ${allowed.join(", ")}, got ${JSON.stringify(value)}`];
+  return [];
+}
+
+/** Spans in the raw reply, before any repair: inside the text, not empty, and quoting what they cover. */
+export function checkSpans(reply: unknown, text: string): string[] {
+  if (!isRecord(reply)) return [];
+  const spans = [
+    ...(Array.isArray(reply.issues) ? reply.issues.map((s, i) => [`issues[${i}]`, s] as const) : []),
+    ...(Array.isArray(reply.goals) ? reply.goals.map((s, i) => [`goals[${i}]`, s] as const) : []),
+  ];
+  const errors: string[] = [];
+  for (const [where, s] of spans) {
+    if (!isRecord(s) || (s.start === undefined && s.end === undefined)) continue; // a missing goal has no span
+    const { start, end, quote } = s;
+    if (!Number.isInteger(start) || !Number.isInteger(end)) {
+      errors.push(`${where} has no integer start and end`);
+      continue;
+    }
+    const [a, b] = [start as number, end as number];
+    if (a < 0 || b > text.length) errors.push(`${where} [${a}, ${b}) is outside the text (length ${text.length})`);
+    else if (a >= b) errors.push(`${where} [${a}, ${b}) is empty`);
+    else if (typeof quote === "string" && text.slice(a, b) !== quote) {
+      errors.push(`${where} quotes ${JSON.stringify(quote)} but covers ${JSON.stringify(text.slice(a, b))}`);
+    }
+  }
+  return errors;
+}
+
+export function checkExpectations(sample: GoldenSample, result: EvalResult): string[] {
+  const found = new Set(result.issues.map((it) => it.type));
+  const errors: string[] = [];
+  for (const type of sample.expect.issueTypes ?? []) {
+    if (!found.has(type)) errors.push(`expected a ${type} issue, found ${describeTypes(result) || "none"}`);
+  }
+  for (const type of sample.expect.notIssueTypes ?? []) {
+    if (found.has(type)) errors.push(`expected no ${type} issue, found ${describeTypes(result)}`);
+  }
+  return errors;
+}
+
+/** What changed between two runs of the same sample under different prompt versions. Empty when nothing did. */
+export function diffRuns(before: SampleRun, after: SampleRun): string[] {
+  if (!before.result || !after.result) return before.result === after.result ? [] : ["one of the runs failed"];
+  const text = before.sample.text;
+  const key = (it: EvalResult["issues"][number]) => `${it.type} "${text.slice(it.start, it.end)}"`;
+  const changes: string[] = [];
+
+  const oldIssues = new Set(before.result.issues.map(key));
+  const newIssues = new Set(after.result.issues.map(key));
+  for (const k of oldIssues) if (!newIssues.has(k)) changes.push(`- issue ${k}`);
+  for (const k of newIssues) if (!oldIssues.has(k)) changes.push(`+ issue ${k}`);
+
+  const oldGoals = new Map((before.result.goals ?? []).map((g) => [g.goal, g.status]));
+  for (const g of after.result.goals ?? []) {
+    const was = oldGoals.get(g.goal);
+    if (was !== g.status) changes.push(`~ goal "${g.goal}": ${was ?? "absent"} → ${g.status}`);
+  }
+
+  const oldTips = before.result.topTips.map((t) => t.title);
+  const newTips = after.result.topTips.map((t) => t.title);
+  for (const t of oldTips) if (!newTips.includes(t)) changes.push(`- tip "${t}"`);
+  for (const t of newTips) if (!oldTips.includes(t)) changes.push(`+ tip "${t}"`);
+
+  const rewrite = (r: EvalResult) => r.example?.afterParts.map((p) => p.text).join("") ?? "(none)";
+  if (rewrite(before.result) !== rewrite(after.result)) changes.push(`~ example: "${rewrite(before.result)}" → "${rewrite(after.result)}"`);
+  return changes;
+}
+
+/** Replays recorded replies by sample id, in small chunks like a streaming model. */
+export function createRecordedModelClient(name: string, reply: string | undefined): ModelClient {
+  return {
+    name,
+    async *streamJson() {
+      if (reply === undefined) throw new Error("No recorded reply for this sample; record one with --record.");
+      for (let i = 0; i < reply.length; i += 64) yield reply.slice(i, i + 64);
+    },
+  };
+}
+
+export function describeTypes(result: EvalResult): string {
+  const counts = new Map<IssueType, number>();
+  for (const it of result.issues) counts.set(it.type, (counts.get(it.type) ?? 0) + 1);
+  return [...counts].map(([type, n]) => `${type} ${n}`).join(", ");
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
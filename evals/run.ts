@@ -0,0 +1,144 @@
+// evals/run.ts
+// Replays the golden set (golden.json) through the model evaluator and checks every answer.
+//
+//   npm run golden                          current prompt, model replies recorded in recordings/prompt-<version>.json
+//   npm run golden -- --prompt 1            another prompt version
+//   npm run golden -- --compare 1           also run prompt 1 and list what changed per sample
+//   npm run golden -- --record              ask the real model (OPENAI_API_KEY) and save its replies
+//   npm run golden -- --fixtures            hand-written replies in fixtures/schema-<version>.json; tests the checks, not the model
+//   npm run golden -- --stub                the stub model (local rules behind the model code path)
+//   npm run golden -- --only spelling-basics
+//
+// Exits with 1 when any check fails, and before running anything when the replies to replay are missing.
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { CURRENT_PROMPT_VERSION, selectPrompt, type EvaluationPrompt } from "../netlify/lib/evaluationPrompts";
+import { createOpenAIModelClient, createStubModelClient, type ModelClient } from "../netlify/lib/modelClient";
+import { createRecordedModelClient, describeTypes, diffRuns, runSample, type GoldenSample, type SampleRun } from "./harness";
+
+const HERE = dirname(fileURLToPath(import.meta.url));
+const recordingsPath = (prompt: EvaluationPrompt) => join(HERE, "recordings", `prompt-${prompt.version}.json`);
+const fixturesPath = (prompt: EvaluationPrompt) => join(HERE, "fixtures", `schema-${prompt.schemaVersion}.json`);
+
+type ModelSource = "recorded" | "fixtures" | "stub" | "openai";
+type Replies = Record<string, string>; // raw reply per sample id
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      prompt: { type: "string", default: CURRENT_PROMPT_VERSION },
+      compare: { type: "string" },
+      record: { type: "boolean", default: false },
+      fixtures: { type: "boolean", default: false },
+      stub: { type: "boolean", default: false },
+      only: { type: "string" },
+    },
+  });
+  const all = JSON.parse(await readFile(join(HERE, "golden.json"), "utf8")) as GoldenSample[];
+  const samples = values.only ? all.filter((s) => s.id === values.only) : all;
+  if (samples.length === 0) throw new Error(`No golden sample '${values.only}'.`);
+
+  const source = modelSource(values);
+  const prompt = selectPrompt(values.prompt);
+  const baselinePrompt = values.compare ? selectPrompt(values.compare) : undefined;
+  // Load both versions' replies first, so a missing one fails before any sample runs
+  const replies = await loadReplies(prompt, samples, source);
+  const baselineReplies = baselinePrompt && (await loadReplies(baselinePrompt, samples, source));
+
+  const runs = await runAll(samples, prompt, source, replies);
+  let failed = report(runs);
+
+  if (baselinePrompt && baselineReplies) {
+    const baseline = await runAll(samples, baselinePrompt, source, baselineReplies);
+    failed = report(baseline) || failed;
+    console.log(`\nChanges from prompt ${values.compare} to prompt ${values.prompt}:`);
+    let changed = 0;
+    for (let i = 0; i < runs.length; i++) {
+      const changes = diffRuns(baseline[i], runs[i]);
+      if (changes.length === 0) continue;
+      changed++;
+      console.log(`  ${runs[i].sample.id}`);
+      for (const c of changes) console.log(`      ${c}`);
+    }
+    console.log(changed === 0 ? "  none" : `  ${changed} of ${runs.length} samples changed`);
+  }
+  process.exitCode = failed ? 1 : 0;
+}
+
+async function runAll(samples: GoldenSample[], prompt: EvaluationPrompt, source: ModelSource, replies: Replies): Promise<SampleRun[]> {
+  const record = source === "openai";
+  const path = recordingsPath(prompt);
+  console.log(`\nPrompt ${prompt.version} (schema ${prompt.schemaVersion}), ${samples.length} samples, model: ${source}`);
+
+  const runs: SampleRun[] = [];
+  for (const sample of samples) {
+    const model: ModelClient =
+      source === "recorded" || source === "fixtures" ? createRecordedModelClient(source, replies[sample.id])
+      : source === "stub" ? createStubModelClient({ delayMs: 0, chunkSize: 64 })
+      : createOpenAIModelClient();
+    const run = await runSample(sample, model, prompt);
+    if (record && run.raw) replies[sample.id] = run.raw;
+    runs.push(run);
+  }
+  if (record) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(replies, null, 2) + "\n");
+    console.log(`Saved replies to ${path}`);
+  }
+  return runs;
+}
+
+function modelSource(flags: { record: boolean; fixtures: boolean; stub: boolean }): ModelSource {
+  if ([flags.record, flags.fixtures, flags.stub].filter(Boolean).length > 1) throw new Error("Use only one of --record, --fixtures and --stub.");
+  if (flags.record) {
+    if (!process.env.OPENAI_API_KEY) throw new Error("--record asks the real model: set OPENAI_API_KEY.");
+    return "openai";
+  }
+  return flags.fixtures ? "fixtures" : flags.stub ? "stub" : "recorded";
+}
+
+/**
+ * The replies to replay for a prompt version: the model's, saved by --record, or the hand-written
+ * fixtures for its schema. Replaying needs the file and a reply for every sample that runs.
+ */
+async function loadReplies(prompt: EvaluationPrompt, samples: GoldenSample[], source: ModelSource): Promise<Replies> {
+  const path = source === "fixtures" ? fixturesPath(prompt) : recordingsPath(prompt);
+  const replaying = source === "recorded" || source === "fixtures";
+  if (!existsSync(path)) {
+    if (replaying) {
+      throw new Error(
+        source === "fixtures"
+          ? `No fixtures for schema ${prompt.schemaVersion} (${path}).`
+          : `No recorded replies for prompt ${prompt.version} (${path}). Record them with --record, or check the harness with --fixtures or --stub.`
+      );
+    }
+    return {};
+  }
+  const replies = JSON.parse(await readFile(path, "utf8")) as Replies;
+  const missing = replaying ? samples.filter((s) => replies[s.id] === undefined).map((s) => s.id) : [];
+  if (missing.length > 0) throw new Error(`${path} has no reply for ${missing.join(", ")}.${source === "recorded" ? " Record the missing replies with --record." : ""}`);
+  return replies;
+}
+
+/** Prints one line per sample and the problems under it; true when anything failed. */
+function report(runs: SampleRun[]): boolean {
+  let failures = 0;
+  for (const run of runs) {
+    const ok = run.failures.length === 0;
+    if (!ok) failures++;
+    const found = run.result ? describeTypes(run.result) || "no issues" : "no result";
+    console.log(`  ${ok ? "✓" : "✗"} ${run.sample.id.padEnd(24)} ${found}`);
+    for (const f of run.failures) console.log(`      ✗ ${f}`);
+    for (const w of run.warnings) console.log(`      · ${w}`);
+  }
+  console.log(`  ${runs.length - failures} passed, ${failures} failed`);
+  return failures > 0;
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
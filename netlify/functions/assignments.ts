@@ -0,0 +1,39 @@
+// netlify/functions/assignments.ts
+import { normalizeJoinCode, validateAssignment } from "../../src/classroom/classroom";
+import { classroomStore } from "../lib/classroomStore";
+import { json, readBody } from "../lib/http";
+import { allowMethods, compose, limitBodySize, rateLimit, type Handler } from "../lib/middleware";
+
+// POST creates an assignment and returns { assignment, teacherKey }; the key is never shown again.
+// GET ?code=K7QF3M is how students join: it returns the assignment without anything secret.
+const find: Handler = async (request) => {
+  try {
+    const code = normalizeJoinCode(new URL(request.url).searchParams.get("code"));
+    if (!code) return json(400, { error: "Enter the 6-character join code from your teacher." });
+    const assignment = await classroomStore().findByCode(code);
+    return assignment ? json(200, assignment) : json(404, { error: "No assignment uses that code." });
+  } catch (err: unknown) {
+    console.error(err);
+    return json(500, { error: "The class service is not available." });
+  }
+};
+
+const create: Handler = async (request) => {
+  try {
+    const checked = validateAssignment(await readBody(request));
+    if (!checked.ok) return json(400, { error: "Invalid assignment.", fields: checked.errors });
+    return json(201, await classroomStore().createAssignment(checked.draft));
+  } catch (err: unknown) {
+    console.error(err);
+    return json(500, { error: "The class service is not available." });
+  }
+};
+
+// Joining is not limited, since a whole class joins from one address at once; creating is.
+const limitedCreate = compose(
+  create,
+  rateLimit({ name: "assignments", limit: Number(process.env.RATE_LIMIT_ASSIGNMENTS_PER_HOUR) || 20, windowMs: 60 * 60_000 }),
+  limitBodySize()
+);
+
+export default compose((request) => (request.method === "GET" ? find(request) : limitedCreate(request)), allowMethods("GET", "POST"));
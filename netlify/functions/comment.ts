@@ -0,0 +1,29 @@
+// netlify/functions/comment.ts
+import { validateComment } from "../../src/classroom/classroom";
+import { classroomStore } from "../lib/classroomStore";
+import { bearerToken, json, readBody } from "../lib/http";
+import { allowMethods, compose, limitBodySize, type Handler } from "../lib/middleware";
+
+// POST { assignmentId, submissionId, start, end, body } with `Authorization: Bearer <teacherKey>`.
+// Returns the submission with the new comment in place.
+const comment: Handler = async (request) => {
+  try {
+    const raw = await readBody(request);
+    const key = bearerToken(request);
+    const store = classroomStore();
+    const assignment = typeof raw.assignmentId === "string" && key ? await store.authorize(raw.assignmentId, key) : null;
+    if (!assignment) return json(401, { error: "That teacher key does not open this assignment." });
+
+    const submission = typeof raw.submissionId === "string" ? await store.getSubmission(assignment.id, raw.submissionId) : null;
+    if (!submission) return json(404, { error: "Submission not found." });
+
+    const checked = validateComment(raw, submission.text);
+    if (!checked.ok) return json(400, { error: checked.error });
+    return json(200, await store.addComment(submission, checked.comment));
+  } catch (err: unknown) {
+    console.error(err);
+    return json(500, { error: "The class service is not available." });
+  }
+};
+
+export default compose(comment, allowMethods("POST"), limitBodySize());
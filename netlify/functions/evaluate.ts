@@ -1,117 +1,124 @@
 // netlify/functions/evaluate.ts
-import type { Handler } from "@netlify/functions";
-import OpenAI from "openai";
+import { checkTextLimits, EVALUATION_LIMITS, isSupportedLocale } from "../../src/evaluation/limits";
+import { EvaluationError, type EvaluationRequest } from "../../src/evaluation/provider";
+import { encodeEvent, NDJSON, streamEvaluation, type EvalSection, type EvalStreamEvent } from "../../src/evaluation/stream";
+import { validateSection } from "../../src/evaluation/validate";
+import { DEFAULT_PROFILE, validateProfile } from "../../src/profile/profile";
+import { splitSentences } from "../../src/text/tokenizer";
+import { TROUBLE_WORD_LIMITS, validateTroubleWords } from "../../src/vocabulary/bank";
+import { evaluateChecked, selectProvider } from "../lib/evaluator";
+import { fail, json, readBody } from "../lib/http";
+import { allowMethods, compose, limitBodySize, MODEL_RATE_LIMITS, type Handler } from "../lib/middleware";
 
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const provider = selectProvider();
 
-export const handler: Handler = async (event) => {
+// Clients that send `Accept: application/x-ndjson` get sections as they are ready (see src/evaluation/stream.ts);
+// everyone else gets one JSON EvalResult. Refusals carry an EvaluationErrorCode the app turns into a message.
+const evaluate: Handler = async (request) => {
   try {
-    const { text, locale, goals, level } = JSON.parse(event.body ?? "{}");
+    const { text, locale, nativeLanguage, explainInNativeLanguage, goals, level, minSentences, prompt, troubleWords } = await readBody(request);
 
     // Guard
     if (!text || typeof text !== "string") {
-      return json(400, { error: "Missing 'text'." });
+      return fail(400, "invalid_request", "Missing 'text'.");
     }
-
-    // Ask the model to return a structured JSON we can render
-    const response = await client.responses.create({
-      model: "gpt-5",
-      input: [
-        {
-          role: "system",
-          content:
-            "You are a patient writing coach for ESL/B1 learners. Evaluate short daily reflections. Return JSON with 'issues' (typed spans), 'topTips' (succinct), and one 'example' rewrite with parts marked bold where changed. Keep tone positive. Prioritize clarity over grammar jargon.",
-        },
-        {
-          role: "user",
-          content: JSON.stringify({
-            text,
-            locale: locale ?? "en",
-            goals: goals ?? ["tell day", "feelings", "next action"],
-            target_level: level ?? "simple_ENGLISH_B1",
-          }),
-        },
-      ],
-      // Ask for JSON guarantees
-      response_format: { type: "json_schema",
-        json_schema: {
-          name: "EvalResult",
-          schema: {
-            type: "object",
-            required: ["issues", "topTips"],
-            properties: {
-              issues: {
-                type: "array",
-                items: {
-                  type: "object",
-                  required: ["type", "start", "end"],
-                  properties: {
-                    type: { type: "string", enum: ["spell", "grammar", "clarity", "structure"] },
-                    start: { type: "integer" },
-                    end: { type: "integer" },
-                    tip: { type: "string" },
-                  },
-                },
-              },
-              topTips: {
-                type: "array",
-                items: {
-                  type: "object",
-                  required: ["title", "why", "examples"],
-                  properties: {
-                    title: { type: "string" },
-                    why: { type: "string" },
-                    examples: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        required: ["before", "after"],
-                        properties: {
-                          before: { type: "string" },
-                          after: { type: "string" },
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-              example: {
-                type: "object",
-                required: ["before", "afterParts"],
-                properties: {
-                  before: { type: "string" },
-                  afterParts: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      required: ["text"],
-                      properties: {
-                        text: { type: "string" },
-                        bold: { type: "boolean" },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
+    const overLimit = checkTextLimits(text);
+    if (overLimit) {
+      return fail(413, overLimit, `Keep it under ${EVALUATION_LIMITS.maxChars} characters and ${EVALUATION_LIMITS.maxWords} words.`);
+    }
+    if (prompt !== undefined && (typeof prompt !== "string" || prompt.length > EVALUATION_LIMITS.maxPromptChars)) {
+      return fail(400, "invalid_request", `'prompt' must be a string of up to ${EVALUATION_LIMITS.maxPromptChars} characters.`);
+    }
+    const trouble = troubleWords === undefined ? [] : validateTroubleWords(troubleWords);
+    if (!trouble) {
+      return fail(400, "invalid_request", `'troubleWords' must be up to ${TROUBLE_WORD_LIMITS.maxWords} { wrong, right } word pairs.`);
+    }
+    if (locale !== undefined && !isSupportedLocale(locale)) {
+      return fail(400, "unsupported_locale", `Locale '${String(locale)}' is not supported.`);
+    }
+    // Missing profile fields take the defaults; present ones must be valid
+    const profile = validateProfile({
+      nativeLanguage: nativeLanguage ?? DEFAULT_PROFILE.nativeLanguage,
+      level: level ?? DEFAULT_PROFILE.level,
+      goals: goals ?? DEFAULT_PROFILE.goals,
+      minSentences: minSentences ?? DEFAULT_PROFILE.minSentences,
+      explainInNativeLanguage,
     });
+    if (!profile.ok) {
+      return fail(400, profile.errors.level ? "unsupported_level" : "invalid_request", "Invalid learner profile.", { fields: profile.errors });
+    }
 
-    const jsonText = response.output?.[0]?.content?.[0]?.text ?? "{}";
-    const payload = JSON.parse(jsonText);
-    return json(200, payload);
+    const sentences = splitSentences(text);
+    if (sentences.length < profile.profile.minSentences) {
+      return fail(400, "too_few_sentences", `Write at least ${profile.profile.minSentences} sentences.`, { sentences });
+    }
+
+    const req: EvaluationRequest = {
+      ...profile.profile,
+      text,
+      locale: locale ?? "en",
+      prompt: prompt?.trim() || undefined,
+      troubleWords: trouble.length > 0 ? trouble : undefined,
+    };
+
+    const answer: Handler = async () => {
+      if (request.headers.get("Accept")?.includes(NDJSON)) return streamResponse(req);
+      const checked = await evaluateChecked(provider, req);
+      if (!checked.ok) return fail(502, checked.code, "Feedback could not be read.");
+      return json(200, checked.result);
+    };
+    // Only calls that reach the model count against the rate limits; repeats served from the cache are free
+    return await ((await provider.reachesModel(req)) ? compose(answer, ...MODEL_RATE_LIMITS) : answer)(request);
   } catch (err: unknown) {
     console.error(err);
+    if (err instanceof EvaluationError) return fail(err.code === "timeout" ? 504 : 502, err.code, "Feedback could not be read.");
     return json(500, { error: "Evaluation failed." });
   }
 };
 
-function json(statusCode: number, body: unknown) {
-  return {
-    statusCode,
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  };
-}
\ No newline at end of file
+export default compose(evaluate, allowMethods("POST"), limitBodySize());
+
+function streamResponse(req: EvaluationRequest) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: EvalStreamEvent) => controller.enqueue(encoder.encode(encodeEvent(event)));
+      try {
+        send({ section: "sentences", sentences: splitSentences(req.text) });
+        for await (const s of streamEvaluation(provider, req)) {
+          if (s.section === "sentences") continue; // already sent from the shared tokenizer
+          const section = validateSection(s.section, payloadOf(s), req.text);
+          if (section) send(section);
+        }
+        send({ section: "done" });
+      } catch (err: unknown) {
+        console.error(err);
+        send(
+          err instanceof EvaluationError
+            ? { section: "error", code: err.code, error: "Feedback could not be read." }
+            : { section: "error", error: "Evaluation failed." }
+        );
+      } finally {
+        controller.close();
+      }
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": NDJSON, "Cache-Control": "no-cache" } });
+}
+
+function payloadOf(s: EvalSection): unknown {
+  switch (s.section) {
+    case "sentences":
+      return s.sentences;
+    case "issues":
+      return s.issues;
+    case "goals":
+      return s.goals;
+    case "topTips":
+      return s.topTips;
+    case "example":
+      return s.example;
+    case "version":
+      return s.version;
+  }
+}
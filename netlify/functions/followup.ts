@@ -0,0 +1,39 @@
+// netlify/functions/followup.ts
+import { DEFAULT_PROFILE, validateProfile } from "../../src/profile/profile";
+import { FOLLOW_UP_LIMITS, followUpTemplate } from "../../src/prompts/followUp";
+import { selectFollowUpWriter } from "../lib/followUpWriter";
+import { fail, json, readBody } from "../lib/http";
+import { allowMethods, compose, limitBodySize, MODEL_RATE_LIMITS, type Handler } from "../lib/middleware";
+
+const writer = selectFollowUpWriter();
+
+// POST { nextAction, level?, nativeLanguage? } → { prompt, source }. The learner's "next action" sentence
+// from their last reflection becomes a personal prompt for today; the template answers when the model cannot.
+const followUp: Handler = async (request) => {
+  const { nextAction, level, nativeLanguage } = await readBody(request);
+
+  const sentence = typeof nextAction === "string" ? nextAction.replace(/\s+/g, " ").trim() : "";
+  if (!sentence || sentence.length > FOLLOW_UP_LIMITS.maxNextActionLength) {
+    return fail(400, "invalid_request", `'nextAction' must be one sentence of up to ${FOLLOW_UP_LIMITS.maxNextActionLength} characters.`);
+  }
+  const profile = validateProfile({
+    ...DEFAULT_PROFILE,
+    nativeLanguage: nativeLanguage ?? DEFAULT_PROFILE.nativeLanguage,
+    level: level ?? DEFAULT_PROFILE.level,
+  });
+  if (!profile.ok) {
+    return fail(400, profile.errors.level ? "unsupported_level" : "invalid_request", "Invalid learner profile.", { fields: profile.errors });
+  }
+
+  if (writer) {
+    try {
+      const prompt = await writer.write({ nextAction: sentence, level: profile.profile.level, nativeLanguage: profile.profile.nativeLanguage });
+      return json(200, { prompt, source: writer.name });
+    } catch (err: unknown) {
+      console.error("Follow-up prompt failed, using the template:", err);
+    }
+  }
+  return json(200, { prompt: followUpTemplate(sentence), source: "template" });
+};
+
+export default compose(followUp, allowMethods("POST"), ...MODEL_RATE_LIMITS, limitBodySize());
@@ -0,0 +1,24 @@
+// netlify/functions/submission.ts
+import { classroomStore } from "../lib/classroomStore";
+import { bearerToken, json } from "../lib/http";
+import { allowMethods, compose, limitBodySize, type Handler } from "../lib/middleware";
+
+// GET ?assignment=<id>&id=<submissionId> with `Authorization: Bearer <studentKey>` → the submission,
+// so a student can read the comments their teacher left on it.
+const openSubmission: Handler = async (request) => {
+  try {
+    const params = new URL(request.url).searchParams;
+    const assignmentId = params.get("assignment");
+    const submissionId = params.get("id");
+    const key = bearerToken(request);
+    const submission = assignmentId && submissionId && key ? await classroomStore().openSubmission(assignmentId, submissionId, key) : null;
+    // Same answer for unknown submissions and wrong keys
+    if (!submission) return json(404, { error: "Submission not found." });
+    return json(200, submission);
+  } catch (err: unknown) {
+    console.error(err);
+    return json(500, { error: "The class service is not available." });
+  }
+};
+
+export default compose(openSubmission, allowMethods("GET"), limitBodySize());
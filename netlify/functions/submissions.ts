@@ -0,0 +1,22 @@
+// netlify/functions/submissions.ts
+import { classroomStore } from "../lib/classroomStore";
+import { bearerToken, json } from "../lib/http";
+import { allowMethods, compose, limitBodySize, type Handler } from "../lib/middleware";
+
+// GET ?assignment=<id> with `Authorization: Bearer <teacherKey>` → { assignment, submissions }, newest first.
+const listSubmissions: Handler = async (request) => {
+  try {
+    const assignmentId = new URL(request.url).searchParams.get("assignment");
+    const key = bearerToken(request);
+    const assignment = assignmentId && key ? await classroomStore().authorize(assignmentId, key) : null;
+    // Same answer for unknown assignments and wrong keys
+    if (!assignment) return json(401, { error: "That teacher key does not open this assignment." });
+
+    return json(200, { assignment, submissions: await classroomStore().listSubmissions(assignment.id) });
+  } catch (err: unknown) {
+    console.error(err);
+    return json(500, { error: "The class service is not available." });
+  }
+};
+
+export default compose(listSubmissions, allowMethods("GET"), limitBodySize());
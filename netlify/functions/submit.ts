@@ -0,0 +1,61 @@
+// netlify/functions/submit.ts
+import { CLASSROOM_LIMITS, normalizeJoinCode } from "../../src/classroom/classroom";
+import { checkTextLimits, EVALUATION_LIMITS, isSupportedLocale } from "../../src/evaluation/limits";
+import type { EvaluationRequest } from "../../src/evaluation/provider";
+import { NATIVE_LANGUAGES, type NativeLanguage } from "../../src/profile/profile";
+import { countSentences } from "../../src/text/tokenizer";
+import { classroomStore } from "../lib/classroomStore";
+import { evaluateChecked, selectProvider } from "../lib/evaluator";
+import { fail, json, readBody } from "../lib/http";
+import { allowMethods, compose, limitBodySize, MODEL_RATE_LIMITS, type Handler } from "../lib/middleware";
+
+const provider = selectProvider();
+
+// A student hands in a reflection for an assignment. The server evaluates it with the assignment's
+// prompt, goals and level so the teacher reviews the same feedback the student was shown.
+// Returns { submission, studentKey }; the key is how the student reads the teacher's comments later (GET /api/submission).
+const submit: Handler = async (request) => {
+  try {
+    const { code: rawCode, studentName, text, locale, nativeLanguage, explainInNativeLanguage } = await readBody(request);
+
+    const code = normalizeJoinCode(rawCode);
+    const assignment = code ? await classroomStore().findByCode(code) : null;
+    if (!assignment) return json(404, { error: "No assignment uses that code." });
+
+    const name = typeof studentName === "string" ? studentName.trim() : "";
+    if (!name || name.length > CLASSROOM_LIMITS.maxNameLength) {
+      return json(400, { error: `Add your name (up to ${CLASSROOM_LIMITS.maxNameLength} characters).` });
+    }
+    if (typeof text !== "string" || !text.trim()) return fail(400, "invalid_request", "Missing 'text'.");
+    if (locale !== undefined && !isSupportedLocale(locale)) {
+      return fail(400, "unsupported_locale", `Locale '${String(locale)}' is not supported.`);
+    }
+    const overLimit = checkTextLimits(text);
+    if (overLimit) {
+      return fail(413, overLimit, `Keep reflections under ${EVALUATION_LIMITS.maxChars} characters and ${EVALUATION_LIMITS.maxWords} words.`);
+    }
+    if (countSentences(text) < assignment.minSentences) {
+      return fail(400, "too_few_sentences", `This assignment needs at least ${assignment.minSentences} sentences.`);
+    }
+
+    const req: EvaluationRequest = {
+      nativeLanguage: typeof nativeLanguage === "string" && Object.hasOwn(NATIVE_LANGUAGES, nativeLanguage) ? (nativeLanguage as NativeLanguage) : "en",
+      level: assignment.level,
+      goals: assignment.goals,
+      minSentences: assignment.minSentences,
+      text,
+      locale: locale ?? "en",
+      prompt: assignment.prompt,
+      explainInNativeLanguage: explainInNativeLanguage === true || undefined,
+    };
+    const checked = await evaluateChecked(provider, req);
+    if (!checked.ok) return fail(502, checked.code, "Feedback could not be read.");
+
+    return json(201, await classroomStore().addSubmission({ assignmentId: assignment.id, studentName: name, text, result: checked.result }));
+  } catch (err: unknown) {
+    console.error(err);
+    return json(500, { error: "Submitting failed." });
+  }
+};
+
+export default compose(submit, allowMethods("POST"), ...MODEL_RATE_LIMITS, limitBodySize());
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { AssignmentDraft } from "../../src/classroom/classroom";
+import { createClassroomStore } from "./classroomStore";
+import { createMemoryStore } from "./keyValue";
+
+const DRAFT: AssignmentDraft = { title: "My weekend", prompt: "What did you do?", goals: ["feelings"], level: "B1", minSentences: 2 };
+const RESULT = { issues: [], topTips: [] };
+
+async function handedIn() {
+  const kv = createMemoryStore();
+  const store = createClassroomStore(kv);
+  const { assignment, teacherKey } = await store.createAssignment(DRAFT);
+  const { submission, studentKey } = await store.addSubmission({ assignmentId: assignment.id, studentName: "Ana", text: "I went home.", result: RESULT });
+  return { kv, store, assignment, teacherKey, submission, studentKey };
+}
+
+describe("classroom store", () => {
+  it("opens a submission only with its student key", async () => {
+    const { store, assignment, submission, studentKey, teacherKey } = await handedIn();
+    expect(await store.openSubmission(assignment.id, submission.id, studentKey)).toEqual(submission);
+    expect(await store.openSubmission(assignment.id, submission.id, teacherKey)).toBeNull();
+    expect(await store.openSubmission(assignment.id, "missing", studentKey)).toBeNull();
+  });
+
+  it("stores only a hash of the student key, and never hands it out", async () => {
+    const { kv, store, assignment, submission, studentKey } = await handedIn();
+    const stored = JSON.stringify(await kv.get(`submissions/${assignment.id}/${submission.id}`));
+    expect(stored).not.toContain(studentKey);
+    expect(stored).toContain("studentKeyHash");
+    expect(Object.keys((await store.listSubmissions(assignment.id))[0])).not.toContain("studentKeyHash");
+    expect(Object.keys((await store.getSubmission(assignment.id, submission.id))!)).not.toContain("studentKeyHash");
+  });
+
+  it("shows the student the teacher's comments", async () => {
+    const { store, assignment, submission, studentKey } = await handedIn();
+    const commented = await store.addComment(submission, { start: 2, end: 6, quote: "went", body: "Nice past tense." });
+    expect(commented).not.toHaveProperty("studentKeyHash");
+    const seen = await store.openSubmission(assignment.id, submission.id, studentKey);
+    expect(seen?.comments.map((c) => c.body)).toEqual(["Nice past tense."]);
+  });
+});
@@ -0,0 +1,129 @@
+// netlify/lib/classroomStore.ts
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  randomJoinCode,
+  type Assignment,
+  type AssignmentDraft,
+  type Submission,
+  type TeacherComment,
+} from "../../src/classroom/classroom";
+import { selectStore, type KeyValueStore } from "./keyValue";
+
+// Layout:
+//   assignments/<id>                 StoredAssignment
+//   codes/<CODE>                     assignment id
+//   submissions/<assignmentId>/<id>  StoredSubmission (comments inline)
+
+type StoredAssignment = Assignment & { teacherKeyHash: string };
+type StoredSubmission = Submission & { studentKeyHash: string };
+
+export interface ClassroomStore {
+  /** Returns the assignment and the teacher key, which is shown once and stored only as a hash. */
+  createAssignment(draft: AssignmentDraft): Promise<{ assignment: Assignment; teacherKey: string }>;
+  findByCode(code: string): Promise<Assignment | null>;
+  /** The assignment when `teacherKey` opens it, otherwise null. */
+  authorize(assignmentId: string, teacherKey: string): Promise<Assignment | null>;
+  /** Returns the submission and the student key that lets its author read the teacher's comments; stored only as a hash. */
+  addSubmission(submission: Omit<Submission, "id" | "comments" | "submittedAt">): Promise<{ submission: Submission; studentKey: string }>;
+  listSubmissions(assignmentId: string): Promise<Submission[]>;
+  getSubmission(assignmentId: string, submissionId: string): Promise<Submission | null>;
+  /** The submission when `studentKey` opens it, otherwise null. */
+  openSubmission(assignmentId: string, submissionId: string, studentKey: string): Promise<Submission | null>;
+  addComment(submission: Submission, comment: Omit<TeacherComment, "id" | "createdAt">): Promise<Submission>;
+}
+
+export function createClassroomStore(kv: KeyValueStore, now: () => Date = () => new Date()): ClassroomStore {
+  return {
+    async createAssignment(draft) {
+      let code = randomJoinCode();
+      for (let tries = 0; (await kv.get(`codes/${code}`)) !== null; tries++) {
+        if (tries >= 10) throw new Error("Could not find a free join code.");
+        code = randomJoinCode();
+      }
+      const teacherKey = randomBytes(24).toString("base64url");
+      const assignment: Assignment = { id: randomUUID(), code, ...draft, createdAt: now().toISOString() };
+      await kv.set(`assignments/${assignment.id}`, { ...assignment, teacherKeyHash: hashKey(teacherKey) } satisfies StoredAssignment);
+      await kv.set(`codes/${code}`, assignment.id);
+      return { assignment, teacherKey };
+    },
+
+    async findByCode(code) {
+      const id = await kv.get<string>(`codes/${code}`);
+      return id ? publicAssignment(await kv.get<StoredAssignment>(`assignments/${id}`)) : null;
+    },
+
+    async authorize(assignmentId, teacherKey) {
+      const stored = await kv.get<StoredAssignment>(`assignments/${assignmentId}`);
+      if (!stored) return null;
+      return keyMatches(teacherKey, stored.teacherKeyHash) ? publicAssignment(stored) : null;
+    },
+
+    async addSubmission(input) {
+      const studentKey = randomBytes(24).toString("base64url");
+      const submission: Submission = { ...input, id: randomUUID(), comments: [], submittedAt: now().toISOString() };
+      await kv.set(`submissions/${input.assignmentId}/${submission.id}`, { ...submission, studentKeyHash: hashKey(studentKey) } satisfies StoredSubmission);
+      return { submission, studentKey };
+    },
+
+    async listSubmissions(assignmentId) {
+      const keys = await kv.list(`submissions/${assignmentId}/`);
+      const all = await Promise.all(keys.map((k) => kv.get<StoredSubmission>(k)));
+      return all
+        .filter((s): s is StoredSubmission => s !== null)
+        .map(publicSubmission)
+        .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+    },
+
+    async getSubmission(assignmentId, submissionId) {
+      const stored = await kv.get<StoredSubmission>(`submissions/${assignmentId}/${submissionId}`);
+      return stored && publicSubmission(stored);
+    },
+
+    async openSubmission(assignmentId, submissionId, studentKey) {
+      const stored = await kv.get<StoredSubmission>(`submissions/${assignmentId}/${submissionId}`);
+      // Submissions from before student keys have no hash and stay closed
+      return stored?.studentKeyHash && keyMatches(studentKey, stored.studentKeyHash) ? publicSubmission(stored) : null;
+    },
+
+    async addComment(submission, comment) {
+      const key = `submissions/${submission.assignmentId}/${submission.id}`;
+      const stored = await kv.get<StoredSubmission>(key);
+      if (!stored) throw new Error("Submission not found.");
+      const updated: StoredSubmission = {
+        ...stored,
+        comments: [...stored.comments, { ...comment, id: randomUUID(), createdAt: now().toISOString() }].sort((a, b) => a.start - b.start),
+      };
+      await kv.set(key, updated);
+      return publicSubmission(updated);
+    },
+  };
+}
+
+function hashKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function keyMatches(key: string, storedHash: string) {
+  const given = Buffer.from(hashKey(key), "hex");
+  const expected = Buffer.from(storedHash, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function publicAssignment(stored: StoredAssignment | null): Assignment | null {
+  if (!stored) return null;
+  const { id, code, title, prompt, goals, level, minSentences, createdAt } = stored;
+  return { id, code, title, prompt, goals, level, minSentences, createdAt };
+}
+
+function publicSubmission(stored: StoredSubmission): Submission {
+  const { id, assignmentId, studentName, text, result, comments, submittedAt } = stored;
+  return { id, assignmentId, studentName, text, result, comments, submittedAt };
+}
+
+let shared: ClassroomStore | null = null;
+
+/** One store per function instance, created on first use so Netlify Blobs sees the request environment. */
+export function classroomStore(): ClassroomStore {
+  shared ??= createClassroomStore(selectStore("classroom"));
+  return shared;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { EvaluationProvider, EvaluationRequest } from "../../src/evaluation/provider";
+import { DEFAULT_PROFILE } from "../../src/profile/profile";
+import { withCache } from "./evaluationCache";
+import { createMemoryStore } from "./keyValue";
+
+const OPTIONS = { ttlMs: 60_000, version: "test" };
+
+// Flags the first word of the text, so a result reused for other text shows up in its offsets
+function counting() {
+  const calls: string[] = [];
+  const provider: EvaluationProvider = {
+    name: "counting",
+    async evaluate(req) {
+      calls.push(req.text);
+      const start = req.text.search(/\S/);
+      const end = start + req.text.slice(start).search(/\s|$/);
+      return { issues: [{ type: "spell", start, end, quote: req.text.slice(start, end), tip: "" }], topTips: [] };
+    },
+  };
+  return { calls, provider };
+}
+
+const request = (text: string): EvaluationRequest => ({ ...DEFAULT_PROFILE, text, locale: "en" });
+
+describe("withCache", () => {
+  it("answers a repeat of the same request from the cache", async () => {
+    const { calls, provider } = counting();
+    const cache = withCache(provider, createMemoryStore(), OPTIONS);
+    expect(await cache.isCached(request("I go home."))).toBe(false);
+    const first = await cache.evaluate(request("I go home."));
+    expect(await cache.isCached(request("I go home."))).toBe(true);
+    expect(await cache.evaluate(request("I go home."))).toEqual(first);
+    expect(calls).toHaveLength(1);
+  });
+
+  it.each([
+    ["leading spaces", "  I go home."],
+    ["doubled spaces", "I  go home."],
+    ["Windows line endings", "I go home.\r\nI sleep."],
+    ["a trailing newline", "I go home.\n"],
+  ])("does not reuse a result for text that differs only in %s", async (_name, variant) => {
+    const { calls, provider } = counting();
+    const cache = withCache(provider, createMemoryStore(), OPTIONS);
+    await cache.evaluate(request(variant.trim().replace(/\s+/g, " ")));
+    expect(await cache.isCached(request(variant))).toBe(false);
+    const { issues } = await cache.evaluate(request(variant));
+    expect(variant.slice(issues[0].start, issues[0].end)).toBe(issues[0].quote);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("does not reuse a result across Unicode normalisation forms", async () => {
+    const { calls, provider } = counting();
+    const cache = withCache(provider, createMemoryStore(), OPTIONS);
+    await cache.evaluate(request("Me gusta el café.".normalize("NFC")));
+    await cache.evaluate(request("Me gusta el café.".normalize("NFD")));
+    expect(calls).toHaveLength(2);
+  });
+
+  it("shares one provider call between identical requests in flight", async () => {
+    const { calls, provider } = counting();
+    const cache = withCache(provider, createMemoryStore(), OPTIONS);
+    await Promise.all([cache.evaluate(request("I go home.")), cache.evaluate(request("I go home."))]);
+    expect(calls).toHaveLength(1);
+  });
+});
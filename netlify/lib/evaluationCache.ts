@@ -0,0 +1,141 @@
+// netlify/lib/evaluationCache.ts
+import { createHash } from "node:crypto";
+import type { EvaluationProvider, EvaluationRequest } from "../../src/evaluation/provider";
+import { applySection, completeResult, sectionsOf, streamEvaluation, type PartialEvalResult } from "../../src/evaluation/stream";
+import type { EvalResult } from "../../src/types";
+import { createBlobStore, createFileStore, createLruStore, type KeyValueStore } from "./keyValue";
+
+type CachedEvaluation = { result: EvalResult; storedAt: number };
+
+export type CachedProvider = EvaluationProvider & {
+  /** True when `req` would be answered from the cache, or by joining the same call already in flight. */
+  isCached(req: EvaluationRequest): Promise<boolean>;
+};
+
+export type CacheOptions = {
+  ttlMs: number;
+  version: string; // EVALUATION_CACHE_VERSION; change it to drop every cached evaluation at once
+};
+
+/**
+ * Serves repeat evaluations from `store` and merges identical requests that are in flight at the
+ * same time into one provider call. The key covers everything that shapes the answer: the exact
+ * text, locale, profile, prompt, trouble words, and the provider's name and version, so a prompt
+ * change busts it. The text is not normalised, not even to NFC: issue offsets index into it, so a
+ * result may only be reused for the very same characters.
+ * Cache failures are logged and never fail an evaluation.
+ */
+export function withCache(provider: EvaluationProvider, store: KeyValueStore, { ttlMs, version }: CacheOptions): CachedProvider {
+  const inFlight = new Map<string, Promise<EvalResult>>();
+
+  function keyOf(req: EvaluationRequest): string {
+    const identity = {
+      cache: version,
+      provider: provider.name,
+      providerVersion: provider.version ?? "",
+      text: req.text,
+      locale: req.locale,
+      nativeLanguage: req.nativeLanguage,
+      explainInNativeLanguage: req.explainInNativeLanguage === true,
+      level: req.level,
+      goals: req.goals,
+      minSentences: req.minSentences,
+      prompt: req.prompt ?? "",
+      troubleWords: req.troubleWords ?? [],
+    };
+    return `evaluations/${createHash("sha256").update(JSON.stringify(identity)).digest("hex")}`;
+  }
+
+  async function lookup(key: string): Promise<EvalResult | null> {
+    try {
+      const cached = await store.get<CachedEvaluation>(key);
+      return cached && Date.now() - cached.storedAt < ttlMs ? cached.result : null;
+    } catch (err: unknown) {
+      console.warn("Evaluation cache read failed:", err);
+      return null;
+    }
+  }
+
+  async function remember(key: string, result: EvalResult) {
+    try {
+      await store.set(key, { result, storedAt: Date.now() } satisfies CachedEvaluation);
+    } catch (err: unknown) {
+      console.warn("Evaluation cache write failed:", err);
+    }
+  }
+
+  // Registers the call before it starts so a duplicate arriving meanwhile waits for it instead
+  function track(key: string, run: Promise<EvalResult>): Promise<EvalResult> {
+    inFlight.set(key, run);
+    run.then((result) => remember(key, result)).catch(() => {}).finally(() => inFlight.delete(key));
+    return run;
+  }
+
+  return {
+    name: provider.name,
+    version: provider.version,
+    async isCached(req) {
+      const key = keyOf(req);
+      return inFlight.has(key) || (await lookup(key)) !== null;
+    },
+    async evaluate(req) {
+      const key = keyOf(req);
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+      const cached = await lookup(key);
+      if (cached) return cached;
+      return inFlight.get(key) ?? track(key, provider.evaluate(req));
+    },
+    async *stream(req) {
+      const key = keyOf(req);
+      const ready = inFlight.get(key) ?? (await lookup(key)) ?? inFlight.get(key);
+      if (ready) {
+        yield* sectionsOf(await ready);
+        return;
+      }
+      // First caller streams live; the result is shared with duplicates when the stream completes
+      let settle!: { resolve: (r: EvalResult) => void; reject: (err: unknown) => void };
+      track(key, new Promise<EvalResult>((resolve, reject) => (settle = { resolve, reject })));
+      let partial: PartialEvalResult = {};
+      let finished = false;
+      try {
+        for await (const s of streamEvaluation(provider, req)) {
+          partial = applySection(partial, s);
+          yield s;
+        }
+        finished = true;
+        settle.resolve(completeResult(partial));
+      } catch (err: unknown) {
+        settle.reject(err);
+        throw err;
+      } finally {
+        // The client went away mid-stream: release any duplicates waiting on this call (no-op once settled)
+        if (!finished) settle.reject(new Error("The evaluation stream was cancelled."));
+      }
+    },
+  };
+}
+
+/**
+ * EVALUATION_CACHE=memory (default: an LRU of EVALUATION_CACHE_MAX_ENTRIES per function instance),
+ * =file (EVALUATION_CACHE_PATH) or =blobs (shared by every instance), or =off.
+ */
+export function selectCacheStore(): KeyValueStore | null {
+  switch (process.env.EVALUATION_CACHE) {
+    case "off":
+      return null;
+    case "file":
+      return createFileStore(process.env.EVALUATION_CACHE_PATH ?? ".data/evaluation-cache.json");
+    case "blobs":
+      return createBlobStore("evaluation-cache");
+    default:
+      return createLruStore(Number(process.env.EVALUATION_CACHE_MAX_ENTRIES) || 500);
+  }
+}
+
+export function cacheOptions(): CacheOptions {
+  return {
+    ttlMs: Number(process.env.EVALUATION_CACHE_TTL_MS) || 24 * 60 * 60_000,
+    version: process.env.EVALUATION_CACHE_VERSION ?? "1",
+  };
+}
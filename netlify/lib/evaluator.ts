@@ -0,0 +1,46 @@
+// netlify/lib/evaluator.ts
+import { createLocalProvider } from "../../src/evaluation/localEvaluator";
+import { withFallback, type EvaluationProvider, type EvaluationRequest } from "../../src/evaluation/provider";
+import { validateEvalResult } from "../../src/evaluation/validate";
+import { splitSentences } from "../../src/text/tokenizer";
+import { cacheOptions, selectCacheStore, withCache } from "./evaluationCache";
+import { createOpenAIModelClient, createStubModelClient } from "./modelClient";
+import { createModelProvider } from "./modelProvider";
+
+export type ServerProvider = EvaluationProvider & {
+  /** Whether evaluating `req` would call the model; cache hits and the local rules do not, and are not rate-limited. */
+  reachesModel(req: EvaluationRequest): Promise<boolean>;
+};
+
+// EVALUATION_PROVIDER=local (or no API key) serves the rule-based evaluator only; =stub streams
+// the local rules through the model code path with a fake delay. Otherwise the model answers,
+// and the rules take over when the model call fails. Model answers are cached (see evaluationCache.ts);
+// fallback answers are not, so the model gets another chance next time.
+export function selectProvider(): ServerProvider {
+  const local = createLocalProvider();
+  if (process.env.EVALUATION_PROVIDER === "stub") return cached(createModelProvider(createStubModelClient()));
+  if (process.env.EVALUATION_PROVIDER === "local" || !process.env.OPENAI_API_KEY) return { ...local, reachesModel: async () => false };
+  const model = cached(createModelProvider(createOpenAIModelClient()));
+  return {
+    ...withFallback(model, local, (err) => console.error("Model evaluation failed, using local rules:", err)),
+    reachesModel: model.reachesModel,
+  };
+}
+
+function cached(provider: EvaluationProvider): ServerProvider {
+  const store = selectCacheStore();
+  if (!store) return { ...provider, reachesModel: async () => true };
+  const cache = withCache(provider, store, cacheOptions());
+  return { ...cache, reachesModel: async (req) => !(await cache.isCached(req)) };
+}
+
+/**
+ * Whole-result evaluation. Every provider's output goes through the same repair pass before it reaches
+ * buildSegments; sentence offsets always come from the shared tokenizer, never from the provider.
+ */
+export async function evaluateChecked(provider: EvaluationProvider, req: EvaluationRequest) {
+  const checked = validateEvalResult(await provider.evaluate(req), req.text);
+  if (!checked.ok) return checked;
+  if (checked.repairs.length > 0) console.warn(`Repaired ${provider.name} output:`, checked.repairs);
+  return { ...checked, result: { ...checked.result, sentences: splitSentences(req.text) } };
+}
@@ -0,0 +1,23 @@
+// netlify/lib/http.ts
+import type { EvaluationErrorCode } from "../../src/evaluation/provider";
+
+export function json(status: number, body: unknown) {
+  return Response.json(body, { status });
+}
+
+/** The JSON body, or an empty object when it is missing or not JSON. */
+export async function readBody(request: Request): Promise<Record<string, unknown>> {
+  const body: unknown = await request.json().catch(() => null);
+  return typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+}
+
+/** Token from `Authorization: Bearer <token>`. */
+export function bearerToken(request: Request): string | null {
+  const m = request.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return m ? m[1] : null;
+}
+
+/** An error body the client can act on: `code` is an EvaluationErrorCode, `error` is for logs and fallbacks. */
+export function fail(status: number, code: EvaluationErrorCode, error: string, extra: Record<string, unknown> = {}) {
+  return json(status, { error, code, ...extra });
+}
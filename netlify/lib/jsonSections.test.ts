@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { createSectionParser } from "./jsonSections";
+
+function parse(chunks: string[]) {
+  const sections: [string, unknown][] = [];
+  const parser = createSectionParser((key, value) => sections.push([key, value]));
+  for (const c of chunks) parser.feed(c);
+  return sections;
+}
+
+const REPLY = {
+  issues: [{ type: "spell", start: 0, end: 4, quote: "Todai", tip: "Check the \"ai\" ending: today." }],
+  goals: [],
+  topTips: [{ title: "Braces { and } in text", why: "Commas, colons: [fine]", examples: [] }],
+  example: null,
+  score: 3.5,
+  done: true,
+  note: "a \\ backslash",
+};
+
+describe("createSectionParser", () => {
+  it("reports every top-level property in order", () => {
+    expect(parse([JSON.stringify(REPLY)])).toEqual(Object.entries(REPLY));
+  });
+
+  it("gives the same sections however the reply is split", () => {
+    const text = JSON.stringify(REPLY, null, 2);
+    for (const size of [1, 2, 3, 5, 8, 13, 64]) {
+      const chunks = [];
+      for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+      expect(parse(chunks)).toEqual(Object.entries(REPLY));
+    }
+  });
+
+  it("reports a section as soon as its value is complete", () => {
+    const sections: string[] = [];
+    const parser = createSectionParser((key) => sections.push(key));
+    parser.feed('{"issues": [{"type": "spell"}], "topTi');
+    expect(sections).toEqual(["issues"]);
+    parser.feed('ps": [');
+    expect(sections).toEqual(["issues"]);
+    parser.feed("]}");
+    expect(sections).toEqual(["issues", "topTips"]);
+  });
+
+  it("holds back a number until something ends it", () => {
+    const sections: [string, unknown][] = [];
+    const parser = createSectionParser((key, value) => sections.push([key, value]));
+    parser.feed('{"count": 12');
+    expect(sections).toEqual([]);
+    parser.feed("3 }");
+    expect(sections).toEqual([["count", 123]]);
+  });
+
+  it("reports nothing for a reply cut off mid-value", () => {
+    expect(parse(['{"issues": [{"type": "sp'])).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+// netlify/lib/jsonSections.ts
+// Incremental reader for a streamed JSON object: reports each top-level property
+// as soon as its value is complete, so "issues" can go out before "topTips" is written.
+
+export function createSectionParser(onSection: (key: string, value: unknown) => void) {
+  let buf = "";
+  let i = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let state: "key" | "colon" | "value" | "inValue" | "afterValue" = "key";
+  let keyStart = -1;
+  let key = "";
+  let valueStart = -1;
+
+  function emit(end: number) {
+    onSection(key, JSON.parse(buf.slice(valueStart, end)));
+    state = "afterValue";
+  }
+
+  return {
+    feed(chunk: string) {
+      buf += chunk;
+      for (; i < buf.length; i++) {
+        const c = buf[i];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (c === "\\") escaped = true;
+          else if (c === '"') {
+            inString = false;
+            if (depth === 1 && state === "key") {
+              key = JSON.parse(buf.slice(keyStart, i + 1)) as string;
+              state = "colon";
+            } else if (depth === 1 && state === "inValue") {
+              emit(i + 1); // a string value at the top level
+            }
+          }
+          continue;
+        }
+        if (/\s/.test(c)) continue;
+
+        if (depth === 1 && state === "value") {
+          valueStart = i;
+          state = "inValue";
+        }
+        switch (c) {
+          case '"':
+            inString = true;
+            if (depth === 1 && state === "key") keyStart = i;
+            break;
+          case "{":
+          case "[":
+            depth++;
+            break;
+          case "}":
+          case "]":
+            if (depth === 1 && state === "inValue") emit(i); // number/true/false/null before the closing brace
+            depth--;
+            if (depth === 1 && state === "inValue") emit(i + 1);
+            break;
+          case ":":
+            if (depth === 1 && state === "colon") state = "value";
+            break;
+          case ",":
+            if (depth === 1) {
+              if (state === "inValue") emit(i);
+              state = "key";
+            }
+            break;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,115 @@
+// netlify/lib/keyValue.ts
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getStore } from "@netlify/blobs";
+
+/**
+ * Minimal JSON key-value storage behind the class-mode functions. Netlify Blobs in production;
+ * a JSON file or plain memory stands in during development and scripted checks.
+ */
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): Promise<void>;
+  /** Keys starting with `prefix`, in no particular order. */
+  list(prefix: string): Promise<string[]>;
+}
+
+export function createMemoryStore(): KeyValueStore {
+  const data = new Map<string, string>();
+  return {
+    async get<T>(key: string) {
+      const raw = data.get(key);
+      return raw === undefined ? null : (JSON.parse(raw) as T);
+    },
+    async set(key, value) {
+      data.set(key, JSON.stringify(value)); // stored as JSON so callers never share objects
+    },
+    async list(prefix) {
+      return [...data.keys()].filter((k) => k.startsWith(prefix));
+    },
+  };
+}
+
+/** Memory with a size cap: once `maxEntries` is reached, the least recently read or written key goes. */
+export function createLruStore(maxEntries: number): KeyValueStore {
+  const data = new Map<string, string>(); // insertion order doubles as recency order
+  return {
+    async get<T>(key: string) {
+      const raw = data.get(key);
+      if (raw === undefined) return null;
+      data.delete(key);
+      data.set(key, raw);
+      return JSON.parse(raw) as T;
+    },
+    async set(key, value) {
+      data.delete(key);
+      data.set(key, JSON.stringify(value));
+      while (data.size > maxEntries) data.delete(data.keys().next().value as string);
+    },
+    async list(prefix) {
+      return [...data.keys()].filter((k) => k.startsWith(prefix));
+    },
+  };
+}
+
+/** Keeps everything in one JSON file. Fine for `netlify dev`; not for concurrent production writes. */
+export function createFileStore(path: string): KeyValueStore {
+  let cache: Record<string, unknown> | null = null;
+
+  async function load() {
+    if (cache) return cache;
+    try {
+      cache = JSON.parse(await readFile(path, "utf8")) as Record<string, unknown>;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      cache = {};
+    }
+    return cache;
+  }
+
+  return {
+    async get<T>(key: string) {
+      const all = await load();
+      return key in all ? (structuredClone(all[key]) as T) : null;
+    },
+    async set(key, value) {
+      const all = await load();
+      all[key] = structuredClone(value);
+      await mkdir(dirname(path), { recursive: true });
+      // Write then rename so a crash never leaves half a file behind
+      await writeFile(`${path}.tmp`, JSON.stringify(all, null, 2));
+      await rename(`${path}.tmp`, path);
+    },
+    async list(prefix) {
+      return Object.keys(await load()).filter((k) => k.startsWith(prefix));
+    },
+  };
+}
+
+export function createBlobStore(name: string): KeyValueStore {
+  const store = getStore({ name, consistency: "strong" });
+  return {
+    async get<T>(key: string) {
+      return ((await store.get(key, { type: "json" })) ?? null) as T | null;
+    },
+    async set(key, value) {
+      await store.setJSON(key, value);
+    },
+    async list(prefix) {
+      const { blobs } = await store.list({ prefix });
+      return blobs.map((b) => b.key);
+    },
+  };
+}
+
+// CLASSROOM_STORE=memory or =file (at CLASSROOM_STORE_PATH) for development; Netlify Blobs otherwise.
+export function selectStore(name: string): KeyValueStore {
+  switch (process.env.CLASSROOM_STORE) {
+    case "memory":
+      return createMemoryStore();
+    case "file":
+      return createFileStore(process.env.CLASSROOM_STORE_PATH ?? `.data/${name}.json`);
+    default:
+      return createBlobStore(name);
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+import { allowMethods, clientKey, compose, limitBodySize, rateLimit, type Handler, type Middleware } from "./middleware";
+import { createMemoryRateLimitStore } from "./rateLimit";
+
+const URL = "https://example.test/api/x";
+const ok: Handler = async () => new Response("ok");
+const echo: Handler = async (request) => new Response(await request.text());
+
+function post(body: BodyInit, headers: Record<string, string> = {}) {
+  return new Request(URL, { method: "POST", body, headers });
+}
+
+// A body streamed in chunks with no Content-Length, like a chunked upload
+function streamed(chunks: string[]) {
+  const encoder = new TextEncoder();
+  const pull = vi.fn();
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pull();
+      const next = chunks.shift();
+      if (next === undefined) controller.close();
+      else controller.enqueue(encoder.encode(next));
+    },
+  });
+  return { request: new Request(URL, { method: "POST", body, duplex: "half" } as RequestInit), pull };
+}
+
+describe("compose", () => {
+  it("runs the middleware in order, then the handler", async () => {
+    const calls: string[] = [];
+    const step = (name: string): Middleware => (next) => async (request) => {
+      calls.push(name);
+      return next(request);
+    };
+    const handler = compose(async () => {
+      calls.push("handler");
+      return new Response("ok");
+    }, step("a"), step("b"));
+    await handler(new Request(URL));
+    expect(calls).toEqual(["a", "b", "handler"]);
+  });
+
+  it("stops at a middleware that answers itself", async () => {
+    const handler = vi.fn(ok);
+    const res = await compose(handler, allowMethods("POST"))(new Request(URL));
+    expect(res.status).toBe(405);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("allowMethods", () => {
+  it("passes listed methods and refuses others with 405", async () => {
+    const handler = compose(ok, allowMethods("GET", "POST"));
+    expect((await handler(new Request(URL))).status).toBe(200);
+    const res = await handler(new Request(URL, { method: "DELETE" }));
+    expect(res.status).toBe(405);
+    expect(await res.json()).toEqual({ error: "Use GET or POST.", code: "invalid_request" });
+  });
+});
+
+describe("limitBodySize", () => {
+  const limited = compose(echo, limitBodySize(10));
+
+  it("hands on a body within the limit", async () => {
+    const res = await limited(post("0123456789"));
+    expect(await res.text()).toBe("0123456789");
+  });
+
+  it("refuses a declared Content-Length over the limit", async () => {
+    const res = await limited(post("short", { "Content-Length": "11" }));
+    expect(res.status).toBe(413);
+    expect(await res.json()).toMatchObject({ code: "text_too_long" });
+  });
+
+  it("counts bytes, not characters", async () => {
+    expect((await limited(post("ééééé"))).status).toBe(200);
+    expect((await limited(post("éééééé"))).status).toBe(413);
+  });
+
+  it("stops reading a stream as soon as it passes the limit", async () => {
+    const { request, pull } = streamed(["12345", "67890", "x", "never read", "never read"]);
+    expect((await limited(request)).status).toBe(413);
+    expect(pull).toHaveBeenCalledTimes(3);
+  });
+
+  it("joins a streamed body back together", async () => {
+    const { request } = streamed(["12345", "678"]);
+    expect(await (await limited(request)).text()).toBe("12345678");
+  });
+
+  it("lets requests without a body through", async () => {
+    expect((await limited(new Request(URL))).status).toBe(200);
+  });
+});
+
+describe("clientKey", () => {
+  it.each([
+    ["Netlify's client IP", { "x-nf-client-connection-ip": "1.1.1.1", "x-forwarded-for": "2.2.2.2" }, "1.1.1.1"],
+    ["the first forwarded hop", { "x-forwarded-for": " 2.2.2.2 , 3.3.3.3" }, "2.2.2.2"],
+    ["a shared key without either header", {}, "anonymous"],
+  ])("uses %s", (_name, headers, key) => {
+    expect(clientKey(new Request(URL, { headers }))).toBe(key);
+  });
+});
+
+describe("rateLimit", () => {
+  function limited(now: () => number) {
+    return compose(ok, rateLimit({ name: "test", limit: 2, windowMs: 60_000, store: createMemoryRateLimitStore(), keyOf: (r) => r.headers.get("x-user") ?? "", now }));
+  }
+  const from = (user: string) => new Request(URL, { headers: { "x-user": user } });
+
+  it("allows the limit, then answers 429 with Retry-After", async () => {
+    let at = 0;
+    const handler = limited(() => at);
+    expect((await handler(from("a"))).status).toBe(200);
+    expect((await handler(from("a"))).status).toBe(200);
+    at = 15_500;
+    const res = await handler(from("a"));
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("45");
+    expect(await res.json()).toMatchObject({ code: "rate_limited", retryAfter: 45 });
+  });
+
+  it("counts each client on its own", async () => {
+    const handler = limited(() => 0);
+    await handler(from("a"));
+    await handler(from("a"));
+    expect((await handler(from("b"))).status).toBe(200);
+  });
+
+  it("lets a client in again once the window ends", async () => {
+    let at = 0;
+    const handler = limited(() => at);
+    for (let i = 0; i < 3; i++) await handler(from("a"));
+    at = 60_000;
+    expect((await handler(from("a"))).status).toBe(200);
+  });
+
+  it("keeps limits with different names apart in a shared store", async () => {
+    const store = createMemoryRateLimitStore();
+    const limit = (name: string) => rateLimit({ name, limit: 1, windowMs: 60_000, store, now: () => 0 });
+    const handler = compose(ok, limit("minute"), limit("hour"));
+    expect((await handler(new Request(URL))).status).toBe(200);
+    expect((await handler(new Request(URL))).status).toBe(429);
+  });
+});
@@ -0,0 +1,95 @@
+// netlify/lib/middleware.ts
+import { EVALUATION_LIMITS } from "../../src/evaluation/limits";
+import { json } from "./http";
+import { createMemoryRateLimitStore, type RateLimitStore } from "./rateLimit";
+
+export type Handler = (request: Request) => Promise<Response>;
+export type Middleware = (next: Handler) => Handler;
+
+/** `compose(handler, a, b)` runs a, then b, then the handler. */
+export function compose(handler: Handler, ...middleware: Middleware[]): Handler {
+  return middleware.reduceRight((next, mw) => mw(next), handler);
+}
+
+export function allowMethods(...methods: string[]): Middleware {
+  return (next) => async (request) =>
+    methods.includes(request.method)
+      ? next(request)
+      : json(405, { error: `Use ${methods.join(" or ")}.`, code: "invalid_request" });
+}
+
+/** Rejects bodies over `maxBytes` without reading more than that, then hands on a request with the buffered body. */
+export function limitBodySize(maxBytes = EVALUATION_LIMITS.maxBodyBytes): Middleware {
+  const tooLarge = () => json(413, { error: "That is too much text to check at once.", code: "text_too_long" });
+  return (next) => async (request) => {
+    if (!request.body) return next(request);
+    if (Number(request.headers.get("Content-Length") ?? 0) > maxBytes) return tooLarge();
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        return tooLarge();
+      }
+      chunks.push(value);
+    }
+    const body = new Uint8Array(size);
+    let offset = 0;
+    for (const c of chunks) {
+      body.set(c, offset);
+      offset += c.byteLength;
+    }
+    return next(new Request(request.url, { method: request.method, headers: request.headers, body }));
+  };
+}
+
+/** Netlify's client IP header, then the first X-Forwarded-For hop. */
+export function clientKey(request: Request): string {
+  return (
+    request.headers.get("x-nf-client-connection-ip") ??
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() ??
+    "anonymous"
+  );
+}
+
+const defaultStore = createMemoryRateLimitStore();
+
+/** At most `limit` requests per client per `windowMs`; past that, 429 with Retry-After. */
+export function rateLimit({
+  name,
+  limit,
+  windowMs,
+  store = defaultStore,
+  keyOf = clientKey,
+  now = Date.now,
+}: {
+  name: string; // keeps windows of different limits apart in a shared store
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+  keyOf?: (request: Request) => string;
+  now?: () => number;
+}): Middleware {
+  return (next) => async (request) => {
+    const at = now();
+    const { count, resetAt } = await store.hit(`${name}:${keyOf(request)}`, windowMs, at);
+    if (count <= limit) return next(request);
+    const retryAfter = Math.max(1, Math.ceil((resetAt - at) / 1000));
+    return Response.json(
+      { error: "Too many requests. Please wait a moment and try again.", code: "rate_limited", retryAfter },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
+  };
+}
+
+// Shared by every function that calls the paid model: a burst limit and an hourly ceiling.
+// A classroom behind one NAT address shares these, so schools can raise them with the env vars.
+export const MODEL_RATE_LIMITS: Middleware[] = [
+  rateLimit({ name: "minute", limit: Number(process.env.RATE_LIMIT_PER_MINUTE) || 6, windowMs: 60_000 }),
+  rateLimit({ name: "hour", limit: Number(process.env.RATE_LIMIT_PER_HOUR) || 60, windowMs: 60 * 60_000 }),
+];
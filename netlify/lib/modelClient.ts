@@ -0,0 +1,65 @@
+// netlify/lib/modelClient.ts
+import OpenAI from "openai";
+import { evaluateLocally } from "../../src/evaluation/localEvaluator";
+import { loadDictionary } from "../../src/evaluation/wordlist";
+
+/** The one thing the evaluator needs from a model: streamed JSON text for a system + user prompt. */
+export type ModelClient = {
+  name: string;
+  streamJson(
+    prompt: { system: string; user: string; schemaName: string; schema: Record<string, unknown> },
+    options?: { signal?: AbortSignal } // aborting ends the iteration with an error
+  ): AsyncIterable<string>;
+};
+
+export function createOpenAIModelClient(client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })): ModelClient {
+  return {
+    name: "openai",
+    async *streamJson({ system, user, schemaName, schema }, { signal } = {}) {
+      const events = await client.responses.create(
+        {
+          model: "gpt-5",
+          input: [
+            { role: "system", content: system },
+            { role: "user", content: user },
+          ],
+          // Ask for JSON guarantees
+          text: { format: { type: "json_schema", name: schemaName, schema } },
+          stream: true,
+        },
+        { signal }
+      );
+      for await (const event of events) {
+        if (event.type === "response.output_text.delta") yield event.delta;
+        else if (event.type === "response.failed") throw new Error(event.response.error?.message ?? "Model response failed.");
+        else if (event.type === "error") throw new Error(event.message);
+      }
+    },
+  };
+}
+
+/**
+ * Stand-in model for development and protocol tests (EVALUATION_PROVIDER=stub): answers with
+ * the local evaluator's JSON, dribbled out in small chunks with a delay like a real model.
+ */
+export function createStubModelClient({ chunkSize = 24, delayMs = 40, reply }: {
+  chunkSize?: number;
+  delayMs?: number;
+  reply?: (user: string) => string | Promise<string>;
+} = {}): ModelClient {
+  const defaultReply = async (user: string) => {
+    const { text, goals } = JSON.parse(user) as { text: string; goals?: string[] };
+    return JSON.stringify(evaluateLocally(text, await loadDictionary(), goals));
+  };
+  return {
+    name: "stub",
+    async *streamJson({ user }, { signal } = {}) {
+      const json = await (reply ?? defaultReply)(user);
+      for (let i = 0; i < json.length; i += chunkSize) {
+        if (delayMs > 0) await new Promise((r) => setTimeout(r, delayMs));
+        signal?.throwIfAborted();
+        yield json.slice(i, i + chunkSize);
+      }
+    },
+  };
+}
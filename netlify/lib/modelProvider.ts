@@ -0,0 +1,78 @@
+// netlify/lib/modelProvider.ts
+import { EvaluationError, type EvaluationProvider, type EvaluationRequest } from "../../src/evaluation/provider";
+import { applySection, completeResult, type EvalSection, type PartialEvalResult } from "../../src/evaluation/stream";
+import { validateSection } from "../../src/evaluation/validate";
+import { selectPrompt, type EvaluationPrompt } from "./evaluationPrompts";
+import { createSectionParser } from "./jsonSections";
+import type { ModelClient } from "./modelClient";
+
+/**
+ * Evaluates with a language model, streaming each section of the JSON reply as it completes.
+ * The whole reply must arrive within `timeoutMs` (MODEL_TIMEOUT_MS, default 20 s) or the call is aborted.
+ * What the model is told comes from a versioned `prompt` (evaluationPrompts.ts); the result ends with
+ * a version section naming it.
+ */
+export function createModelProvider(
+  model: ModelClient,
+  { timeoutMs = Number(process.env.MODEL_TIMEOUT_MS) || 20_000, prompt = selectPrompt() }: { timeoutMs?: number; prompt?: EvaluationPrompt } = {}
+): EvaluationProvider {
+  async function* stream(req: EvaluationRequest): AsyncGenerator<EvalSection> {
+    const ready: EvalSection[] = [];
+    const seen = new Set<string>();
+    const parser = createSectionParser((key, value) => {
+      if (key === "version") return; // ours to set, not the model's
+      const section = validateSection(key, value, req.text);
+      if (!section) {
+        if (key === "issues" || key === "topTips") throw new EvaluationError("invalid_shape", `'${key}' is not an array.`);
+        return; // unknown extra keys are ignored
+      }
+      seen.add(key);
+      ready.push(section);
+    });
+
+    const deadline = new AbortController();
+    const timer = setTimeout(() => deadline.abort(), timeoutMs);
+    const chunks = model.streamJson(
+      {
+        system: prompt.system(req),
+        user: prompt.user(req),
+        schemaName: "EvalResult",
+        schema: prompt.schema,
+      },
+      { signal: deadline.signal }
+    );
+    try {
+      for await (const chunk of chunks) {
+        try {
+          parser.feed(chunk);
+        } catch (err: unknown) {
+          if (err instanceof EvaluationError) throw err;
+          throw new EvaluationError("malformed_json", "The model did not return valid JSON.");
+        }
+        yield* ready.splice(0);
+      }
+    } catch (err: unknown) {
+      if (deadline.signal.aborted) throw new EvaluationError("timeout", `The model did not finish within ${timeoutMs} ms.`);
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!seen.has("issues") || !seen.has("topTips")) {
+      throw new EvaluationError("invalid_shape", "Expected an object with 'issues' and 'topTips' arrays.");
+    }
+    if (!seen.has("example")) yield { section: "example" };
+    yield { section: "version", version: { evaluator: model.name, prompt: prompt.version, schema: prompt.schemaVersion } };
+  }
+
+  return {
+    name: model.name,
+    version: prompt.version,
+    stream,
+    async evaluate(req) {
+      let partial: PartialEvalResult = {};
+      for await (const s of stream(req)) partial = applySection(partial, s);
+      return completeResult(partial);
+    },
+  };
+}
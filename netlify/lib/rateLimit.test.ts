@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryRateLimitStore } from "./rateLimit";
+
+describe("memory rate limit store", () => {
+  it("counts hits in a window and starts a new one after it ends", async () => {
+    const store = createMemoryRateLimitStore();
+    expect(await store.hit("a", 1000, 0)).toEqual({ count: 1, resetAt: 1000 });
+    expect(await store.hit("a", 1000, 999)).toEqual({ count: 2, resetAt: 1000 });
+    expect(await store.hit("a", 1000, 1000)).toEqual({ count: 1, resetAt: 2000 });
+  });
+
+  it("keeps keys apart", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("a", 1000, 0);
+    expect(await store.hit("b", 1000, 0)).toEqual({ count: 1, resetAt: 1000 });
+  });
+
+  it("hands out copies, not its own counters", async () => {
+    const store = createMemoryRateLimitStore();
+    const first = await store.hit("a", 1000, 0);
+    first.count = 99;
+    expect((await store.hit("a", 1000, 0)).count).toBe(2);
+  });
+
+  it("drops ended windows first when it is full", async () => {
+    const store = createMemoryRateLimitStore({ maxKeys: 2 });
+    await store.hit("old", 100, 0);
+    await store.hit("a", 1000, 0);
+    await store.hit("a", 1000, 0);
+    await store.hit("b", 1000, 500);
+    expect((await store.hit("a", 1000, 500)).count).toBe(3);
+  });
+
+  it("forgets the oldest keys when every window is still running", async () => {
+    const store = createMemoryRateLimitStore({ maxKeys: 2 });
+    await store.hit("a", 1000, 0);
+    await store.hit("b", 1000, 0);
+    await store.hit("c", 1000, 0);
+    expect((await store.hit("a", 1000, 0)).count).toBe(1);
+    expect((await store.hit("c", 1000, 0)).count).toBe(2);
+  });
+});
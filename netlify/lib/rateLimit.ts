@@ -0,0 +1,34 @@
+// netlify/lib/rateLimit.ts
+
+/** Counts hits per key in fixed windows. Swap the in-memory store for a shared one (Blobs, Redis…) to limit across instances. */
+export interface RateLimitStore {
+  /** Records one hit and returns the count so far in the current window. */
+  hit(key: string, windowMs: number, now: number): Promise<{ count: number; resetAt: number }>;
+}
+
+/** Per function instance, so limits are approximate when Netlify runs several instances. */
+export function createMemoryRateLimitStore({ maxKeys = 10_000 } = {}): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  function prune(now: number) {
+    for (const [key, w] of windows) if (w.resetAt <= now) windows.delete(key);
+    // Still full: forget the oldest keys (Map keeps insertion order)
+    for (const key of windows.keys()) {
+      if (windows.size < maxKeys) break;
+      windows.delete(key);
+    }
+  }
+
+  return {
+    async hit(key, windowMs, now) {
+      let w = windows.get(key);
+      if (!w || w.resetAt <= now) {
+        if (windows.size >= maxKeys) prune(now);
+        w = { count: 0, resetAt: now + windowMs };
+        windows.set(key, w);
+      }
+      w.count++;
+      return { ...w };
+    },
+  };
+}
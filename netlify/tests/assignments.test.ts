@@ -0,0 +1,41 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Handler } from "../lib/middleware";
+
+const DRAFT = { title: "My weekend", prompt: "What did you do?", goals: ["feelings"], level: "B1", minSentences: 2 };
+
+let assignments: Handler;
+
+beforeAll(async () => {
+  vi.stubEnv("CLASSROOM_STORE", "memory");
+  vi.stubEnv("RATE_LIMIT_ASSIGNMENTS_PER_HOUR", "3");
+  assignments = (await import("../functions/assignments")).default;
+});
+
+const post = (body: string, ip: string) =>
+  assignments(new Request("http://localhost/api/assignments", { method: "POST", body, headers: { "x-nf-client-connection-ip": ip } }));
+
+describe("/api/assignments", () => {
+  it("creates assignments up to the hourly limit, then refuses", async () => {
+    const statuses = [];
+    for (let i = 0; i < 4; i++) statuses.push((await post(JSON.stringify(DRAFT), "10.0.0.1")).status);
+    expect(statuses).toEqual([201, 201, 201, 429]);
+    expect((await post(JSON.stringify(DRAFT), "10.0.0.2")).status).toBe(201);
+  });
+
+  it("does not limit joining by code", async () => {
+    const { assignment } = await (await post(JSON.stringify(DRAFT), "10.0.0.3")).json();
+    for (let i = 0; i < 10; i++) {
+      const r = await assignments(new Request(`http://localhost/api/assignments?code=${assignment.code}`, { headers: { "x-nf-client-connection-ip": "10.0.0.3" } }));
+      expect(r.status).toBe(200);
+    }
+  });
+
+  it("refuses oversized bodies", async () => {
+    const r = await post(JSON.stringify({ ...DRAFT, prompt: "x".repeat(40_000) }), "10.0.0.4");
+    expect(r.status).toBe(413);
+  });
+
+  it("allows only GET and POST", async () => {
+    expect((await assignments(new Request("http://localhost/api/assignments", { method: "DELETE" }))).status).toBe(405);
+  });
+});
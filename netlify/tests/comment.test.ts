@@ -0,0 +1,21 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Handler } from "../lib/middleware";
+
+let comment: Handler;
+
+beforeAll(async () => {
+  vi.stubEnv("CLASSROOM_STORE", "memory");
+  comment = (await import("../functions/comment")).default;
+});
+
+describe("/api/comment", () => {
+  it("refuses oversized bodies before checking the key", async () => {
+    const body = JSON.stringify({ assignmentId: "a", submissionId: "s", start: 0, end: 1, body: "x".repeat(40_000) });
+    const r = await comment(new Request("http://localhost/api/comment", { method: "POST", body, headers: { Authorization: "Bearer key" } }));
+    expect(r.status).toBe(413);
+  });
+
+  it("allows only POST", async () => {
+    expect((await comment(new Request("http://localhost/api/comment"))).status).toBe(405);
+  });
+});
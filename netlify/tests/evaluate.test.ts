@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Handler } from "../lib/middleware";
+
+vi.mock("../lib/modelClient", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../lib/modelClient")>();
+  return {
+    ...original,
+    createStubModelClient: () => original.createStubModelClient({ delayMs: 0, reply: () => JSON.stringify({ issues: [], topTips: [] }) }),
+  };
+});
+
+let evaluate: Handler;
+
+beforeAll(async () => {
+  vi.stubEnv("EVALUATION_PROVIDER", "stub");
+  vi.stubEnv("EVALUATION_CACHE", "memory");
+  vi.stubEnv("RATE_LIMIT_PER_MINUTE", "2");
+  evaluate = (await import("../functions/evaluate")).default;
+});
+
+const post = (text: string, ip: string, locale = "en") =>
+  evaluate(
+    new Request("http://localhost/api/evaluate", {
+      method: "POST",
+      body: JSON.stringify({ text, minSentences: 1, locale }),
+      headers: { "x-nf-client-connection-ip": ip },
+    })
+  );
+
+describe("/api/evaluate", () => {
+  it("limits calls that reach the model", async () => {
+    const statuses = [];
+    for (const text of ["I go home.", "I went home.", "I will go home."]) statuses.push((await post(text, "10.0.0.1")).status);
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it("does not charge repeats answered from the cache", async () => {
+    const statuses = [];
+    for (let i = 0; i < 5; i++) statuses.push((await post("I stayed home.", "10.0.0.2")).status);
+    expect(statuses).toEqual([200, 200, 200, 200, 200]);
+    expect((await post("I stayed at home.", "10.0.0.2")).status).toBe(200);
+    expect((await post("I stayed at my home.", "10.0.0.2")).status).toBe(429);
+  });
+
+  it("accepts every interface language and refuses others", async () => {
+    expect((await post("Fui a casa.", "10.0.0.4", "es")).status).toBe(200);
+    const refused = await post("Je suis rentré.", "10.0.0.4", "fr");
+    expect(refused.status).toBe(400);
+    expect(await refused.json()).toMatchObject({ code: "unsupported_locale" });
+  });
+
+  it("refuses oversized bodies", async () => {
+    expect((await post("x".repeat(40_000), "10.0.0.3")).status).toBe(413);
+  });
+});
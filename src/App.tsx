@@ -1,4 +1,53 @@
 import React, { useMemo, useState } from "react";
+import { submitReflection } from "./classroom/api";
+import { useClassroom } from "./classroom/useClassroom";
+import ClassroomPanel from "./components/ClassroomPanel";
+import FixSessionPanel from "./components/FixSessionPanel";
+import GoalChecklist from "./components/GoalChecklist";
+import HighlightLegend from "./components/HighlightLegend";
+import HistoryPanel from "./components/HistoryPanel";
+import JournalTransfer from "./components/JournalTransfer";
+import OriginalPreview from "./components/OriginalPreview";
+import ProfileSettings from "./components/ProfileSettings";
+import ProgressDashboard from "./components/ProgressDashboard";
+import PromptPicker from "./components/PromptPicker";
+import RevisionHistory from "./components/RevisionHistory";
+import VocabularyReview from "./components/VocabularyReview";
+import { createLocalProvider } from "./evaluation/localEvaluator";
+import { checkTextLimits } from "./evaluation/limits";
+import {
+  EvaluationError,
+  withFallback,
+  type EvaluationProvider,
+  type EvaluationRequest,
+} from "./evaluation/provider";
+import { createRemoteProvider } from "./evaluation/remoteProvider";
+import { applySection, completeResult, streamEvaluation, type PartialEvalResult } from "./evaluation/stream";
+import {
+  applyFix,
+  checkFix,
+  currentItem,
+  remainingIssues,
+  resolvedIssues,
+  skipCurrent,
+  startFixSession,
+  type FixSession,
+} from "./fix/session";
+import { UI_LOCALES, type UiLocale } from "./i18n/locales";
+import type { Messages } from "./i18n/messages";
+import { useLocale } from "./i18n/useLocale";
+import { addDraft, createEntry, type JournalEntry } from "./journal/repository";
+import { useJournal } from "./journal/useJournal";
+import { isNetworkFailure, type QueuedEvaluation } from "./offline/queue";
+import { loadSavedDraft, useDraftAutosave } from "./offline/useDraftAutosave";
+import { useOfflineQueue } from "./offline/useOfflineQueue";
+import type { LearnerProfile } from "./profile/profile";
+import { useProfile } from "./profile/useProfile";
+import { usePrompt } from "./prompts/usePrompt";
+import { countSentences } from "./text/tokenizer";
+import type { EvalResult, ExamplePair, IssueType, Tip } from "./types";
+import { dueItems, troubleWords } from "./vocabulary/bank";
+import { useVocabulary } from "./vocabulary/useVocabulary";
 
 /**
  * Daily Reflection – Minimal React UI that matches the described flow:
@@ -7,64 +56,217 @@ import React, { useMemo, useState } from "react";
  * Tailwind-first styling via classNames. To preview nicely here (without your Vite/Tailwind build),
  * we also include a tiny inline <style> fallback that approximates the dark-pink teen theme.
  *
- * Wire the submit handler to your serverless endpoint at /api/evaluate (examples provided in chat).
+ * Submissions go to the serverless endpoint at /api/evaluate; when it is unreachable (or when
+ * VITE_EVALUATION_PROVIDER=local) the offline rule-based evaluator answers instead.
+ * Feedback streams in section by section (issues, then tips, then the example) and each card fills as it arrives;
+ * screen readers hear when it starts and a summary when it is done. Highlights are keyboard-reachable buttons.
+ * The goal checklist under the box shows which of the learner's goals the feedback found covered.
+ * The prompt above the box rotates daily by CEFR level (src/prompts); a learner can instead ask for a
+ * follow-up on what they said they would do next. The prompt goes to the evaluator with the text.
+ * Every submitted reflection is saved to the on-device journal (IndexedDB) with its feedback; submitting
+ * again while a reflection is open adds a draft to it, and the revisions card compares the drafts.
+ * The journal can be downloaded as Markdown, a printable page or a JSON backup (src/export), and backups imported again.
+ * Misspelled and corrected words from the feedback go to a vocabulary bank with spaced review cards, and
+ * the words that keep coming back are sent with the next evaluation.
+ * Interface text comes from the catalogs in src/i18n, picked with the language switcher in the header.
+ * The write box is autosaved on the device. Without a connection the offline rules answer at once and the
+ * request is queued (src/offline); when the network is back it goes to /api/evaluate and the full
+ * feedback replaces the offline one in the journal.
+ * In class mode the reflection goes to /api/submit instead, which evaluates it with the assignment's
+ * prompt, goals and level and keeps it for the teacher.
  */
 
+const offline = createLocalProvider();
+const evaluator: EvaluationProvider = import.meta.env.VITE_EVALUATION_PROVIDER === "local" ? offline : createRemoteProvider();
+const sendQueued = (req: EvaluationRequest) => evaluator.evaluate(req);
+
+// Refusals (limits, rate limiting) never fall back to offline feedback; the catalog has a message for each code
+function friendlyError(t: Messages, err: unknown, fallback: string): string {
+  return err instanceof EvaluationError ? t.errors[err.code] : fallback;
+}
+
+function describeResult(t: Messages, result: EvalResult): string {
+  const counts = new Map<IssueType, number>();
+  for (const it of result.issues) counts.set(it.type, (counts.get(it.type) ?? 0) + 1);
+  return t.resultReady([...counts].map(([type, count]) => ({ type, count })), result.topTips.length);
+}
+
+function evaluationRequest(
+  text: string,
+  learner: LearnerProfile,
+  locale: UiLocale,
+  context: Pick<EvaluationRequest, "prompt" | "troubleWords"> = {}
+): EvaluationRequest {
+  return { ...learner, text, locale, ...context };
+}
+
 export default function App() {
-  const [text, setText] = useState("");
+  const [restored] = useState(loadSavedDraft);
+  const [text, setText] = useState(restored.text);
   const [submitting, setSubmitting] = useState(false);
   const [mode, setMode] = useState<"overview" | "focus">("overview");
-  const [result, setResult] = useState<EvalResult | null>(null);
+  const [result, setResult] = useState<PartialEvalResult | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const minSentences = 3;
-
-  // naive sentence count: split on punctuation; you can replace with a proper sentence tokenizer later
-  const sentenceCount = useMemo(() => {
-    const s = text
-      .replace(/\s+/g, " ")
-      .trim()
-      .split(/[.!?]+\s+/)
-      .filter(Boolean);
-    return s.length === 1 && s[0] === "" ? 0 : s.length;
-  }, [text]);
+  const [activeEntryId, setActiveEntryId] = useState<string | null>(restored.entryId);
+  const [fix, setFix] = useState<FixSession | null>(null);
+  const [panel, setPanel] = useState<"settings" | "progress" | "class" | "review" | null>(null);
+  const [spotlight, setSpotlight] = useState<{ start: number; end: number } | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const journal = useJournal();
+  const { profile, save: saveProfile } = useProfile();
+  const classroom = useClassroom();
+  const vocabulary = useVocabulary();
+  const { locale, setLocale, t } = useLocale();
+  const outbox = useOfflineQueue(sendQueued, (item, result) => void fillInLater(item, result));
+  const assignment = classroom.enrollment?.assignment;
+  // An assignment's goals, level and minimum replace the learner's own while they are enrolled
+  const learner = useMemo<LearnerProfile>(
+    () => (assignment ? { ...profile, goals: assignment.goals, level: assignment.level, minSentences: assignment.minSentences } : profile),
+    [profile, assignment]
+  );
+  const { minSentences } = learner;
+  const daily = usePrompt(profile, journal.entries);
+  // The question being answered: the assignment's in class mode, otherwise today's
+  const prompt = assignment ? assignment.prompt : daily.prompt.text;
+  const evaluationContext = useMemo(() => ({ prompt, troubleWords: troubleWords(vocabulary.items) }), [prompt, vocabulary.items]);
+
+  const sentenceCount = useMemo(() => countSentences(text), [text]);
+  const overLimit = useMemo(() => checkTextLimits(text), [text]);
+  const activeEntry = journal.entries.find((e) => e.id === activeEntryId);
+  const dueCount = dueItems(vocabulary.items).length;
+  useDraftAutosave(text, activeEntryId);
 
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
     setSubmitting(true);
     setResult(null);
+    setFix(null);
+    setAnnouncement(t.checkingAnnouncement);
+    if (classroom.enrollment) {
+      await submitToClass(classroom.enrollment.assignment.code, classroom.enrollment.studentName);
+      return;
+    }
+    // No server (offline classroom, local preview): the rule-based evaluator still gives real feedback.
+    // No network at all: the request is also queued, so the full feedback can follow later.
+    let queue = false;
+    const provider = withFallback(evaluator, offline, (err) => {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn("Falling back to offline evaluator:", message);
+      queue = isNetworkFailure(err);
+      setError(queue ? t.offlineQueued : t.offlineFallback);
+    });
+    const request = evaluationRequest(text, learner, locale, evaluationContext);
     try {
-      const r = await fetch("/api/evaluate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text,
-          locale: "en",
-          goals: ["tell day", "feelings", "next action"],
-          level: "simple_ENGLISH_B1", // default target reading level
-        }),
+      let partial: PartialEvalResult = {};
+      for await (const section of streamEvaluation(provider, request)) {
+        partial = applySection(partial, section);
+        setResult(partial);
+      }
+      const final = completeResult(partial);
+      const entry = keepInJournal(final);
+      if (queue) void outbox.enqueue({ entryId: entry.id, draftCreatedAt: entry.drafts[entry.drafts.length - 1].createdAt, request });
+      setAnnouncement(describeResult(t, final));
+    } catch (err: unknown) {
+      console.error(err);
+      setAnnouncement("");
+      setError(friendlyError(t, err, t.feedbackFailed));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  // No offline fallback here: the teacher needs to receive the reflection, so failures are shown instead
+  async function submitToClass(code: string, studentName: string) {
+    try {
+      const { submission, studentKey } = await submitReflection({
+        code,
+        studentName,
+        text,
+        locale,
+        nativeLanguage: profile.nativeLanguage,
+        explainInNativeLanguage: profile.explainInNativeLanguage,
       });
-      if (!r.ok) throw new Error(`Server error ${r.status}`);
-      const data = (await r.json()) as EvalResult;
-      setResult(data);
+      classroom.addHandIn({ assignmentId: submission.assignmentId, submissionId: submission.id, studentKey, submittedAt: submission.submittedAt });
+      setResult(submission.result);
+      setAnnouncement(t.handedIn(describeResult(t, submission.result)));
+      keepInJournal(submission.result);
     } catch (err: unknown) {
-      // For local preview without a backend, fall back to a tiny mock so you can see the UI.
-      const message = err instanceof Error ? err.message : String(err);
-      console.warn("Falling back to mock evaluate:", message);
-      setResult(mockEvaluate(text));
-      setError(
-        "Using demo feedback because the server endpoint is not available. Wire /api/evaluate to OpenAI when you deploy."
-      );
+      console.error(err);
+      setAnnouncement("");
+      const reason = err instanceof Error ? err.message : String(err);
+      setError(friendlyError(t, err, t.handInFailed(reason)));
     } finally {
       setSubmitting(false);
     }
   }
 
+  function keepInJournal(data: EvalResult): JournalEntry {
+    const entry = activeEntry ? addDraft(activeEntry, text, data) : createEntry(text, data);
+    setActiveEntryId(entry.id);
+    void journal.save(entry);
+    void vocabulary.learn(entry.id, text, data);
+    return entry;
+  }
+
+  // A queued reflection was checked online: its offline feedback is replaced in the journal, and on
+  // screen too if the learner is still looking at that draft, unchanged
+  async function fillInLater(item: QueuedEvaluation, data: EvalResult) {
+    const entry = await journal.fillIn(item.entryId, item.draftCreatedAt, data);
+    const draft = entry?.drafts.find((d) => d.createdAt === item.draftCreatedAt);
+    if (!entry || !draft) return;
+    void vocabulary.learn(entry.id, draft.text, data);
+    if (entry.id === activeEntryId && entry.result === data && draft.text === text && !fix && !submitting) {
+      setResult(data);
+      setError(null);
+    }
+    setAnnouncement(t.deliveredLater);
+  }
+
+  function openEntry(entry: JournalEntry) {
+    setFix(null);
+    setText(entry.text);
+    setResult(entry.result);
+    setActiveEntryId(entry.id);
+    setError(null);
+  }
+
+  function startNewReflection() {
+    setFix(null);
+    setText("");
+    setResult(null);
+    setActiveEntryId(null);
+    setError(null);
+  }
+
+  function deleteEntry(entry: JournalEntry) {
+    if (!window.confirm(t.confirmDelete)) return;
+    if (entry.id === activeEntryId) setActiveEntryId(null);
+    void journal.remove(entry.id);
+  }
+
+  // "Fix this with me": re-check one rewritten sentence, with the same offline fallback as Submit
+  async function checkCurrentFix(replacement: string) {
+    if (!fix) return false;
+    // The snippet is a sentence or two, so the minimum length does not apply
+    const recheck = (snippet: string) =>
+      withFallback(evaluator, offline).evaluate(evaluationRequest(snippet, { ...learner, minSentences: 1 }, locale, evaluationContext));
+    const ok = await checkFix(fix, replacement, recheck);
+    if (ok) setFix(applyFix(fix, replacement));
+    return ok;
+  }
+
+  function finishFix() {
+    if (!fix) return;
+    setText(fix.text);
+    setResult((r) => (r ? { ...r, issues: remainingIssues(fix) } : r));
+    setFix(null);
+  }
+
   return (
     <div className="min-h-screen w-full bg-pink-50/40 dark:bg-neutral-950 text-neutral-900 dark:text-neutral-100 flex flex-col items-center">
       {/* Inline fallback styles so the preview looks close even without Tailwind build */}
       <style>{`
-        @import url('https://fonts.googleapis.com/css2?family=Baloo+2:wght@400;600;800&family=Nunito:wght@400;600;800&display=swap');
         :root { color-scheme: light dark; }
         .brand-gradient { background: linear-gradient(135deg,#ec4899 0%,#a21caf 100%); }
         .card { backdrop-filter: blur(8px); }
@@ -73,92 +275,220 @@ export default function App() {
       <header className="w-full brand-gradient text-white">
         <div className="mx-auto max-w-4xl px-4 py-5 flex items-center justify-between">
           <h1 className="font-bold text-2xl" style={{ fontFamily: "Baloo 2, system-ui" }}>
-            Daily Reflection
+            {t.appTitle}
           </h1>
           <div className="flex items-center gap-2 text-sm">
-            <span className="opacity-90 hidden sm:inline">Write • See • Fix</span>
-            <ModeToggle mode={mode} setMode={setMode} />
+            <span className="opacity-90 hidden sm:inline">{t.tagline}</span>
+            <ModeToggle t={t} mode={mode} setMode={setMode} />
+            <PanelButton label={t.classPanel} open={panel === "class"} onClick={() => setPanel(panel === "class" ? null : "class")} />
+            <PanelButton
+              label={t.reviewPanel(dueCount)}
+              open={panel === "review"}
+              onClick={() => setPanel(panel === "review" ? null : "review")}
+            />
+            <PanelButton label={t.progressPanel} open={panel === "progress"} onClick={() => setPanel(panel === "progress" ? null : "progress")} />
+            <PanelButton label={t.settingsPanel} open={panel === "settings"} onClick={() => setPanel(panel === "settings" ? null : "settings")} />
+            <LocaleSelect label={t.language} locale={locale} onChange={setLocale} />
           </div>
         </div>
       </header>
 
+      <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
+
       <main className="mx-auto w-full max-w-4xl px-4 py-6 grid md:grid-cols-2 gap-6">
+        {panel === "settings" && (
+          <section className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm md:col-span-2">
+            <div className="p-4 sm:p-6">
+              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{t.profileHeading}</h2>
+              <ProfileSettings t={t} profile={profile} onSave={saveProfile} onClose={() => setPanel(null)} />
+            </div>
+          </section>
+        )}
+
+        {panel === "class" && (
+          <section className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm md:col-span-2">
+            <div className="p-4 sm:p-6">
+              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{t.classHeading}</h2>
+              <ClassroomPanel
+                t={t}
+                locale={locale}
+                enrollment={classroom.enrollment}
+                onJoin={classroom.join}
+                handedIn={classroom.handedIn}
+                teaching={classroom.teaching}
+                onCreated={classroom.addTaught}
+              />
+            </div>
+          </section>
+        )}
+
+        {panel === "review" && (
+          <section className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm md:col-span-2">
+            <div className="p-4 sm:p-6">
+              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{t.reviewHeading}</h2>
+              <VocabularyReview t={t} locale={locale} items={vocabulary.items} onGrade={(item, g) => void vocabulary.grade(item, g)} />
+            </div>
+          </section>
+        )}
+
+        {panel === "progress" && (
+          <section className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm md:col-span-2">
+            <div className="p-4 sm:p-6">
+              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{t.progressHeading}</h2>
+              <ProgressDashboard t={t} locale={locale} entries={journal.entries} />
+            </div>
+          </section>
+        )}
+
         {/* LEFT: Write box */}
-        <section className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm">
-          <form onSubmit={onSubmit} className="p-4 sm:p-6 flex flex-col gap-4">
-            <label htmlFor="entry" className="text-sm font-semibold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Nunito, system-ui" }}>
-              Tell me about your day, how it felt, and what you’ll do next.
-            </label>
-            <textarea
-              id="entry"
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              placeholder="Write at least 3–4 sentences. Keep it honest and clear."
-              className="min-h-[220px] resize-vertical rounded-xl border border-pink-300/70 dark:border-pink-800/60 bg-white dark:bg-neutral-900 px-4 py-3 outline-none focus:ring-4 focus:ring-pink-300/40 text-base leading-7"
-              style={{ fontFamily: "Nunito, system-ui" }}
-              aria-describedby="entry-help"
-            />
-            <div id="entry-help" className="flex items-center justify-between text-xs sm:text-sm">
-              <div className="flex items-center gap-2">
-                <Meter value={Math.min(100, Math.round((sentenceCount / minSentences) * 100))} />
-                <span>
-                  {sentenceCount} sentence{sentenceCount === 1 ? "" : "s"} • minimum {minSentences}
-                </span>
+        <div className="flex flex-col gap-6">
+          <section className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm">
+            <form onSubmit={onSubmit} className="p-4 sm:p-6 flex flex-col gap-4">
+              {assignment && (
+                <p className="text-xs rounded-xl bg-pink-50/70 dark:bg-neutral-800/70 border border-pink-200/70 dark:border-pink-800/50 px-3 py-2" style={{ fontFamily: "Nunito, system-ui" }}>
+                  {t.classAssignment} <strong>{assignment.title}</strong>. {t.teacherWillSee}
+                </p>
+              )}
+              {activeEntry && (
+                <p className="flex items-center justify-between gap-2 text-xs opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>
+                  <span>
+                    {t.revising(activeEntry.drafts.length + 1)}
+                  </span>
+                  <button type="button" onClick={startNewReflection} className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 font-semibold px-3 py-1">
+                    {t.newReflection}
+                  </button>
+                </p>
+              )}
+              <label htmlFor="entry" className="text-sm font-semibold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Nunito, system-ui" }}>
+                {prompt}
+              </label>
+              {!assignment && (
+                <PromptPicker
+                  t={t}
+                  prompt={daily.prompt}
+                  canFollowUp={daily.canFollowUp}
+                  loadingFollowUp={daily.loadingFollowUp}
+                  onAnother={daily.another}
+                  onFollowUp={() => void daily.askFollowUp()}
+                  onBackToDaily={daily.backToDaily}
+                />
+              )}
+              <textarea
+                id="entry"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                readOnly={fix !== null}
+                placeholder={t.placeholder(minSentences)}
+                className="min-h-[220px] resize-vertical rounded-xl border border-pink-300/70 dark:border-pink-800/60 bg-white dark:bg-neutral-900 px-4 py-3 outline-none focus:ring-4 focus:ring-pink-300/40 text-base leading-7"
+                style={{ fontFamily: "Nunito, system-ui" }}
+                aria-describedby="entry-help"
+              />
+              <div id="entry-help" className="flex items-center justify-between text-xs sm:text-sm">
+                <div className="flex items-center gap-2">
+                  <Meter value={Math.min(100, Math.round((sentenceCount / minSentences) * 100))} />
+                  <span>{t.sentenceMeter(sentenceCount, minSentences)}</span>
+                </div>
+                <button
+                  type="submit"
+                  disabled={submitting || sentenceCount < minSentences || overLimit !== null}
+                  className="inline-flex items-center justify-center rounded-xl bg-pink-600 hover:bg-pink-700 disabled:bg-pink-400 text-white px-4 py-2 font-semibold shadow-sm focus:outline-none focus:ring-4 focus:ring-pink-300/40"
+                >
+                  {submitting ? t.checking : t.submit}
+                </button>
               </div>
-              <button
-                type="submit"
-                disabled={submitting || sentenceCount < minSentences}
-                className="inline-flex items-center justify-center rounded-xl bg-pink-600 hover:bg-pink-700 disabled:bg-pink-400 text-white px-4 py-2 font-semibold shadow-sm focus:outline-none focus:ring-4 focus:ring-pink-300/40"
-              >
-                {submitting ? "Checking…" : "Submit"}
-              </button>
+              {overLimit && (
+                <p role="status" className="text-xs sm:text-sm text-yellow-900 bg-yellow-100/80 border border-yellow-300 rounded-xl px-3 py-2">
+                  {t.errors[overLimit]}
+                </p>
+              )}
+              <GoalChecklist t={t} goals={learner.goals} coverage={result?.goals} onSpotlight={setSpotlight} />
+            </form>
+          </section>
+
+          {/* LEFT (below): Journal history */}
+          <section className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm">
+            <div className="p-4 sm:p-6">
+              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{t.journalHeading}</h2>
+              {journal.error && (
+                <p className="mt-2 text-xs sm:text-sm text-yellow-900 bg-yellow-100/80 border border-yellow-300 rounded-xl px-3 py-2">{t.journalErrors[journal.error]}</p>
+              )}
+              {outbox.pending.length > 0 && (
+                <p className="mt-2 text-xs sm:text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>{t.waitingToSend(outbox.pending.length)}</p>
+              )}
+              <HistoryPanel t={t} locale={locale} entries={journal.entries} activeId={activeEntryId} onOpen={openEntry} onDelete={deleteEntry} />
+              <JournalTransfer t={t} locale={locale} entries={journal.entries} active={activeEntry} onImport={journal.importEntries} />
             </div>
-          </form>
-        </section>
+          </section>
+        </div>
 
         {/* RIGHT: Feedback */}
         <section className="flex flex-col gap-4">
           <div className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm">
             <div className="p-4 sm:p-6">
-              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>Your original</h2>
-              <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>We always show your words first, unchanged.</p>
-              <OriginalPreview text={text} issues={result?.issues ?? []} />
+              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{t.originalHeading}</h2>
+              <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>{t.originalNote}</p>
+              {fix ? (
+                <OriginalPreview t={t} text={fix.text} issues={remainingIssues(fix)} fixed={resolvedIssues(fix)} focus={currentItem(fix)?.issue} />
+              ) : (
+                <OriginalPreview t={t} text={text} issues={result?.issues ?? []} spotlight={spotlight} />
+              )}
+              {(fix || (result?.issues?.length ?? 0) > 0) && <HighlightLegend t={t} showFixed={fix !== null} />}
             </div>
           </div>
 
+          {activeEntry && activeEntry.drafts.length > 1 && !fix && (
+            <div className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm">
+              <div className="p-4 sm:p-6">
+                <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{t.revisionsHeading}</h2>
+                <RevisionHistory t={t} key={`${activeEntry.id}:${activeEntry.drafts.length}`} drafts={activeEntry.drafts} />
+              </div>
+            </div>
+          )}
+
           <div className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm">
             <div className="p-4 sm:p-6">
-              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>Today’s fixes</h2>
-              {result ? (
+              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{fix ? t.fixWithMe : t.fixesHeading}</h2>
+              {fix ? (
+                <FixSessionPanel t={t} session={fix} onCheck={checkCurrentFix} onSkip={() => setFix(skipCurrent(fix))} onFinish={finishFix} />
+              ) : result?.topTips ? (
                 <div className="mt-3 flex flex-col gap-3">
                   {result.topTips.length === 0 ? (
-                    <p className="text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>No major fixes today. Nice work! Try polishing your style with a stronger feeling word.</p>
+                    <p className="text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>{t.noMajorFixes}</p>
                   ) : (
                     result.topTips.map((tip, i) => (
-                      <TipCard key={i} tip={tip} mode={mode} />
+                      <TipCard
+                        key={i}
+                        t={t}
+                        tip={tip}
+                        mode={mode}
+                        onFix={result.issues?.length ? () => setFix(startFixSession(text, result.issues ?? [])) : undefined}
+                      />
                     ))
                   )}
                 </div>
+              ) : submitting ? (
+                <p className="mt-2 text-sm opacity-80 animate-pulse" style={{ fontFamily: "Nunito, system-ui" }}>{t.pickingFixes}</p>
               ) : (
-                <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>Submit to see clear, compact feedback you can act on in under two minutes.</p>
+                <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>{t.fixesEmpty}</p>
               )}
             </div>
           </div>
 
           <div className="card rounded-2xl border border-pink-200/60 dark:border-pink-900/40 bg-white/80 dark:bg-neutral-900/50 shadow-sm">
             <div className="p-4 sm:p-6">
-              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>One example</h2>
+              <h2 className="text-lg font-bold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{t.exampleHeading}</h2>
               {result?.example ? (
-                <ExampleCompare example={result.example} />
+                <ExampleCompare t={t} example={result.example} />
+              ) : submitting ? (
+                <p className="mt-2 text-sm opacity-80 animate-pulse" style={{ fontFamily: "Nunito, system-ui" }}>{t.rewriting}</p>
               ) : (
-                <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>We’ll show one corrected version of your own sentence with the changes bolded.
-                </p>
+                <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>{t.exampleEmpty}</p>
               )}
             </div>
           </div>
 
           {error && (
-            <div className="text-xs sm:text-sm text-yellow-900 bg-yellow-100/80 border border-yellow-300 rounded-xl px-3 py-2">
+            <div role="alert" className="text-xs sm:text-sm text-yellow-900 bg-yellow-100/80 border border-yellow-300 rounded-xl px-3 py-2">
               {error}
             </div>
           )}
@@ -166,7 +496,7 @@ export default function App() {
       </main>
 
       <footer className="w-full py-6 text-center text-xs opacity-70" style={{ fontFamily: "Nunito, system-ui" }}>
-        Gentle loop: write • see • fix
+        {t.footer}
       </footer>
     </div>
   );
@@ -174,7 +504,7 @@ export default function App() {
 
 // ---------- Components ----------
 
-function ModeToggle({ mode, setMode }: { mode: "overview" | "focus"; setMode: (m: "overview" | "focus") => void }) {
+function ModeToggle({ t, mode, setMode }: { t: Messages; mode: "overview" | "focus"; setMode: (m: "overview" | "focus") => void }) {
   return (
     <div className="flex items-center gap-1 bg-white/15 rounded-xl p-1 border border-white/20">
       {(["overview", "focus"] as const).map((m) => (
@@ -186,48 +516,50 @@ function ModeToggle({ mode, setMode }: { mode: "overview" | "focus"; setMode: (m
           onClick={() => setMode(m)}
           aria-pressed={mode === m}
         >
-          {m === "overview" ? "Overview" : "Focus"}
+          {m === "overview" ? t.overview : t.focus}
         </button>
       ))}
     </div>
   );
 }
 
-function Meter({ value }: { value: number }) {
+function PanelButton({ label, open, onClick }: { label: string; open: boolean; onClick: () => void }) {
   return (
-    <div className="h-2 w-24 bg-pink-200/70 dark:bg-pink-900/40 rounded-full overflow-hidden" aria-hidden>
-      <div className="h-full bg-pink-600" style={{ width: `${value}%` }} />
-    </div>
+    <button
+      type="button"
+      onClick={onClick}
+      aria-expanded={open}
+      className={`px-3 py-1.5 rounded-lg text-sm font-semibold border border-white/20 ${open ? "bg-white/90 text-pink-700" : "bg-white/15 hover:bg-white/25"}`}
+    >
+      {label}
+    </button>
   );
 }
 
-function OriginalPreview({ text, issues }: { text: string; issues: Issue[] }) {
-  if (!text) {
-    return (
-      <p className="mt-3 text-base leading-7 bg-white/70 dark:bg-neutral-900/40 border border-pink-200/60 dark:border-pink-900/40 rounded-xl p-3">
-        Your writing shows here after you submit.
-      </p>
-    );
-  }
-
-  // Build highlighted segments from issues
-  const segments = buildSegments(text, issues);
+function LocaleSelect({ label, locale, onChange }: { label: string; locale: UiLocale; onChange: (l: UiLocale) => void }) {
+  return (
+    <select
+      value={locale}
+      onChange={(e) => onChange(e.target.value as UiLocale)}
+      aria-label={label}
+      className="rounded-lg text-sm font-semibold border border-white/20 bg-white/15 hover:bg-white/25 px-2 py-1.5 [&>option]:text-neutral-900"
+    >
+      {Object.entries(UI_LOCALES).map(([code, name]) => (
+        <option key={code} value={code} lang={code}>{name}</option>
+      ))}
+    </select>
+  );
+}
 
+function Meter({ value }: { value: number }) {
   return (
-    <div className="mt-3 text-base leading-7 bg-white/70 dark:bg-neutral-900/40 border border-pink-200/60 dark:border-pink-900/40 rounded-xl p-3 whitespace-pre-wrap">
-      {segments.map((seg, i) => {
-        const cls = seg.type === "plain" ? "" : seg.type === "spell" ? "bg-yellow-200/80 dark:bg-yellow-700/40" : seg.type === "grammar" ? "bg-blue-200/70 dark:bg-blue-800/40" : seg.type === "clarity" ? "bg-purple-200/70 dark:bg-purple-800/40" : "bg-red-200/70 dark:bg-red-800/40";
-        return (
-          <span key={i} className={`rounded-sm px-0.5 ${cls}`} title={seg.tip || undefined}>
-            {seg.text}
-          </span>
-        );
-      })}
+    <div className="h-2 w-24 bg-pink-200/70 dark:bg-pink-900/40 rounded-full overflow-hidden" aria-hidden>
+      <div className="h-full bg-pink-600" style={{ width: `${value}%` }} />
     </div>
   );
 }
 
-function TipCard({ tip, mode }: { tip: Tip; mode: "overview" | "focus" }) {
+function TipCard({ t, tip, mode, onFix }: { t: Messages; tip: Tip; mode: "overview" | "focus"; onFix?: () => void }) {
   return (
     <div className="rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3">
       <div className="flex items-start gap-3">
@@ -238,7 +570,7 @@ function TipCard({ tip, mode }: { tip: Tip; mode: "overview" | "focus" }) {
           <div className="mt-2 grid gap-2">
             {tip.examples.map((ex, i) => (
               <div key={i} className="rounded-lg bg-pink-50/70 dark:bg-neutral-800/70 border border-pink-200/70 dark:border-pink-800/50 p-2">
-                <p className="text-xs opacity-70" style={{ fontFamily: "Nunito, system-ui" }}>Try it like this</p>
+                <p className="text-xs opacity-70" style={{ fontFamily: "Nunito, system-ui" }}>{t.tryItLikeThis}</p>
                 <p className="text-sm mt-1" style={{ fontFamily: "Nunito, system-ui" }}>
                   <em className="not-italic">{ex.before}</em>
                   <span className="mx-1 opacity-50">→</span>
@@ -247,9 +579,9 @@ function TipCard({ tip, mode }: { tip: Tip; mode: "overview" | "focus" }) {
               </div>
             ))}
           </div>
-          {mode === "focus" && (
-            <button className="mt-3 inline-flex items-center gap-2 rounded-lg bg-pink-600 hover:bg-pink-700 text-white text-xs font-semibold px-3 py-1.5">
-              Fix this with me
+          {mode === "focus" && onFix && (
+            <button type="button" onClick={onFix} className="mt-3 inline-flex items-center gap-2 rounded-lg bg-pink-600 hover:bg-pink-700 text-white text-xs font-semibold px-3 py-1.5">
+              {t.fixWithMe}
             </button>
           )}
         </div>
@@ -258,15 +590,15 @@ function TipCard({ tip, mode }: { tip: Tip; mode: "overview" | "focus" }) {
   );
 }
 
-function ExampleCompare({ example }: { example: ExamplePair }) {
+function ExampleCompare({ t, example }: { t: Messages; example: ExamplePair }) {
   return (
     <div className="mt-3 grid gap-2">
       <div className="rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3">
-        <p className="text-xs opacity-70" style={{ fontFamily: "Nunito, system-ui" }}>Yours</p>
+        <p className="text-xs opacity-70" style={{ fontFamily: "Nunito, system-ui" }}>{t.yours}</p>
         <p className="text-sm mt-1 whitespace-pre-wrap" style={{ fontFamily: "Nunito, system-ui" }}>{example.before}</p>
       </div>
       <div className="rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3">
-        <p className="text-xs opacity-70" style={{ fontFamily: "Nunito, system-ui" }}>Clearer</p>
+        <p className="text-xs opacity-70" style={{ fontFamily: "Nunito, system-ui" }}>{t.clearer}</p>
         <p className="text-sm mt-1 whitespace-pre-wrap" style={{ fontFamily: "Nunito, system-ui" }}>
           {example.afterParts.map((part, i) => (
             <span key={i} className={part.bold ? "font-extrabold" : undefined}>{part.text}</span>
@@ -276,102 +608,3 @@ function ExampleCompare({ example }: { example: ExamplePair }) {
     </div>
   );
 }
-
-// ---------- Types & helpers ----------
-
-type IssueType = "spell" | "grammar" | "clarity" | "structure";
-
-type Issue = {
-  type: IssueType;
-  start: number; // inclusive index into original text
-  end: number;   // exclusive
-  tip?: string;  // short one-liner for tooltip
-};
-
-type Tip = {
-  title: string; // What’s the issue (plain language)
-  why: string;   // Why it matters (one sentence)
-  examples: { before: string; after: string }[]; // Try it like this
-};
-
-type ExamplePair = {
-  before: string;
-  afterParts: { text: string; bold?: boolean }[]; // parts with bolded changes
-};
-
-type EvalResult = {
-  issues: Issue[];
-  topTips: Tip[];
-  example?: ExamplePair;
-};
-
-function buildSegments(text: string, issues: Issue[]) {
-  const markers = new Array<{ idx: number; issue?: Issue; open?: boolean }>();
-  for (const it of issues) {
-    markers.push({ idx: it.start, issue: it, open: true });
-    markers.push({ idx: it.end, issue: it, open: false });
-  }
-  markers.sort((a, b) => a.idx - b.idx || Number(b.open) - Number(a.open));
-
-  const segs: { text: string; type: "plain" | IssueType; tip?: string }[] = [];
-  let cursor = 0;
-  let stack: Issue[] = [];
-  for (const m of markers) {
-    if (m.idx > cursor) {
-      // push the plain or current-issue segment
-      const active = stack[stack.length - 1];
-      const type = active ? active.type : "plain";
-      const tip = active?.tip;
-      segs.push({ text: text.slice(cursor, m.idx), type, tip });
-      cursor = m.idx;
-    }
-    if (m.open) stack.push(m.issue!);
-    else stack = stack.filter((x) => x !== m.issue);
-  }
-  if (cursor < text.length) {
-    const active = stack[stack.length - 1];
-    const type = active ? active.type : "plain";
-    const tip = active?.tip;
-    segs.push({ text: text.slice(cursor), type, tip });
-  }
-  return segs;
-}
-
-function mockEvaluate(text: string): EvalResult {
-  // A tiny, obviously fake evaluation so you can see the UI before wiring a backend.
-  const firstPeriod = Math.max(0, text.indexOf("."));
-  const issues: Issue[] = [];
-  if (/\bi\s+was\b/i.test(text)) {
-    const m = text.match(/\bi\s+was\b/i);
-    if (m?.index != null) {
-      issues.push({ type: "grammar", start: m.index, end: m.index + m[0].length, tip: "Capitalize ‘I’." });
-    }
-  }
-  if (/\bteh\b/i.test(text)) {
-    const m = text.match(/\bteh\b/i);
-    if (m?.index != null) issues.push({ type: "spell", start: m.index, end: m.index + m[0].length, tip: "Spelling: ‘the’." });
-  }
-  if (firstPeriod === -1 && text.length > 0) {
-    issues.push({ type: "clarity", start: 0, end: Math.min(60, text.length), tip: "Add clear sentence breaks." });
-  }
-  const topTips: Tip[] = [
-    {
-      title: "Connect what happened to how you felt",
-      why: "Connecting events to feelings makes your story easier to understand.",
-      examples: [
-        { before: "I finished my homework.", after: "I finished my homework, and I felt proud because it was hard." },
-      ],
-    },
-  ];
-  const example: ExamplePair = {
-    before: text.split(/(?<=[.!?])/)[0] || "today i was tired but i study",
-    afterParts: [
-      { text: "Today ", bold: false },
-      { text: "I", bold: true },
-      { text: " felt tired, but I finished science and ", bold: false },
-      { text: "I", bold: true },
-      { text: " will review vocab after dinner.", bold: false },
-    ],
-  };
-  return { issues, topTips, example };
-}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { JournalEntry } from "../journal/repository";
+import type { IssueType } from "../types";
+import { recurringThemes, weekStartOf, weeklyTrends, writingStreak, type EntryStats } from "./progress";
+
+function stats(date: string, words: number, issues: Partial<Record<IssueType, number>> = {}, sentences = 1): EntryStats {
+  return { id: date, date, words, sentences, issues: { spell: 0, grammar: 0, clarity: 0, structure: 0, ...issues } };
+}
+
+function entry(date: string, tipTitles: string[]): JournalEntry {
+  const result = { issues: [], topTips: tipTitles.map((title) => ({ title, why: "", examples: [] })) };
+  return { id: `${date}-${tipTitles.join()}`, date, createdAt: `${date}T09:00:00.000Z`, text: "", result, drafts: [] };
+}
+
+describe("weekStartOf", () => {
+  it.each([
+    ["2025-06-02", "2025-06-02"], // Monday
+    ["2025-06-08", "2025-06-02"], // Sunday belongs to the week before
+    ["2025-06-09", "2025-06-09"],
+    ["2025-03-01", "2025-02-24"], // across a month
+    ["2026-01-01", "2025-12-29"], // across a year
+  ])("%s starts on %s", (day, monday) => {
+    expect(weekStartOf(day)).toBe(monday);
+  });
+});
+
+describe("weeklyTrends", () => {
+  it("groups by Monday-start weeks, oldest first", () => {
+    const weeks = weeklyTrends([stats("2025-06-09", 10), stats("2025-06-08", 20), stats("2025-06-02", 40)]);
+    expect(weeks.map((w) => [w.weekStart, w.entries])).toEqual([
+      ["2025-06-02", 2],
+      ["2025-06-09", 1],
+    ]);
+  });
+
+  it("averages words and sentences and sums issues per type", () => {
+    const [week] = weeklyTrends([stats("2025-06-02", 30, { spell: 2 }, 3), stats("2025-06-04", 45, { spell: 1, grammar: 1 }, 4)]);
+    expect(week).toEqual({
+      weekStart: "2025-06-02",
+      entries: 2,
+      avgWords: 37.5,
+      avgSentences: 3.5,
+      issues: { spell: 3, grammar: 1, clarity: 0, structure: 0 },
+      issuesPer100Words: 5.3, // 4 issues in 75 words
+    });
+  });
+
+  it("reports 0 issues per 100 words for a week without words", () => {
+    const [week] = weeklyTrends([stats("2025-06-02", 0, { structure: 1 })]);
+    expect(week.issuesPer100Words).toBe(0);
+    expect(week.issues.structure).toBe(1);
+  });
+
+  it("is empty without entries", () => {
+    expect(weeklyTrends([])).toEqual([]);
+  });
+});
+
+describe("recurringThemes", () => {
+  it("folds case and spacing into one theme and keeps the first wording", () => {
+    const themes = recurringThemes([entry("2025-06-01", ["Capital  I"]), entry("2025-06-03", [" capital i "]), entry("2025-06-02", ["CAPITAL I"])]);
+    expect(themes).toEqual([{ title: "Capital  I", count: 3, lastSeen: "2025-06-03" }]);
+  });
+
+  it("counts a theme once per reflection", () => {
+    const themes = recurringThemes([entry("2025-06-01", ["Run-on sentences", "run-on sentences"]), entry("2025-06-02", ["Run-on sentences"])]);
+    expect(themes).toEqual([{ title: "Run-on sentences", count: 2, lastSeen: "2025-06-02" }]);
+  });
+
+  it("leaves out themes seen once and orders by count, then most recent", () => {
+    const themes = recurringThemes([
+      entry("2025-06-01", ["Articles", "Capital I", "Commas"]),
+      entry("2025-06-02", ["Articles", "Capital I"]),
+      entry("2025-06-05", ["Articles", "Past tense"]),
+      entry("2025-06-06", ["Past tense"]),
+    ]);
+    expect(themes.map((t) => [t.title, t.count])).toEqual([
+      ["Articles", 3],
+      ["Past tense", 2],
+      ["Capital I", 2],
+    ]);
+  });
+});
+
+describe("writingStreak", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("counts back from today", () => {
+    expect(writingStreak(["2025-06-08", "2025-06-09", "2025-06-10"], "2025-06-10")).toEqual({ current: 3, longest: 3 });
+  });
+
+  it("keeps the streak while today is still open", () => {
+    expect(writingStreak(["2025-06-08", "2025-06-09"], "2025-06-10")).toEqual({ current: 2, longest: 2 });
+  });
+
+  it("breaks on a missed day", () => {
+    expect(writingStreak(["2025-06-01", "2025-06-02", "2025-06-03", "2025-06-06"], "2025-06-08")).toEqual({ current: 0, longest: 3 });
+  });
+
+  it("counts several reflections on one day once", () => {
+    expect(writingStreak(["2025-06-09", "2025-06-09", "2025-06-10", "2025-06-10"], "2025-06-10")).toEqual({ current: 2, longest: 2 });
+  });
+
+  it("runs across month and year ends", () => {
+    expect(writingStreak(["2025-02-27", "2025-02-28", "2025-03-01"], "2025-03-01")).toEqual({ current: 3, longest: 3 });
+    expect(writingStreak(["2025-12-31", "2026-01-01"], "2026-01-02")).toEqual({ current: 2, longest: 2 });
+  });
+
+  it.each(["America/New_York", "Europe/Berlin", "Australia/Sydney"])("runs across daylight saving changes in %s", (tz) => {
+    vi.stubEnv("TZ", tz);
+    const spring = ["2025-03-08", "2025-03-09", "2025-03-10", "2025-03-29", "2025-03-30", "2025-03-31"];
+    const autumn = ["2025-04-05", "2025-04-06", "2025-04-07", "2025-10-25", "2025-10-26", "2025-10-27", "2025-11-01", "2025-11-02", "2025-11-03"];
+    expect(writingStreak(spring, "2025-03-10").current).toBe(3);
+    expect(writingStreak(autumn, "2025-11-03")).toEqual({ current: 3, longest: 3 });
+    expect(weekStartOf("2025-11-02")).toBe("2025-10-27");
+  });
+
+  it("is zero without reflections", () => {
+    expect(writingStreak([], "2025-06-10")).toEqual({ current: 0, longest: 0 });
+  });
+});
@@ -0,0 +1,165 @@
+import { dayKey, type JournalEntry } from "../journal/repository";
+import { countSentences, countWords } from "../text/tokenizer";
+import type { IssueType } from "../types";
+
+/**
+ * "Am I getting better?" — pure aggregation over saved reflections. No React and no storage,
+ * so the dashboard (and anything else) can feed it whatever entries it has.
+ */
+
+export const ISSUE_TYPES_IN_ORDER: IssueType[] = ["spell", "grammar", "clarity", "structure"];
+
+export type IssueCounts = Record<IssueType, number>;
+
+export type EntryStats = {
+  id: string;
+  date: string;
+  words: number;
+  sentences: number;
+  issues: IssueCounts;
+};
+
+export type WeekStats = {
+  weekStart: string; // Monday, YYYY-MM-DD
+  entries: number;
+  avgWords: number;
+  avgSentences: number;
+  issues: IssueCounts;
+  issuesPer100Words: number;
+};
+
+export type TipTheme = {
+  title: string;    // as first written
+  count: number;    // reflections it appeared in
+  lastSeen: string; // YYYY-MM-DD
+};
+
+export type Streak = {
+  current: number; // consecutive days up to today (or yesterday, if today is still open)
+  longest: number;
+};
+
+export type ProgressSummary = {
+  totalEntries: number;
+  totalWords: number;
+  weeks: WeekStats[]; // oldest first
+  themes: TipTheme[]; // most frequent first, only those seen more than once
+  streak: Streak;
+};
+
+export function summarizeProgress(entries: JournalEntry[], today: string): ProgressSummary {
+  const stats = entries.map(entryStats);
+  return {
+    totalEntries: stats.length,
+    totalWords: stats.reduce((n, s) => n + s.words, 0),
+    weeks: weeklyTrends(stats),
+    themes: recurringThemes(entries),
+    streak: writingStreak(stats.map((s) => s.date), today),
+  };
+}
+
+export function entryStats(entry: JournalEntry): EntryStats {
+  const issues = emptyCounts();
+  for (const it of entry.result.issues) issues[it.type]++;
+  return {
+    id: entry.id,
+    date: entry.date,
+    words: countWords(entry.text),
+    sentences: countSentences(entry.text),
+    issues,
+  };
+}
+
+export function weeklyTrends(stats: EntryStats[]): WeekStats[] {
+  const byWeek = new Map<string, EntryStats[]>();
+  for (const s of stats) {
+    const week = weekStartOf(s.date);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), s]);
+  }
+  return [...byWeek.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, items]) => {
+      const words = items.reduce((n, s) => n + s.words, 0);
+      const issues = emptyCounts();
+      for (const s of items) for (const t of ISSUE_TYPES_IN_ORDER) issues[t] += s.issues[t];
+      const totalIssues = ISSUE_TYPES_IN_ORDER.reduce((n, t) => n + issues[t], 0);
+      return {
+        weekStart,
+        entries: items.length,
+        avgWords: round1(words / items.length),
+        avgSentences: round1(items.reduce((n, s) => n + s.sentences, 0) / items.length),
+        issues,
+        issuesPer100Words: words > 0 ? round1((totalIssues / words) * 100) : 0,
+      };
+    });
+}
+
+/** Tip titles that keep coming back. Counted once per reflection, matched case- and space-insensitively. */
+export function recurringThemes(entries: JournalEntry[], minCount = 2): TipTheme[] {
+  const themes = new Map<string, TipTheme>();
+  for (const e of entries) {
+    const seen = new Set<string>();
+    for (const tip of e.result.topTips) {
+      const key = tip.title.toLowerCase().replace(/\s+/g, " ").trim();
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      const theme = themes.get(key);
+      if (theme) {
+        theme.count++;
+        if (e.date > theme.lastSeen) theme.lastSeen = e.date;
+      } else {
+        themes.set(key, { title: tip.title.trim(), count: 1, lastSeen: e.date });
+      }
+    }
+  }
+  return [...themes.values()]
+    .filter((t) => t.count >= minCount)
+    .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+export function writingStreak(dates: string[], today: string): Streak {
+  const days = [...new Set(dates)].sort();
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && addDays(days[i - 1], 1) === days[i] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const written = new Set(days);
+  // Today does not break the streak until it is over
+  let cursor = written.has(today) ? today : addDays(today, -1);
+  let current = 0;
+  while (written.has(cursor)) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+  return { current, longest };
+}
+
+// ---------- Date helpers (local calendar days, YYYY-MM-DD) ----------
+
+export function weekStartOf(day: string): string {
+  const d = parseDay(day);
+  const offset = (d.getDay() + 6) % 7; // Monday = 0
+  return addDays(day, -offset);
+}
+
+function addDays(day: string, n: number): string {
+  const d = parseDay(day);
+  d.setDate(d.getDate() + n);
+  return dayKey(d);
+}
+
+function parseDay(day: string): Date {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function emptyCounts(): IssueCounts {
+  return { spell: 0, grammar: 0, clarity: 0, structure: 0 };
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
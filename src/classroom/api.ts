@@ -0,0 +1,66 @@
+import { EvaluationError, type EvaluationErrorCode } from "../evaluation/provider";
+import type { UiLocale } from "../i18n/locales";
+import type { NativeLanguage } from "../profile/profile";
+import type { Assignment, AssignmentDraft, Submission } from "./classroom";
+import type { HandIn } from "./useClassroom";
+
+/**
+ * JSON in and out. Failures with an error code (limits, rate limiting) throw EvaluationError;
+ * others throw an Error whose message comes from the server and is fit to show.
+ */
+async function call<T>(url: string, init: RequestInit = {}, key?: string): Promise<T> {
+  const r = await fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(key ? { Authorization: `Bearer ${key}` } : {}),
+    },
+  });
+  const body = (await r.json().catch(() => null)) as (T & { error?: string; code?: EvaluationErrorCode }) | null;
+  if (body?.code && !r.ok) throw new EvaluationError(body.code, body.error ?? `Server error ${r.status}`);
+  if (!r.ok || body === null) throw new Error(body?.error ?? `Server error ${r.status}`);
+  return body;
+}
+
+export function createAssignment(draft: AssignmentDraft) {
+  return call<{ assignment: Assignment; teacherKey: string }>("/api/assignments", { method: "POST", body: JSON.stringify(draft) });
+}
+
+export function findAssignment(code: string) {
+  return call<Assignment>(`/api/assignments?code=${encodeURIComponent(code)}`);
+}
+
+export function submitReflection(input: {
+  code: string;
+  studentName: string;
+  text: string;
+  locale: UiLocale;
+  nativeLanguage: NativeLanguage;
+  explainInNativeLanguage?: boolean;
+}) {
+  return call<{ submission: Submission; studentKey: string }>("/api/submit", { method: "POST", body: JSON.stringify(input) });
+}
+
+/** A student's own submission, with any comments their teacher has left since. */
+export function getOwnSubmission(handIn: HandIn) {
+  return call<Submission>(
+    `/api/submission?assignment=${encodeURIComponent(handIn.assignmentId)}&id=${encodeURIComponent(handIn.submissionId)}`,
+    {},
+    handIn.studentKey
+  );
+}
+
+export function listSubmissions(assignmentId: string, teacherKey: string) {
+  return call<{ assignment: Assignment; submissions: Submission[] }>(
+    `/api/submissions?assignment=${encodeURIComponent(assignmentId)}`,
+    {},
+    teacherKey
+  );
+}
+
+export function addComment(
+  input: { assignmentId: string; submissionId: string; start: number; end: number; body: string },
+  teacherKey: string
+) {
+  return call<Submission>("/api/comment", { method: "POST", body: JSON.stringify(input) }, teacherKey);
+}
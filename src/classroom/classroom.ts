@@ -0,0 +1,119 @@
+import { PROFILE_MESSAGES, validateProfile, type CefrLevel, type ProfileMessages } from "../profile/profile";
+import type { EvalResult } from "../types";
+
+// Shapes shared by the class-mode functions (netlify/functions/assignments, submit, submissions, comment) and the UI.
+
+export type Assignment = {
+  id: string;
+  code: string;       // join code students type in, e.g. "K7QF3M"
+  title: string;
+  prompt: string;     // what students are asked to write about
+  goals: string[];
+  level: CefrLevel;
+  minSentences: number;
+  createdAt: string;  // ISO timestamp
+};
+
+export type AssignmentDraft = Pick<Assignment, "title" | "prompt" | "goals" | "level" | "minSentences">;
+
+/** A teacher's note on a submission, anchored to a span of the student's text like an Issue. */
+export type TeacherComment = {
+  id: string;
+  start: number;
+  end: number;
+  quote: string;      // text[start:end] when the comment was made
+  body: string;
+  createdAt: string;
+};
+
+export type Submission = {
+  id: string;
+  assignmentId: string;
+  studentName: string;
+  text: string;
+  result: EvalResult; // the feedback the student saw
+  comments: TeacherComment[];
+  submittedAt: string;
+};
+
+export const CLASSROOM_LIMITS = {
+  maxTitleLength: 80,
+  maxPromptLength: 500,
+  maxNameLength: 40,
+  maxCommentLength: 500,
+};
+
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I/L to misread
+export const JOIN_CODE_LENGTH = 6;
+
+export function randomJoinCode(random: () => number = Math.random): string {
+  let code = "";
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) code += CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)];
+  return code;
+}
+
+/** Upper-cases and strips spaces and dashes; null when it cannot be a join code. */
+export function normalizeJoinCode(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const code = raw.toUpperCase().replace(/[\s-]/g, "");
+  return code.length === JOIN_CODE_LENGTH && [...code].every((c) => CODE_ALPHABET.includes(c)) ? code : null;
+}
+
+export type AssignmentValidation =
+  | { ok: true; draft: AssignmentDraft }
+  | { ok: false; errors: Partial<Record<keyof AssignmentDraft, string>> };
+
+export type AssignmentMessages = ProfileMessages & {
+  noTitle: string;
+  titleTooLong: (max: number) => string;
+  noPrompt: string;
+  promptTooLong: (max: number) => string;
+};
+
+export const ASSIGNMENT_MESSAGES: AssignmentMessages = {
+  ...PROFILE_MESSAGES,
+  noTitle: "Give the assignment a title.",
+  titleTooLong: (max) => `Keep the title under ${max} characters.`,
+  noPrompt: "Write a prompt for your students.",
+  promptTooLong: (max) => `Keep the prompt under ${max} characters.`,
+};
+
+/** Goals, level and minimum sentences follow the learner-profile rules. */
+export function validateAssignment(raw: unknown, messages: AssignmentMessages = ASSIGNMENT_MESSAGES): AssignmentValidation {
+  const a = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+  const errors: Partial<Record<keyof AssignmentDraft, string>> = {};
+
+  const title = typeof a.title === "string" ? a.title.trim() : "";
+  if (!title) errors.title = messages.noTitle;
+  else if (title.length > CLASSROOM_LIMITS.maxTitleLength) errors.title = messages.titleTooLong(CLASSROOM_LIMITS.maxTitleLength);
+
+  const prompt = typeof a.prompt === "string" ? a.prompt.trim() : "";
+  if (!prompt) errors.prompt = messages.noPrompt;
+  else if (prompt.length > CLASSROOM_LIMITS.maxPromptLength) errors.prompt = messages.promptTooLong(CLASSROOM_LIMITS.maxPromptLength);
+
+  const profile = validateProfile({ nativeLanguage: "en", level: a.level, goals: a.goals, minSentences: a.minSentences }, messages);
+  if (!profile.ok) {
+    if (profile.errors.goals) errors.goals = profile.errors.goals;
+    if (profile.errors.level) errors.level = profile.errors.level;
+    if (profile.errors.minSentences) errors.minSentences = profile.errors.minSentences;
+  }
+
+  if (Object.keys(errors).length > 0 || !profile.ok) return { ok: false, errors };
+  const { goals, level, minSentences } = profile.profile;
+  return { ok: true, draft: { title, prompt, goals, level, minSentences } };
+}
+
+export type CommentValidation = { ok: true; comment: Pick<TeacherComment, "start" | "end" | "quote" | "body"> } | { ok: false; error: string };
+
+/** The span must lie inside `text`; the quote is taken from the text rather than trusted. */
+export function validateComment(raw: unknown, text: string): CommentValidation {
+  const c = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+  const body = typeof c.body === "string" ? c.body.trim() : "";
+  if (!body) return { ok: false, error: "Write a comment first." };
+  if (body.length > CLASSROOM_LIMITS.maxCommentLength) return { ok: false, error: `Keep comments under ${CLASSROOM_LIMITS.maxCommentLength} characters.` };
+  const { start, end } = c;
+  if (!Number.isInteger(start) || !Number.isInteger(end) || (start as number) < 0 || (end as number) > text.length || (start as number) >= (end as number)) {
+    return { ok: false, error: "Select some of the student's words to comment on." };
+  }
+  return { ok: true, comment: { start: start as number, end: end as number, quote: text.slice(start as number, end as number), body } };
+}
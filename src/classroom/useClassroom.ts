@@ -0,0 +1,63 @@
+import { useCallback, useState } from "react";
+import type { Assignment } from "./classroom";
+
+const ENROLLMENT_KEY = "daily-reflection:class";
+const TEACHING_KEY = "daily-reflection:teaching";
+const HANDED_IN_KEY = "daily-reflection:handed-in";
+
+/** The assignment a student has joined; their reflections go to it until they leave. */
+export type Enrollment = { assignment: Assignment; studentName: string };
+
+/** An assignment this browser created, with the key that unlocks its submissions. */
+export type TaughtAssignment = { assignment: Assignment; teacherKey: string };
+
+/** A reflection this browser handed in, with the key that lets the student read the teacher's comments on it. */
+export type HandIn = { assignmentId: string; submissionId: string; studentKey: string; submittedAt: string };
+
+function load<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function store(key: string, value: unknown) {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+  } catch (err: unknown) {
+    console.warn("Could not save class settings:", err);
+  }
+}
+
+/** Class mode state kept in localStorage: the student side (enrollment, handedIn) and the teacher side (teaching). */
+export function useClassroom() {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(() => load(ENROLLMENT_KEY, null));
+  const [teaching, setTeaching] = useState<TaughtAssignment[]>(() => load(TEACHING_KEY, []));
+  const [handedIn, setHandedIn] = useState<HandIn[]>(() => load(HANDED_IN_KEY, []));
+
+  const join = useCallback((next: Enrollment | null) => {
+    setEnrollment(next);
+    store(ENROLLMENT_KEY, next);
+  }, []);
+
+  const addTaught = useCallback((taught: TaughtAssignment) => {
+    setTeaching((list) => {
+      const next = [taught, ...list.filter((t) => t.assignment.id !== taught.assignment.id)];
+      store(TEACHING_KEY, next);
+      return next;
+    });
+  }, []);
+
+  const addHandIn = useCallback((handIn: HandIn) => {
+    setHandedIn((list) => {
+      const next = [handIn, ...list];
+      store(HANDED_IN_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return { enrollment, join, teaching, addTaught, handedIn, addHandIn };
+}
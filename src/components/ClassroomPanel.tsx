@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { createAssignment, findAssignment, getOwnSubmission } from "../classroom/api";
+import { CLASSROOM_LIMITS, validateAssignment, type AssignmentValidation, type Submission } from "../classroom/classroom";
+import type { Enrollment, HandIn, TaughtAssignment } from "../classroom/useClassroom";
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import { CEFR_LEVELS, DEFAULT_PROFILE, PROFILE_LIMITS, type CefrLevel } from "../profile/profile";
+import SubmissionReview from "./SubmissionReview";
+
+type Errors = Extract<AssignmentValidation, { ok: false }>["errors"];
+
+const fieldClass =
+  "rounded-xl border border-pink-300/70 dark:border-pink-800/60 bg-white dark:bg-neutral-900 px-3 py-2 outline-none focus:ring-4 focus:ring-pink-300/40 text-sm";
+
+/**
+ * Class mode. Students join an assignment with a code; teachers create assignments and review
+ * what comes in. Teacher keys live only in this browser (see useClassroom).
+ */
+export default function ClassroomPanel({
+  t,
+  locale,
+  enrollment,
+  onJoin,
+  handedIn,
+  teaching,
+  onCreated,
+}: {
+  t: Messages;
+  locale: UiLocale;
+  enrollment: Enrollment | null;
+  onJoin: (e: Enrollment | null) => void;
+  handedIn: HandIn[];
+  teaching: TaughtAssignment[];
+  onCreated: (taught: TaughtAssignment) => void;
+}) {
+  const [reviewing, setReviewing] = useState<TaughtAssignment | null>(null);
+  const assignmentId = enrollment?.assignment.id;
+  const mine = useMemo(() => handedIn.filter((h) => h.assignmentId === assignmentId), [handedIn, assignmentId]);
+
+  if (reviewing) return <SubmissionReview t={t} locale={locale} taught={reviewing} onClose={() => setReviewing(null)} />;
+
+  return (
+    <div className="mt-3 grid sm:grid-cols-2 gap-6 text-sm" style={{ fontFamily: "Nunito, system-ui" }}>
+      <div className="flex flex-col gap-4">
+        <JoinForm t={t} enrollment={enrollment} onJoin={onJoin} />
+        {mine.length > 0 && <HandedInList t={t} locale={locale} handIns={mine} />}
+      </div>
+      <div className="flex flex-col gap-4">
+        <CreateAssignmentForm t={t} onCreated={onCreated} />
+        {teaching.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-pink-700 dark:text-pink-300">{t.classroom.yourAssignments}</h3>
+            <ul className="mt-2 grid gap-2">
+              {teaching.map((taught) => (
+                <li key={taught.assignment.id} className="rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3 flex items-center justify-between gap-2">
+                  <span>
+                    <span className="font-semibold">{taught.assignment.title}</span>
+                    <span className="ml-2 font-mono text-xs opacity-70">{taught.assignment.code}</span>
+                  </span>
+                  <button type="button" onClick={() => setReviewing(taught)} className="rounded-lg bg-pink-600 hover:bg-pink-700 text-white text-xs font-semibold px-3 py-1.5">
+                    {t.classroom.review}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function JoinForm({ t, enrollment, onJoin }: { t: Messages; enrollment: Enrollment | null; onJoin: (e: Enrollment | null) => void }) {
+  const [code, setCode] = useState("");
+  const [name, setName] = useState(enrollment?.studentName ?? "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError(t.classroom.nameMissing);
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      onJoin({ assignment: await findAssignment(code), studentName: name.trim() });
+      setCode("");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (enrollment) {
+    return (
+      <div className="flex flex-col gap-2">
+        <h3 className="font-semibold text-pink-700 dark:text-pink-300">{t.classroom.yourClass}</h3>
+        <p>
+          {t.classroom.enrolledFor} <strong>{enrollment.assignment.title}</strong> {t.classroom.enrolledAs(enrollment.studentName)}
+        </p>
+        <button type="button" onClick={() => onJoin(null)} className="self-start rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-xs font-semibold px-3 py-1.5">
+          {t.classroom.leave}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="flex flex-col gap-3">
+      <h3 className="font-semibold text-pink-700 dark:text-pink-300">{t.classroom.join}</h3>
+      <label className="flex flex-col gap-1">
+        <span>{t.classroom.joinCode}</span>
+        <input value={code} onChange={(e) => setCode(e.target.value)} placeholder="K7QF3M" autoCapitalize="characters" className={`${fieldClass} font-mono uppercase`} />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>{t.classroom.yourName}</span>
+        <input value={name} onChange={(e) => setName(e.target.value)} maxLength={CLASSROOM_LIMITS.maxNameLength} className={fieldClass} />
+      </label>
+      {error && <FieldError text={error} />}
+      <button type="submit" disabled={busy || !code.trim()} className="self-start rounded-lg bg-pink-600 hover:bg-pink-700 disabled:bg-pink-400 text-white text-xs font-semibold px-3 py-1.5">
+        {busy ? t.classroom.joining : t.classroom.joinButton}
+      </button>
+    </form>
+  );
+}
+
+/** What the student handed in for this assignment, with the comments the teacher has left so far. */
+function HandedInList({ t, locale, handIns }: { t: Messages; locale: UiLocale; handIns: HandIn[] }) {
+  const [submissions, setSubmissions] = useState<(Submission | null)[] | null>(null);
+  const [reload, setReload] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(handIns.map((h) => getOwnSubmission(h).catch(() => null))).then((list) => !cancelled && setSubmissions(list));
+    return () => {
+      cancelled = true;
+    };
+  }, [handIns, reload]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-pink-700 dark:text-pink-300">{t.classroom.submissions}</h3>
+        <button type="button" onClick={() => setReload((n) => n + 1)} className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-xs font-semibold px-3 py-1.5">
+          {t.classroom.checkComments}
+        </button>
+      </div>
+      {submissions === null && <p className="animate-pulse opacity-70">{t.classroom.loadingSubmissions}</p>}
+      <ul className="grid gap-2">
+        {submissions?.map((s, i) => (
+          <li key={handIns[i].submissionId} className="rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3 flex flex-col gap-1">
+            <span className="text-xs opacity-70">{new Date(handIns[i].submittedAt).toLocaleString(locale, { dateStyle: "medium", timeStyle: "short" })}</span>
+            {!s && <span className="text-xs">{t.classroom.commentsFailed}</span>}
+            {s && <span className="line-clamp-2">{s.text}</span>}
+            {s && s.comments.length === 0 && <span className="text-xs opacity-70">{t.classroom.noComments}</span>}
+            {s && s.comments.length > 0 && (
+              <ul className="grid gap-1 text-xs">
+                {s.comments.map((c) => (
+                  <li key={c.id}>
+                    <em className="not-italic font-semibold">“{c.quote}”</em> — {c.body}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function CreateAssignmentForm({ t, onCreated }: { t: Messages; onCreated: (taught: TaughtAssignment) => void }) {
+  const [title, setTitle] = useState("");
+  const [prompt, setPrompt] = useState("");
+  const [goals, setGoals] = useState(DEFAULT_PROFILE.goals.join("\n"));
+  const [level, setLevel] = useState<CefrLevel>(DEFAULT_PROFILE.level);
+  const [minSentences, setMinSentences] = useState(DEFAULT_PROFILE.minSentences);
+  const [errors, setErrors] = useState<Errors>({});
+  const [failure, setFailure] = useState<string | null>(null);
+  const [created, setCreated] = useState<TaughtAssignment | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    const checked = validateAssignment({ title, prompt, goals: goals.split("\n"), level, minSentences }, t.validation);
+    setErrors(checked.ok ? {} : checked.errors);
+    if (!checked.ok) return;
+    setBusy(true);
+    setFailure(null);
+    try {
+      const taught = await createAssignment(checked.draft);
+      onCreated(taught);
+      setCreated(taught);
+      setTitle("");
+      setPrompt("");
+    } catch (err: unknown) {
+      setFailure(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="flex flex-col gap-3">
+      <h3 className="font-semibold text-pink-700 dark:text-pink-300">{t.classroom.create}</h3>
+      <label className="flex flex-col gap-1">
+        <span>{t.classroom.title}</span>
+        <input value={title} onChange={(e) => setTitle(e.target.value)} maxLength={CLASSROOM_LIMITS.maxTitleLength} className={fieldClass} />
+        {errors.title && <FieldError text={errors.title} />}
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>{t.classroom.prompt}</span>
+        <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} maxLength={CLASSROOM_LIMITS.maxPromptLength} rows={2} className={fieldClass} />
+        {errors.prompt && <FieldError text={errors.prompt} />}
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>{t.classroom.goals}</span>
+        <textarea value={goals} onChange={(e) => setGoals(e.target.value)} rows={3} className={fieldClass} />
+        {errors.goals && <FieldError text={errors.goals} />}
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1">
+          <span>{t.classroom.level}</span>
+          <select value={level} onChange={(e) => setLevel(e.target.value as CefrLevel)} className={fieldClass}>
+            {CEFR_LEVELS.map((l) => (
+              <option key={l} value={l}>{t.levels[l]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>{t.profile.minSentences}</span>
+          <input
+            type="number"
+            min={PROFILE_LIMITS.minSentences}
+            max={PROFILE_LIMITS.maxSentences}
+            value={Number.isNaN(minSentences) ? "" : minSentences}
+            onChange={(e) => setMinSentences(e.target.valueAsNumber)}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+      {errors.minSentences && <FieldError text={errors.minSentences} />}
+      {failure && <FieldError text={failure} />}
+      <button type="submit" disabled={busy} className="self-start rounded-lg bg-pink-600 hover:bg-pink-700 disabled:bg-pink-400 text-white text-xs font-semibold px-3 py-1.5">
+        {busy ? t.classroom.creating : t.classroom.createButton}
+      </button>
+      {created && (
+        <p className="rounded-xl bg-pink-50/70 dark:bg-neutral-800/70 border border-pink-200/70 dark:border-pink-800/50 p-3">
+          {t.classroom.shareCode} <strong className="font-mono text-base">{created.assignment.code}</strong> {t.classroom.shareCodeAfter}
+        </p>
+      )}
+    </form>
+  );
+}
+
+function FieldError({ text }: { text: string }) {
+  return <span className="text-xs text-red-700 dark:text-red-300">{text}</span>;
+}
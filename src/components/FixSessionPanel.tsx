@@ -0,0 +1,134 @@
+import { useState, type FormEvent } from "react";
+import { currentItem, isFinished, type FixSession } from "../fix/session";
+import type { Messages } from "../i18n/messages";
+
+/**
+ * One issue at a time: show the highlighted words, let the learner retype them,
+ * and re-check just that sentence before moving on.
+ */
+export default function FixSessionPanel({
+  t,
+  session,
+  onCheck,
+  onSkip,
+  onFinish,
+}: {
+  t: Messages;
+  session: FixSession;
+  onCheck: (replacement: string) => Promise<boolean>;
+  onSkip: () => void;
+  onFinish: () => void;
+}) {
+  const item = currentItem(session);
+  const total = session.items.length;
+  const resolved = session.items.filter((it) => it.status === "resolved").length;
+
+  if (isFinished(session) || !item) {
+    return (
+      <div className="mt-3 flex flex-col gap-3" style={{ fontFamily: "Nunito, system-ui" }}>
+        <p className="text-sm">
+          {t.fixSession.result(resolved, total)} {resolved === total ? t.fixSession.allDone : t.fixSession.someSkipped}
+        </p>
+        <button
+          type="button"
+          onClick={onFinish}
+          className="self-start rounded-lg bg-pink-600 hover:bg-pink-700 text-white text-xs font-semibold px-3 py-1.5"
+        >
+          {t.fixSession.useFixed}
+        </button>
+      </div>
+    );
+  }
+
+  // Keyed by step so the input resets to the new highlighted words each time
+  return (
+    <FixStep
+      key={`${session.current}:${item.issue.start}`}
+      t={t}
+      step={session.current + 1}
+      total={total}
+      label={t.issueTypes[item.issue.type]}
+      tip={item.issue.tip}
+      highlighted={session.text.slice(item.issue.start, item.issue.end)}
+      onCheck={onCheck}
+      onSkip={onSkip}
+      onFinish={onFinish}
+    />
+  );
+}
+
+function FixStep({
+  t,
+  step,
+  total,
+  label,
+  tip,
+  highlighted,
+  onCheck,
+  onSkip,
+  onFinish,
+}: {
+  t: Messages;
+  step: number;
+  total: number;
+  label: string;
+  tip?: string;
+  highlighted: string;
+  onCheck: (replacement: string) => Promise<boolean>;
+  onSkip: () => void;
+  onFinish: () => void;
+}) {
+  const [draft, setDraft] = useState(highlighted);
+  const [checking, setChecking] = useState(false);
+  const [notYet, setNotYet] = useState(false);
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    setChecking(true);
+    setNotYet(false);
+    try {
+      const ok = await onCheck(draft);
+      if (!ok) setNotYet(true);
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="mt-3 flex flex-col gap-3" style={{ fontFamily: "Nunito, system-ui" }}>
+      <p className="text-xs opacity-70">
+        {t.fixSession.step(step, total)} • {label}
+      </p>
+      <p className="text-sm">
+        <span className="rounded-sm px-0.5 ring-2 ring-pink-500">{highlighted}</span>
+      </p>
+      {tip && <p className="text-sm opacity-80">{tip}</p>}
+      <label htmlFor="fix-input" className="text-xs font-semibold text-pink-700 dark:text-pink-300">
+        {t.fixSession.retype}
+      </label>
+      <input
+        id="fix-input"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        autoFocus
+        className="rounded-xl border border-pink-300/70 dark:border-pink-800/60 bg-white dark:bg-neutral-900 px-3 py-2 outline-none focus:ring-4 focus:ring-pink-300/40 text-base"
+      />
+      {notYet && <p className="text-sm text-yellow-900 dark:text-yellow-200">{t.fixSession.notYet}</p>}
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={checking}
+          className="rounded-lg bg-pink-600 hover:bg-pink-700 disabled:bg-pink-400 text-white text-xs font-semibold px-3 py-1.5"
+        >
+          {checking ? t.checking : t.fixSession.check}
+        </button>
+        <button type="button" onClick={onSkip} className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-xs font-semibold px-3 py-1.5">
+          {t.fixSession.skip}
+        </button>
+        <button type="button" onClick={onFinish} className="ml-auto text-xs underline opacity-70">
+          {t.fixSession.stop}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,62 @@
+import type { Messages } from "../i18n/messages";
+import type { GoalCoverage, GoalStatus } from "../types";
+
+type Spotlight = { start: number; end: number };
+
+const STATUS: Record<GoalStatus, { icon: string; cls: string }> = {
+  covered: { icon: "✓", cls: "text-green-700 dark:text-green-400" },
+  partial: { icon: "◐", cls: "text-yellow-700 dark:text-yellow-400" },
+  missing: { icon: "○", cls: "text-pink-700/70 dark:text-pink-300/70" },
+};
+
+/**
+ * One row per writing goal. Before feedback arrives the goals are listed without a status;
+ * afterwards, hovering or focusing a covered goal spotlights its sentence in the preview.
+ */
+export default function GoalChecklist({
+  t,
+  goals,
+  coverage,
+  onSpotlight,
+}: {
+  t: Messages;
+  goals: string[];
+  coverage?: GoalCoverage[];
+  onSpotlight: (span: Spotlight | null) => void;
+}) {
+  const rows: (GoalCoverage | { goal: string; status?: undefined })[] = coverage ?? goals.map((goal) => ({ goal }));
+
+  return (
+    <ul className="flex flex-wrap gap-2 text-xs sm:text-sm" aria-label={t.goalsLabel} style={{ fontFamily: "Nunito, system-ui" }}>
+      {rows.map((row, i) => {
+        const status = row.status ? STATUS[row.status] : null;
+        const span = row.status && row.status !== "missing" && row.start != null && row.end != null ? { start: row.start, end: row.end } : null;
+        const content = (
+          <>
+            <span className={`font-bold ${status?.cls ?? "opacity-50"}`} aria-hidden>{status?.icon ?? "·"}</span>
+            <span>{row.goal}</span>
+            {row.status && <span className="sr-only">: {t.goalStatus[row.status]}</span>}
+          </>
+        );
+        return (
+          <li key={`${i}:${row.goal}`}>
+            {span ? (
+              <button
+                type="button"
+                onMouseEnter={() => onSpotlight(span)}
+                onMouseLeave={() => onSpotlight(null)}
+                onFocus={() => onSpotlight(span)}
+                onBlur={() => onSpotlight(null)}
+                className="inline-flex items-center gap-1.5 rounded-full border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 px-2.5 py-0.5 hover:border-pink-500 focus:outline-none focus:ring-2 focus:ring-pink-300/60"
+              >
+                {content}
+              </button>
+            ) : (
+              <span className="inline-flex items-center gap-1.5 rounded-full border border-pink-200/70 dark:border-pink-800/50 px-2.5 py-0.5">{content}</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
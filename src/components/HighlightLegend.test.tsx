@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { en } from "../i18n/en";
+import { es } from "../i18n/es";
+import { axeViolations } from "../test/axe";
+import HighlightLegend from "./HighlightLegend";
+import { FIXED_STYLE, ISSUE_STYLES, ISSUE_TYPES_SHOWN } from "./issueStyles";
+
+afterEach(cleanup);
+
+describe("HighlightLegend", () => {
+  it("names every issue type, with the icons hidden from screen readers", () => {
+    render(<HighlightLegend t={en} />);
+    const items = screen.getAllByRole("listitem");
+    expect(items.map((li) => li.textContent)).toEqual(["✎Spelling", "§Grammar", "?Clarity", "¶Structure"]);
+    for (const li of items) expect(li.querySelector("[aria-hidden]")).toBeTruthy();
+  });
+
+  it("adds fixed highlights during a fix session", () => {
+    render(<HighlightLegend t={en} showFixed />);
+    expect(screen.getAllByRole("listitem").at(-1)?.textContent).toBe(`${FIXED_STYLE.icon}Fixed`);
+  });
+
+  it("uses the locale's names", () => {
+    render(<HighlightLegend t={es} showFixed />);
+    expect(screen.getByRole("list", { name: es.preview.legend })).toBeTruthy();
+    expect(screen.getAllByRole("listitem").map((li) => li.textContent)).toEqual(["✎Ortografía", "§Gramática", "?Claridad", "¶Estructura", "✓Corregido"]);
+  });
+
+  it("has no axe violations", async () => {
+    const { container } = render(<HighlightLegend t={en} showFixed />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
+
+describe("issue styles", () => {
+  it("give every type its own icon and pattern, not only a colour", () => {
+    const styles = [...ISSUE_TYPES_SHOWN.map((t) => ISSUE_STYLES[t])];
+    expect(new Set(styles.map((s) => s.icon)).size).toBe(styles.length);
+    const pattern = (classes: string) => classes.split(" ").filter((c) => c.startsWith("decoration-") && !/\d|-(yellow|blue|purple|red)-/.test(c)).join(" ");
+    expect(new Set(styles.map((s) => pattern(s.highlight))).size).toBe(styles.length);
+    const fill = (classes: string) => classes.split(" ").filter((c) => c.startsWith("bg-[")).join(" ");
+    expect(new Set(styles.map((s) => fill(s.fill))).size).toBe(styles.length);
+  });
+});
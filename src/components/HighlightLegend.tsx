@@ -0,0 +1,22 @@
+import type { Messages } from "../i18n/messages";
+import { FIXED_STYLE, ISSUE_STYLES, ISSUE_TYPES_SHOWN } from "./issueStyles";
+
+/** What each highlight means: the colour, pattern and icon for every issue type (and fixed ones during a fix session). */
+export default function HighlightLegend({ t, showFixed = false }: { t: Messages; showFixed?: boolean }) {
+  const styles = [
+    ...ISSUE_TYPES_SHOWN.map((type) => ({ ...ISSUE_STYLES[type], label: t.issueTypes[type] })),
+    ...(showFixed ? [{ ...FIXED_STYLE, label: t.fixed }] : []),
+  ];
+  return (
+    <ul aria-label={t.preview.legend} className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs" style={{ fontFamily: "Nunito, system-ui" }}>
+      {styles.map((s) => (
+        <li key={s.label} className="flex items-center gap-1">
+          <span aria-hidden className={`inline-flex h-5 min-w-5 items-center justify-center rounded-sm px-1 font-bold ${s.highlight}`}>
+            {s.icon}
+          </span>
+          {s.label}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,93 @@
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import type { JournalEntry } from "../journal/repository";
+
+/**
+ * Past reflections grouped by day, newest first. Opening an entry hands it back to App,
+ * which shows it in OriginalPreview with the highlights it was saved with.
+ */
+export default function HistoryPanel({
+  t,
+  locale,
+  entries,
+  activeId,
+  onOpen,
+  onDelete,
+}: {
+  t: Messages;
+  locale: UiLocale;
+  entries: JournalEntry[];
+  activeId: string | null;
+  onOpen: (entry: JournalEntry) => void;
+  onDelete: (entry: JournalEntry) => void;
+}) {
+  if (entries.length === 0) {
+    return (
+      <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>
+        {t.history.empty}
+      </p>
+    );
+  }
+
+  const days: { date: string; items: JournalEntry[] }[] = [];
+  for (const e of entries) {
+    const last = days[days.length - 1];
+    if (last && last.date === e.date) last.items.push(e);
+    else days.push({ date: e.date, items: [e] });
+  }
+
+  return (
+    <div className="mt-3 flex flex-col gap-4">
+      {days.map((day) => (
+        <div key={day.date}>
+          <h3 className="text-xs font-bold uppercase tracking-wide opacity-70" style={{ fontFamily: "Nunito, system-ui" }}>
+            {formatDay(day.date, locale)}
+          </h3>
+          <ul className="mt-2 grid gap-2">
+            {day.items.map((entry) => (
+              <li
+                key={entry.id}
+                className={`rounded-xl border p-3 bg-white/80 dark:bg-neutral-900/60 ${
+                  entry.id === activeId ? "border-pink-500" : "border-pink-200/70 dark:border-pink-800/50"
+                }`}
+              >
+                <p className="text-sm line-clamp-2" style={{ fontFamily: "Nunito, system-ui" }}>{entry.text}</p>
+                <div className="mt-2 flex items-center justify-between text-xs">
+                  <span className="opacity-70">
+                    {formatTime(entry.createdAt, locale)} • {t.history.highlights(entry.result.issues.length)}
+                    {entry.drafts.length > 1 && ` • ${t.history.drafts(entry.drafts.length)}`}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onOpen(entry)}
+                      className="rounded-lg bg-pink-600 hover:bg-pink-700 text-white font-semibold px-3 py-1"
+                    >
+                      {t.history.open}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(entry)}
+                      className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-pink-700 dark:text-pink-300 font-semibold px-3 py-1"
+                    >
+                      {t.history.delete}
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatDay(date: string, locale: UiLocale) {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(locale, { weekday: "long", month: "short", day: "numeric" });
+}
+
+function formatTime(iso: string, locale: UiLocale) {
+  return new Date(iso).toLocaleTimeString(locale, { hour: "numeric", minute: "2-digit" });
+}
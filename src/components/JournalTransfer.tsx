@@ -0,0 +1,101 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { parseArchive, toArchive, type MergeResult } from "../export/archive";
+import { toHtml } from "../export/html";
+import { toMarkdown } from "../export/markdown";
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import type { JournalEntry } from "../journal/repository";
+
+type Format = "markdown" | "html" | "json";
+
+const FORMATS: Record<Format, { ext: string; mime: string }> = {
+  markdown: { ext: "md", mime: "text/markdown" },
+  html: { ext: "html", mime: "text/html" },
+  json: { ext: "json", mime: "application/json" },
+};
+
+const buttonClass = "rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-pink-700 dark:text-pink-300 font-semibold px-3 py-1";
+
+/**
+ * Hand in or back up the journal: download reflections with their feedback as Markdown, a page to
+ * print or save as PDF, or a JSON backup that can be imported again. Importing never duplicates.
+ */
+export default function JournalTransfer({
+  t,
+  locale,
+  entries,
+  active,
+  onImport,
+}: {
+  t: Messages;
+  locale: UiLocale;
+  entries: JournalEntry[];
+  active?: JournalEntry;
+  onImport: (entries: JournalEntry[]) => Promise<MergeResult | null>;
+}) {
+  const [onlyActive, setOnlyActive] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const selected = onlyActive && active ? [active] : entries;
+
+  function download(format: Format) {
+    const content = format === "markdown" ? toMarkdown(selected, t, locale) : format === "html" ? toHtml(selected, t, locale) : toArchive(selected);
+    const { ext, mime } = FORMATS[format];
+    const url = URL.createObjectURL(new Blob([content], { type: `${mime};charset=utf-8` }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `reflections-${new Date().toISOString().slice(0, 10)}.${ext}`;
+    a.click();
+    // Revoking straight after click() can cancel the download in Safari and Firefox, which read the blob later
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+
+  async function importFile(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const parsed = parseArchive(await file.text());
+    if (!parsed.ok) {
+      setStatus(t.transfer.errors[parsed.error]);
+      return;
+    }
+    const merge = await onImport(parsed.entries);
+    if (merge) {
+      const { added, updated, unchanged } = merge;
+      const imported = t.transfer.imported(added, updated, unchanged);
+      setStatus(parsed.skipped > 0 ? `${imported} ${t.transfer.skipped(parsed.skipped)}` : imported);
+    }
+  }
+
+  return (
+    <div className="mt-3 flex flex-col gap-2 text-xs" style={{ fontFamily: "Nunito, system-ui" }}>
+      {active && (
+        <div className="flex items-center gap-3" role="radiogroup" aria-label={t.transfer.whatToDownload}>
+          <label className="flex items-center gap-1">
+            <input type="radio" checked={!onlyActive} onChange={() => setOnlyActive(false)} /> {t.transfer.all(entries.length)}
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="radio" checked={onlyActive} onChange={() => setOnlyActive(true)} /> {t.transfer.open}
+          </label>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="opacity-70">{t.transfer.download}</span>
+        {(Object.keys(FORMATS) as Format[]).map((f) => (
+          <button key={f} type="button" disabled={selected.length === 0} onClick={() => download(f)} className={`${buttonClass} disabled:opacity-50`}>
+            {t.transfer.formats[f]}
+          </button>
+        ))}
+        <button type="button" onClick={() => fileInput.current?.click()} className={buttonClass}>
+          {t.transfer.importBackup}
+        </button>
+        <input ref={fileInput} type="file" accept=".json,application/json" onChange={importFile} className="hidden" />
+      </div>
+      {status && (
+        <p role="status" className="opacity-80">
+          {status}
+        </p>
+      )}
+    </div>
+  );
+}
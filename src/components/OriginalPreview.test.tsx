@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { en } from "../i18n/en";
+import { es } from "../i18n/es";
+import { axeViolations } from "../test/axe";
+import type { Issue } from "../types";
+import OriginalPreview from "./OriginalPreview";
+
+const TEXT = "i goed to scool yesterday and it was fun";
+const at = (quote: string) => ({ start: TEXT.indexOf(quote), end: TEXT.indexOf(quote) + quote.length, quote });
+const ISSUES: Issue[] = [
+  { type: "structure", ...at("i"), tip: "Start with a capital: I." },
+  { type: "grammar", ...at("goed"), tip: "The past of go is went." },
+  { type: "spell", ...at("scool"), tip: "school" },
+  { type: "clarity", ...at("it was fun") },
+];
+
+afterEach(cleanup);
+
+const highlights = () => screen.getAllByRole("button");
+
+describe("OriginalPreview", () => {
+  it("makes every highlight a button in text order, named by its type and words", () => {
+    render(<OriginalPreview t={en} text={TEXT} issues={ISSUES} />);
+    expect(highlights().map((b) => b.textContent)).toEqual(["¶Structure: i", "§Grammar: goed", "✎Spelling: scool", "?Clarity: it was fun"]);
+    for (const b of highlights()) expect(b.tabIndex).toBe(0);
+    expect(screen.getByRole("group", { name: "Your writing with 4 highlights" })).toBeTruthy();
+  });
+
+  it("names the highlights and the text in the locale's language", () => {
+    render(<OriginalPreview t={es} text={TEXT} issues={ISSUES} />);
+    expect(highlights()[1].textContent).toBe("§Gramática: goed");
+    expect(screen.getByRole("group", { name: "Tu texto con 4 marcas" })).toBeTruthy();
+  });
+
+  it("moves between highlights with the arrow keys, Home and End", () => {
+    render(<OriginalPreview t={en} text={TEXT} issues={ISSUES} />);
+    const [first, second, third, last] = highlights();
+    first.focus();
+    const press = (key: string) => fireEvent.keyDown(document.activeElement!, { key });
+
+    press("ArrowRight");
+    expect(document.activeElement).toBe(second);
+    press("ArrowDown");
+    expect(document.activeElement).toBe(third);
+    press("ArrowLeft");
+    expect(document.activeElement).toBe(second);
+    press("End");
+    expect(document.activeElement).toBe(last);
+    press("ArrowRight");
+    expect(document.activeElement).toBe(last); // stays at the end
+    press("Home");
+    expect(document.activeElement).toBe(first);
+    press("ArrowUp");
+    expect(document.activeElement).toBe(first);
+  });
+
+  it("describes each highlight by its tip, so it is read out on focus", () => {
+    render(<OriginalPreview t={en} text={TEXT} issues={ISSUES} />);
+    const grammar = highlights()[1];
+    const description = document.getElementById(grammar.getAttribute("aria-describedby")!);
+    expect(description?.textContent).toBe("The past of go is went.");
+  });
+
+  it("opens a popover with the type and tip, and Escape closes it with focus still on the highlight", () => {
+    render(<OriginalPreview t={en} text={TEXT} issues={ISSUES} />);
+    const grammar = highlights()[1];
+    grammar.focus();
+    fireEvent.click(grammar);
+
+    expect(grammar.getAttribute("aria-expanded")).toBe("true");
+    const popover = document.getElementById(grammar.getAttribute("aria-controls")!);
+    expect(popover?.getAttribute("role")).toBe("note");
+    expect(popover?.textContent).toContain("Grammar");
+    expect(popover?.textContent).toContain("The past of go is went.");
+
+    fireEvent.keyDown(grammar, { key: "Escape" });
+    expect(screen.queryByRole("note")).toBeNull();
+    expect(grammar.getAttribute("aria-expanded")).toBe("false");
+    expect(document.activeElement).toBe(grammar);
+  });
+
+  it("closes the popover when focus moves to another highlight", () => {
+    render(<OriginalPreview t={en} text={TEXT} issues={ISSUES} />);
+    const [first, second] = highlights();
+    first.focus();
+    fireEvent.click(first);
+    expect(screen.getByRole("note")).toBeTruthy();
+    fireEvent.keyDown(first, { key: "ArrowRight" });
+    expect(document.activeElement).toBe(second);
+    expect(screen.queryByRole("note")).toBeNull();
+  });
+
+  it("has no axe violations, closed or with a popover open", async () => {
+    const { container } = render(<OriginalPreview t={en} text={TEXT} issues={ISSUES} fixed={[]} spotlight={{ start: 0, end: 15 }} />);
+    expect(await axeViolations(container)).toEqual([]);
+    fireEvent.click(highlights()[2]);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("has no axe violations with fixed issues and without any text", async () => {
+    const fixed = render(<OriginalPreview t={en} text={TEXT} issues={ISSUES.slice(1)} fixed={ISSUES.slice(0, 1)} />);
+    expect(await axeViolations(fixed.container)).toEqual([]);
+    fixed.unmount();
+    const empty = render(<OriginalPreview t={en} text="" issues={[]} />);
+    expect(await axeViolations(empty.container)).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { useId, useRef, useState, type KeyboardEvent } from "react";
+import type { Messages } from "../i18n/messages";
+import { buildSegments, type Segment } from "../text/segments";
+import type { Issue } from "../types";
+import { FIXED_STYLE, ISSUE_STYLES } from "./issueStyles";
+
+type Span = { start: number; end: number };
+type Mark = Span & { note: string };
+
+// Neighbouring segments of the same issue (split by a spotlight cut) share one highlight
+type Run = { issue?: Issue; segments: Segment[] };
+
+/**
+ * The learner's text, unchanged, with each issue as a highlight button. Highlights follow the text
+ * order with Tab, or with the arrow keys, Home and End once one has focus. Enter or Space opens a
+ * popover with the issue's type and tip; Escape closes it. Each type has its own pattern and icon
+ * besides its colour (see issueStyles). Every piece of text carries its offset in data-start, so a
+ * selection can be mapped back to the original (teachers comment this way; see SubmissionReview).
+ */
+export default function OriginalPreview({
+  t,
+  text,
+  issues,
+  fixed = [],
+  focus,
+  spotlight,
+  marks = [],
+}: {
+  t: Messages;
+  text: string;
+  issues: Issue[];
+  fixed?: Issue[];
+  focus?: Issue;
+  spotlight?: Span | null;
+  marks?: Mark[]; // outlined, with the note as a tooltip (teacher comments)
+}) {
+  const idPrefix = useId();
+  const [open, setOpen] = useState<Issue | null>(null);
+  const buttons = useRef<HTMLButtonElement[]>([]);
+
+  if (!text) {
+    return (
+      <p className="mt-3 text-base leading-7 bg-white/70 dark:bg-neutral-900/40 border border-pink-200/60 dark:border-pink-900/40 rounded-xl p-3">
+        {t.preview.empty}
+      </p>
+    );
+  }
+
+  const runs: Run[] = [];
+  const cuts = [...(spotlight ? [spotlight.start, spotlight.end] : []), ...marks.flatMap((m) => [m.start, m.end])];
+  for (const seg of buildSegments(text, [...issues, ...fixed], cuts)) {
+    const last = runs[runs.length - 1];
+    if (last && seg.issue && last.issue === seg.issue) last.segments.push(seg);
+    else runs.push({ issue: seg.issue, segments: [seg] });
+  }
+  buttons.current = [];
+
+  function onKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+    const list = buttons.current;
+    const at = list.indexOf(e.target as HTMLButtonElement);
+    if (at < 0) return;
+    const next =
+      e.key === "ArrowRight" || e.key === "ArrowDown" ? Math.min(at + 1, list.length - 1)
+      : e.key === "ArrowLeft" || e.key === "ArrowUp" ? Math.max(at - 1, 0)
+      : e.key === "Home" ? 0
+      : e.key === "End" ? list.length - 1
+      : null;
+    if (next === null) return;
+    e.preventDefault();
+    setOpen(null);
+    list[next].focus();
+  }
+
+  const lit = (seg: Segment) => spotlight && seg.start >= spotlight.start && seg.start < spotlight.end;
+  // Where marks overlap, the later one wins
+  const markOf = (seg: Segment) => marks.filter((m) => seg.start >= m.start && seg.start < m.end).pop();
+  const segmentText = (seg: Segment, i: number) => {
+    const mark = markOf(seg);
+    const className = [
+      lit(seg) && "underline decoration-pink-600 decoration-2 underline-offset-4",
+      mark && "rounded-sm outline-2 outline-pink-500/70",
+    ].filter(Boolean).join(" ");
+    return (
+      <span key={i} data-start={seg.start} title={mark?.note} className={className || undefined}>
+        {seg.text}
+      </span>
+    );
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label={t.preview.label(issues.length)}
+      onKeyDown={onKeyDown}
+      className="mt-3 text-base leading-7 bg-white/70 dark:bg-neutral-900/40 border border-pink-200/60 dark:border-pink-900/40 rounded-xl p-3 whitespace-pre-wrap"
+    >
+      {runs.map((run, i) => {
+        const issue = run.issue;
+        if (!issue) return run.segments.map(segmentText);
+        const isFixed = fixed.includes(issue);
+        const style = isFixed ? FIXED_STYLE : ISSUE_STYLES[issue.type];
+        const label = isFixed ? t.fixed : t.issueTypes[issue.type];
+        const popoverId = `${idPrefix}-tip-${i}`;
+        const descriptionId = `${idPrefix}-desc-${i}`;
+        const isOpen = open === issue;
+        return (
+          <span key={i} className="relative">
+            <button
+              type="button"
+              ref={(el) => {
+                if (el) buttons.current.push(el);
+              }}
+              aria-expanded={isOpen}
+              aria-controls={popoverId}
+              aria-describedby={issue.tip ? descriptionId : undefined}
+              onClick={() => setOpen(isOpen ? null : issue)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape" && isOpen) {
+                  e.stopPropagation();
+                  setOpen(null);
+                }
+              }}
+              onBlur={() => setOpen((o) => (o === issue ? null : o))}
+              className={`rounded-sm px-0.5 underline-offset-4 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-600 ${style.highlight} ${
+                focus === issue ? "ring-2 ring-pink-500" : ""
+              }`}
+            >
+              <span aria-hidden className="mr-0.5 text-[0.7em] align-super font-bold opacity-80 no-underline">
+                {style.icon}
+              </span>
+              <span className="sr-only">{label}: </span>
+              {run.segments.map(segmentText)}
+            </button>
+            {/* Read out on focus, so screen reader users get the tip without opening the popover */}
+            {issue.tip && (
+              <span id={descriptionId} hidden>
+                {issue.tip}
+              </span>
+            )}
+            {isOpen && (
+              <span
+                id={popoverId}
+                role="note"
+                className="absolute left-0 top-full z-20 mt-1 w-64 max-w-[80vw] whitespace-normal rounded-xl border border-pink-300/70 dark:border-pink-800/60 bg-white dark:bg-neutral-900 p-3 text-sm shadow-lg"
+                style={{ fontFamily: "Nunito, system-ui" }}
+              >
+                <span className="block text-xs font-bold text-pink-700 dark:text-pink-300">
+                  <span aria-hidden>{style.icon} </span>
+                  {isFixed ? t.preview.fixedAs(t.issueTypes[issue.type]) : label}
+                </span>
+                <span className="block mt-1">{issue.tip ?? t.preview.noTip}</span>
+              </span>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
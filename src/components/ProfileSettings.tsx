@@ -0,0 +1,147 @@
+import { useState, type FormEvent } from "react";
+import type { Messages } from "../i18n/messages";
+import {
+  CEFR_LEVELS,
+  NATIVE_LANGUAGES,
+  PROFILE_LIMITS,
+  validateProfile,
+  type LearnerProfile,
+  type ProfileValidation,
+} from "../profile/profile";
+
+type Errors = Extract<ProfileValidation, { ok: false }>["errors"];
+
+const fieldClass =
+  "rounded-xl border border-pink-300/70 dark:border-pink-800/60 bg-white dark:bg-neutral-900 px-3 py-2 outline-none focus:ring-4 focus:ring-pink-300/40 text-sm";
+
+/** Edits a copy of the profile; nothing changes until it validates and the learner saves. */
+export default function ProfileSettings({
+  t,
+  profile,
+  onSave,
+  onClose,
+}: {
+  t: Messages;
+  profile: LearnerProfile;
+  onSave: (p: LearnerProfile) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<LearnerProfile>(profile);
+  const [errors, setErrors] = useState<Errors>({});
+
+  function submit(e: FormEvent) {
+    e.preventDefault();
+    const checked = validateProfile(draft, t.validation);
+    if (!checked.ok) {
+      setErrors(checked.errors);
+      return;
+    }
+    onSave(checked.profile);
+    onClose();
+  }
+
+  function setGoal(i: number, value: string) {
+    setDraft((d) => ({ ...d, goals: d.goals.map((g, j) => (j === i ? value : g)) }));
+  }
+
+  return (
+    <form onSubmit={submit} className="mt-3 grid sm:grid-cols-2 gap-4 text-sm" style={{ fontFamily: "Nunito, system-ui" }}>
+      <label className="flex flex-col gap-1">
+        <span className="font-semibold text-pink-700 dark:text-pink-300">{t.profile.firstLanguage}</span>
+        <select
+          value={draft.nativeLanguage}
+          onChange={(e) => setDraft({ ...draft, nativeLanguage: e.target.value as LearnerProfile["nativeLanguage"] })}
+          className={fieldClass}
+        >
+          {(Object.keys(NATIVE_LANGUAGES) as LearnerProfile["nativeLanguage"][]).map((code) => (
+            <option key={code} value={code}>{t.languages[code]}</option>
+          ))}
+        </select>
+        {errors.nativeLanguage && <FieldError text={errors.nativeLanguage} />}
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-semibold text-pink-700 dark:text-pink-300">{t.profile.targetLevel}</span>
+        <select
+          value={draft.level}
+          onChange={(e) => setDraft({ ...draft, level: e.target.value as LearnerProfile["level"] })}
+          className={fieldClass}
+        >
+          {CEFR_LEVELS.map((l) => (
+            <option key={l} value={l}>{t.levels[l]}</option>
+          ))}
+        </select>
+        {errors.level && <FieldError text={errors.level} />}
+      </label>
+
+      <label className="flex items-center gap-2 sm:col-span-2">
+        <input
+          type="checkbox"
+          checked={draft.explainInNativeLanguage === true}
+          disabled={draft.nativeLanguage === "en"}
+          onChange={(e) => setDraft({ ...draft, explainInNativeLanguage: e.target.checked })}
+        />
+        <span>
+          {t.profile.explainInFirstLanguage} <span className="text-xs opacity-70">{t.profile.explainNote}</span>
+        </span>
+      </label>
+
+      <fieldset className="flex flex-col gap-2 sm:col-span-2">
+        <legend className="font-semibold text-pink-700 dark:text-pink-300">{t.profile.goals}</legend>
+        {draft.goals.map((goal, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              value={goal}
+              onChange={(e) => setGoal(i, e.target.value)}
+              maxLength={PROFILE_LIMITS.maxGoalLength}
+              aria-label={t.profile.goal(i + 1)}
+              className={`${fieldClass} flex-1`}
+            />
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, goals: draft.goals.filter((_, j) => j !== i) })}
+              className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-xs font-semibold px-3 py-1.5"
+            >
+              {t.profile.removeGoal}
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          disabled={draft.goals.length >= PROFILE_LIMITS.maxGoals}
+          onClick={() => setDraft({ ...draft, goals: [...draft.goals, ""] })}
+          className="self-start rounded-lg border border-pink-300/70 dark:border-pink-800/60 disabled:opacity-50 text-xs font-semibold px-3 py-1.5"
+        >
+          {t.profile.addGoal}
+        </button>
+        {errors.goals && <FieldError text={errors.goals} />}
+      </fieldset>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-semibold text-pink-700 dark:text-pink-300">{t.profile.minSentences}</span>
+        <input
+          type="number"
+          min={PROFILE_LIMITS.minSentences}
+          max={PROFILE_LIMITS.maxSentences}
+          value={Number.isNaN(draft.minSentences) ? "" : draft.minSentences}
+          onChange={(e) => setDraft({ ...draft, minSentences: e.target.valueAsNumber })}
+          className={fieldClass}
+        />
+        {errors.minSentences && <FieldError text={errors.minSentences} />}
+      </label>
+
+      <div className="flex items-end justify-end gap-2">
+        <button type="button" onClick={onClose} className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-xs font-semibold px-3 py-1.5">
+          {t.profile.cancel}
+        </button>
+        <button type="submit" className="rounded-lg bg-pink-600 hover:bg-pink-700 text-white text-xs font-semibold px-3 py-1.5">
+          {t.profile.save}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function FieldError({ text }: { text: string }) {
+  return <span className="text-xs text-red-700 dark:text-red-300">{text}</span>;
+}
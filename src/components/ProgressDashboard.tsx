@@ -0,0 +1,143 @@
+import { useMemo, type ReactNode } from "react";
+import { ISSUE_TYPES_IN_ORDER, summarizeProgress, type WeekStats } from "../analytics/progress";
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import { dayKey, type JournalEntry } from "../journal/repository";
+import { ISSUE_STYLES } from "./issueStyles";
+
+const WEEKS_SHOWN = 8;
+
+/** Charts over the journal. All numbers come from analytics/progress; this file only draws them. */
+export default function ProgressDashboard({ t, locale, entries }: { t: Messages; locale: UiLocale; entries: JournalEntry[] }) {
+  const summary = useMemo(() => summarizeProgress(entries, dayKey(new Date())), [entries]);
+  const weeks = summary.weeks.slice(-WEEKS_SHOWN);
+
+  if (summary.totalEntries === 0) {
+    return (
+      <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>
+        {t.progress.empty}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 grid gap-5" style={{ fontFamily: "Nunito, system-ui" }}>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatTile label={t.progress.streak} value={summary.streak.current} />
+        <StatTile label={t.progress.longestStreak} value={summary.streak.longest} />
+        <StatTile label={t.progress.reflections} value={summary.totalEntries} />
+        <StatTile label={t.progress.wordsWritten} value={summary.totalWords} />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-5">
+        <ChartCard title={t.progress.words} caption={t.progress.wordsCaption}>
+          <WeekBars locale={locale} weeks={weeks} value={(w) => w.avgWords} />
+        </ChartCard>
+        <ChartCard title={t.progress.sentences} caption={t.progress.sentencesCaption}>
+          <WeekBars locale={locale} weeks={weeks} value={(w) => w.avgSentences} />
+        </ChartCard>
+        <ChartCard title={t.progress.highlights} caption={t.progress.highlightsCaption}>
+          <IssueBars t={t} locale={locale} weeks={weeks} />
+        </ChartCard>
+        <ChartCard title={t.progress.themes} caption={t.progress.themesCaption}>
+          {summary.themes.length === 0 ? (
+            <p className="text-sm opacity-80">{t.progress.noThemes}</p>
+          ) : (
+            <ul className="grid gap-1.5 text-sm">
+              {summary.themes.slice(0, 5).map((theme) => (
+                <li key={theme.title} className="flex items-center justify-between gap-3">
+                  <span>{theme.title}</span>
+                  <span className="shrink-0 rounded-full bg-pink-100 dark:bg-pink-900/50 text-pink-700 dark:text-pink-300 text-xs font-bold px-2 py-0.5">
+                    ×{theme.count}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
+
+function StatTile({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3">
+      <p className="text-2xl font-extrabold text-pink-700 dark:text-pink-300" style={{ fontFamily: "Baloo 2, system-ui" }}>{value}</p>
+      <p className="text-xs opacity-70">{label}</p>
+    </div>
+  );
+}
+
+function ChartCard({ title, caption, children }: { title: string; caption: string; children: ReactNode }) {
+  return (
+    <figure className="rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3">
+      <figcaption>
+        <p className="text-sm font-bold">{title}</p>
+        <p className="text-xs opacity-70">{caption}</p>
+      </figcaption>
+      <div className="mt-3">{children}</div>
+    </figure>
+  );
+}
+
+function WeekBars({ locale, weeks, value }: { locale: UiLocale; weeks: WeekStats[]; value: (w: WeekStats) => number }) {
+  const max = Math.max(1, ...weeks.map(value));
+  return (
+    <div className="flex items-end gap-2 h-28">
+      {weeks.map((w) => (
+        <div key={w.weekStart} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+          <span className="text-[10px] opacity-70">{value(w)}</span>
+          <div className="w-full rounded-t bg-pink-500" style={{ height: `${(value(w) / max) * 100}%` }} />
+          <span className="text-[10px] opacity-70">{weekLabel(w.weekStart, locale)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function IssueBars({ t, locale, weeks }: { t: Messages; locale: UiLocale; weeks: WeekStats[] }) {
+  const max = Math.max(1, ...weeks.map((w) => w.issuesPer100Words));
+  return (
+    <div>
+      <div className="flex items-end gap-2 h-28">
+        {weeks.map((w) => {
+          const total = ISSUE_TYPES_IN_ORDER.reduce((n, type) => n + w.issues[type], 0);
+          const breakdown = ISSUE_TYPES_IN_ORDER.map((type) => `${t.issueTypes[type]}: ${w.issues[type]}`).join(", ");
+          return (
+            <div key={w.weekStart} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+              <span className="text-[10px] opacity-70">{w.issuesPer100Words}</span>
+              <div
+                role="img"
+                aria-label={breakdown}
+                className="w-full flex flex-col-reverse rounded-t overflow-hidden"
+                style={{ height: `${(w.issuesPer100Words / max) * 100}%` }}
+              >
+                {total > 0 &&
+                  ISSUE_TYPES_IN_ORDER.map((type) => (
+                    <div key={type} className={ISSUE_STYLES[type].fill} style={{ height: `${(w.issues[type] / total) * 100}%` }} title={`${t.issueTypes[type]}: ${w.issues[type]}`} />
+                  ))}
+              </div>
+              <span className="text-[10px] opacity-70">{weekLabel(w.weekStart, locale)}</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-2 flex flex-wrap gap-3 text-xs">
+        {ISSUE_TYPES_IN_ORDER.map((type) => (
+          <span key={type} className="inline-flex items-center gap-1">
+            <span aria-hidden className={`inline-flex h-4 min-w-4 items-center justify-center rounded-sm px-0.5 text-[10px] font-bold ${ISSUE_STYLES[type].fill}`}>
+              {ISSUE_STYLES[type].icon}
+            </span>
+            {t.issueTypes[type]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function weekLabel(weekStart: string, locale: UiLocale) {
+  const [y, m, d] = weekStart.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(locale, { month: "short", day: "numeric" });
+}
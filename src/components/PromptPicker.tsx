@@ -0,0 +1,43 @@
+import type { Messages } from "../i18n/messages";
+import type { ActivePrompt } from "../prompts/usePrompt";
+
+const chipClass = "rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-pink-700 dark:text-pink-300 font-semibold px-2.5 py-1 disabled:opacity-50";
+
+/** Controls under the prompt: which kind it is, another prompt from the rotation, or a follow-up on last time. */
+export default function PromptPicker({
+  t,
+  prompt,
+  canFollowUp,
+  loadingFollowUp,
+  onAnother,
+  onFollowUp,
+  onBackToDaily,
+}: {
+  t: Messages;
+  prompt: ActivePrompt;
+  canFollowUp: boolean;
+  loadingFollowUp: boolean;
+  onAnother: () => void;
+  onFollowUp: () => void;
+  onBackToDaily: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs" style={{ fontFamily: "Nunito, system-ui" }}>
+      <span className="opacity-70">{prompt.kind === "daily" ? t.promptPicker.daily(prompt.theme) : t.promptPicker.followingUp}</span>
+      <button type="button" onClick={onAnother} className={chipClass}>
+        {t.promptPicker.another}
+      </button>
+      {prompt.kind === "followUp" ? (
+        <button type="button" onClick={onBackToDaily} className={chipClass}>
+          {t.promptPicker.backToDaily}
+        </button>
+      ) : (
+        canFollowUp && (
+          <button type="button" onClick={onFollowUp} disabled={loadingFollowUp} className={chipClass}>
+            {loadingFollowUp ? t.promptPicker.writingFollowUp : t.promptPicker.followUp}
+          </button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useMemo, useState } from "react";
+import type { Messages } from "../i18n/messages";
+import type { Draft } from "../journal/repository";
+import { compareDrafts } from "../journal/revision";
+import type { Issue } from "../types";
+
+/**
+ * Compares each draft of a reflection with the one before it: a word diff, and which highlighted
+ * issues were fixed, are still there, or are new. Starts on the latest draft.
+ */
+export default function RevisionHistory({ t, drafts }: { t: Messages; drafts: Draft[] }) {
+  const [selected, setSelected] = useState(drafts.length - 1);
+  const before = drafts[selected - 1];
+  const after = drafts[selected];
+  const revision = useMemo(() => (before && after ? compareDrafts(before, after) : null), [before, after]);
+  if (!revision) return null;
+  const { resolved, persisting, added } = revision.issues;
+
+  return (
+    <div className="mt-3 flex flex-col gap-3 text-sm" style={{ fontFamily: "Nunito, system-ui" }}>
+      <div className="flex flex-wrap gap-2" role="group" aria-label={t.revisions.chooseDraft}>
+        {drafts.slice(1).map((d, i) => (
+          <button
+            key={d.createdAt}
+            type="button"
+            aria-pressed={selected === i + 1}
+            onClick={() => setSelected(i + 1)}
+            className={`rounded-full px-3 py-1 text-xs font-semibold border ${
+              selected === i + 1 ? "bg-pink-600 text-white border-pink-600" : "border-pink-300/70 dark:border-pink-800/60"
+            }`}
+          >
+            {t.revisions.draftPair(i + 1, i + 2)}
+          </button>
+        ))}
+      </div>
+
+      <p className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        <span className="text-green-700 dark:text-green-400 font-semibold">{t.revisions.fixedCount(resolved.length)}</span>
+        <span className="text-yellow-700 dark:text-yellow-400 font-semibold">{t.revisions.stillThereCount(persisting.length)}</span>
+        <span className="text-pink-700 dark:text-pink-300 font-semibold">{t.revisions.newCount(added.length)}</span>
+      </p>
+
+      <p className="text-base leading-7 whitespace-pre-wrap bg-white/70 dark:bg-neutral-900/40 border border-pink-200/60 dark:border-pink-900/40 rounded-xl p-3">
+        {revision.diff.map((part, i) =>
+          part.op === "same" ? (
+            <span key={i}>{part.text}</span>
+          ) : part.op === "added" ? (
+            <ins key={i} className="no-underline bg-green-200/70 dark:bg-green-800/40 rounded-sm">{part.text}</ins>
+          ) : (
+            <del key={i} className="bg-red-200/60 dark:bg-red-800/30 rounded-sm opacity-80">{part.text}</del>
+          )
+        )}
+      </p>
+
+      <IssueList title={t.revisions.fixed} issues={resolved} text={before.text} />
+      <IssueList title={t.revisions.stillThere} issues={persisting.map((p) => p.after)} text={after.text} />
+      <IssueList title={t.revisions.new} issues={added} text={after.text} />
+    </div>
+  );
+}
+
+function IssueList({ title, issues, text }: { title: string; issues: Issue[]; text: string }) {
+  if (issues.length === 0) return null;
+  return (
+    <div>
+      <p className="text-xs font-semibold opacity-80">{title}</p>
+      <ul className="mt-1 flex flex-wrap gap-2 text-xs">
+        {issues.map((it, i) => (
+          <li key={i} className="rounded-lg border border-pink-200/70 dark:border-pink-800/50 px-2 py-0.5" title={it.tip}>
+            “{text.slice(it.start, it.end)}”
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { addComment, listSubmissions } from "../classroom/api";
+import { CLASSROOM_LIMITS, type Submission } from "../classroom/classroom";
+import type { TaughtAssignment } from "../classroom/useClassroom";
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import HighlightLegend from "./HighlightLegend";
+import OriginalPreview from "./OriginalPreview";
+
+/**
+ * A teacher's view of one assignment: each submission with the feedback the student saw, highlights
+ * included. Selecting words in a submission opens a comment box anchored to that span.
+ */
+export default function SubmissionReview({ t, locale, taught, onClose }: { t: Messages; locale: UiLocale; taught: TaughtAssignment; onClose: () => void }) {
+  const [submissions, setSubmissions] = useState<Submission[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { assignment, teacherKey } = taught;
+
+  useEffect(() => {
+    let cancelled = false;
+    listSubmissions(assignment.id, teacherKey)
+      .then((r) => !cancelled && setSubmissions(r.submissions))
+      .catch((err: unknown) => !cancelled && setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [assignment.id, teacherKey]);
+
+  function replace(updated: Submission) {
+    setSubmissions((list) => list?.map((s) => (s.id === updated.id ? updated : s)) ?? null);
+  }
+
+  return (
+    <div className="mt-3 flex flex-col gap-4 text-sm" style={{ fontFamily: "Nunito, system-ui" }}>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-semibold">
+            {assignment.title} <span className="ml-1 font-mono text-xs opacity-70">{assignment.code}</span>
+          </p>
+          <p className="opacity-80">{assignment.prompt}</p>
+        </div>
+        <button type="button" onClick={onClose} className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-xs font-semibold px-3 py-1.5 shrink-0">
+          {t.review.back}
+        </button>
+      </div>
+      {error && <p className="text-yellow-900 bg-yellow-100/80 border border-yellow-300 rounded-xl px-3 py-2">{error}</p>}
+      {!error && submissions === null && <p className="animate-pulse opacity-70">{t.review.loading}</p>}
+      {submissions?.length === 0 && <p className="opacity-80">{t.review.none(assignment.code)}</p>}
+      {submissions?.map((s) => (
+        <SubmissionCard key={s.id} t={t} locale={locale} submission={s} teacherKey={teacherKey} onUpdated={replace} />
+      ))}
+    </div>
+  );
+}
+
+function SubmissionCard({
+  t,
+  locale,
+  submission,
+  teacherKey,
+  onUpdated,
+}: {
+  t: Messages;
+  locale: UiLocale;
+  submission: Submission;
+  teacherKey: string;
+  onUpdated: (s: Submission) => void;
+}) {
+  const textRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [body, setBody] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { result } = submission;
+
+  // Character offsets of the selection within the submission text, read from the preview's data-start
+  // attributes (the highlight icons and screen-reader labels are not part of the text)
+  function captureSelection() {
+    const sel = window.getSelection();
+    const root = textRef.current;
+    if (!sel || sel.isCollapsed || !root || sel.rangeCount === 0) return;
+    const range = sel.getRangeAt(0);
+    const start = textOffset(root, range.startContainer, range.startOffset);
+    const end = textOffset(root, range.endContainer, range.endOffset);
+    if (start !== null && end !== null && end > start) setSelection({ start, end });
+  }
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    if (!selection) return;
+    setBusy(true);
+    setError(null);
+    try {
+      onUpdated(await addComment({ assignmentId: submission.assignmentId, submissionId: submission.id, ...selection, body }, teacherKey));
+      setSelection(null);
+      setBody("");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <article className="rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3 flex flex-col gap-3">
+      <header className="flex items-center justify-between text-xs">
+        <span className="font-semibold text-sm">{submission.studentName}</span>
+        <span className="opacity-70">{new Date(submission.submittedAt).toLocaleString(locale, { dateStyle: "medium", timeStyle: "short" })}</span>
+      </header>
+
+      <div ref={textRef} onMouseUp={captureSelection} onKeyUp={captureSelection}>
+        <OriginalPreview
+          t={t}
+          text={submission.text}
+          issues={result.issues}
+          marks={submission.comments.map((c) => ({ start: c.start, end: c.end, note: c.body }))}
+        />
+        {result.issues.length > 0 && <HighlightLegend t={t} />}
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-3 text-xs">
+        <div>
+          <p className="font-semibold opacity-80">{t.review.feedbackSeen}</p>
+          <ul className="mt-1 list-disc pl-4">
+            {result.topTips.map((tip, i) => (
+              <li key={i}>{tip.title}</li>
+            ))}
+            {result.topTips.length === 0 && <li>{t.review.noFixes}</li>}
+          </ul>
+        </div>
+        {result.goals && (
+          <div>
+            <p className="font-semibold opacity-80">{t.review.goals}</p>
+            <ul className="mt-1">
+              {result.goals.map((g, i) => (
+                <li key={i}>
+                  {g.status === "covered" ? "✓" : g.status === "partial" ? "◐" : "○"} {g.goal}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {submission.comments.length > 0 && (
+        <ul className="grid gap-1 text-xs">
+          {submission.comments.map((c) => (
+            <li key={c.id}>
+              <em className="not-italic font-semibold">“{c.quote}”</em> — {c.body}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selection ? (
+        <form onSubmit={submit} className="flex flex-col gap-2">
+          <p className="text-xs">
+            {t.review.commentOn} <strong>“{submission.text.slice(selection.start, selection.end)}”</strong>
+          </p>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={CLASSROOM_LIMITS.maxCommentLength}
+            rows={2}
+            autoFocus
+            className="rounded-xl border border-pink-300/70 dark:border-pink-800/60 bg-white dark:bg-neutral-900 px-3 py-2 outline-none focus:ring-4 focus:ring-pink-300/40 text-sm"
+          />
+          {error && <span className="text-xs text-red-700 dark:text-red-300">{error}</span>}
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy || !body.trim()} className="rounded-lg bg-pink-600 hover:bg-pink-700 disabled:bg-pink-400 text-white text-xs font-semibold px-3 py-1.5">
+              {busy ? t.review.saving : t.review.addComment}
+            </button>
+            <button type="button" onClick={() => setSelection(null)} className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-xs font-semibold px-3 py-1.5">
+              {t.review.cancel}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-xs opacity-70">{t.review.selectToComment}</p>
+      )}
+    </article>
+  );
+}
+
+/** Offset in the original text of a selection boundary inside `root`, or null when it is not in the text itself. */
+function textOffset(root: HTMLElement, node: Node, offset: number): number | null {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const piece = node.parentElement?.closest<HTMLElement>("[data-start]");
+    return piece && root.contains(piece) ? Number(piece.dataset.start) + offset : null;
+  }
+  // Between children of an element (a triple click, or a drag past the end): the next piece's start, or the end of the last one
+  if (!(node instanceof Element) || !root.contains(node)) return null;
+  const pieces = [...node.querySelectorAll<HTMLElement>("[data-start]")];
+  const next = pieces.find((p) => node.childNodes[offset]?.contains(p));
+  if (next) return Number(next.dataset.start);
+  const last = pieces.filter((p) => node.childNodes[offset - 1]?.contains(p)).pop();
+  return last ? Number(last.dataset.start) + (last.textContent ?? "").length : null;
+}
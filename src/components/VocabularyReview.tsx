@@ -0,0 +1,122 @@
+import { useState, type FormEvent } from "react";
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import { dueItems, type Grade, type VocabItem } from "../vocabulary/bank";
+
+const GRADES: { grade: Grade; name: keyof Messages["vocabulary"]["grades"] }[] = [
+  { grade: 1, name: "again" },
+  { grade: 3, name: "hard" },
+  { grade: 4, name: "good" },
+  { grade: 5, name: "easy" },
+];
+
+const fieldClass =
+  "rounded-xl border border-pink-300/70 dark:border-pink-800/60 bg-white dark:bg-neutral-900 px-3 py-2 outline-none focus:ring-4 focus:ring-pink-300/40 text-sm";
+
+/**
+ * Review cards for the vocabulary bank: the learner sees the word as they wrote it, types the
+ * correct form, then says how well they knew it. The grade sets the next review (SM-2).
+ */
+export default function VocabularyReview({
+  t,
+  locale,
+  items,
+  onGrade,
+}: {
+  t: Messages;
+  locale: UiLocale;
+  items: VocabItem[];
+  onGrade: (item: VocabItem, grade: Grade) => void;
+}) {
+  const due = dueItems(items);
+  const card = due[0];
+
+  if (items.length === 0) {
+    return (
+      <p className="mt-2 text-sm opacity-80" style={{ fontFamily: "Nunito, system-ui" }}>
+        {t.vocabulary.empty}
+      </p>
+    );
+  }
+
+  const bank = [...items].sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen));
+
+  return (
+    <div className="mt-3 grid md:grid-cols-2 gap-6 text-sm" style={{ fontFamily: "Nunito, system-ui" }}>
+      <div>
+        <h3 className="font-semibold text-pink-700 dark:text-pink-300">
+          {due.length > 0 ? t.vocabulary.due(due.length) : t.vocabulary.allCaughtUp}
+        </h3>
+        {card ? (
+          // Keyed by word and due time so each card starts blank
+          <ReviewCard key={`${card.id}:${card.review.due}`} t={t} item={card} onGrade={(g) => onGrade(card, g)} />
+        ) : (
+          <p className="mt-2 opacity-80">{t.vocabulary.nothingDue}</p>
+        )}
+      </div>
+      <div>
+        <h3 className="font-semibold text-pink-700 dark:text-pink-300">{t.vocabulary.troubleWords}</h3>
+        <ul className="mt-2 grid gap-1">
+          {bank.map((it) => (
+            <li key={it.id} className="flex items-center justify-between gap-2 rounded-lg border border-pink-200/70 dark:border-pink-800/50 px-3 py-1.5">
+              <span>
+                <s className="opacity-60">{it.wrong}</s> → <strong>{it.right}</strong>
+              </span>
+              <span className="text-xs opacity-70">
+                {it.count}× • {t.vocabulary.next(new Date(it.review.due).toLocaleDateString(locale, { month: "short", day: "numeric" }))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+function ReviewCard({ t, item, onGrade }: { t: Messages; item: VocabItem; onGrade: (grade: Grade) => void }) {
+  const [answer, setAnswer] = useState("");
+  const [revealed, setRevealed] = useState(false);
+  const correct = answer.trim().toLowerCase() === item.right.toLowerCase();
+
+  function check(e: FormEvent) {
+    e.preventDefault();
+    setRevealed(true);
+  }
+
+  return (
+    <form onSubmit={check} className="mt-2 rounded-xl border border-pink-200/70 dark:border-pink-800/50 bg-white/80 dark:bg-neutral-900/60 p-3 flex flex-col gap-2">
+      <p className="text-xs opacity-70">
+        {item.kind === "spelling" ? t.vocabulary.spelledLike : t.vocabulary.usedInstead}
+      </p>
+      <p className="text-lg font-bold">{item.wrong}</p>
+      <label className="flex flex-col gap-1">
+        <span className="text-xs font-semibold">{item.kind === "spelling" ? t.vocabulary.typeCorrectly : t.vocabulary.typeBetter}</span>
+        <input value={answer} onChange={(e) => setAnswer(e.target.value)} readOnly={revealed} autoFocus className={fieldClass} />
+      </label>
+      {!revealed ? (
+        <button type="submit" className="self-start rounded-lg bg-pink-600 hover:bg-pink-700 text-white text-xs font-semibold px-3 py-1.5">
+          {t.vocabulary.check}
+        </button>
+      ) : (
+        <>
+          <p role="status" className={correct ? "text-green-700 dark:text-green-400" : "text-pink-700 dark:text-pink-300"}>
+            {correct ? t.vocabulary.right : t.vocabulary.wrong} <strong>{item.right}</strong>.
+          </p>
+          <div className="flex flex-wrap gap-2" role="group" aria-label={t.vocabulary.howWell}>
+            {GRADES.filter((g) => correct || g.grade < 3).map((g) => (
+              <button
+                key={g.grade}
+                type="button"
+                title={t.vocabulary.grades[g.name].hint}
+                onClick={() => onGrade(g.grade)}
+                className="rounded-lg border border-pink-300/70 dark:border-pink-800/60 text-pink-700 dark:text-pink-300 text-xs font-semibold px-3 py-1"
+              >
+                {t.vocabulary.grades[g.name].label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </form>
+  );
+}
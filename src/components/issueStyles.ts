@@ -0,0 +1,42 @@
+import type { IssueType } from "../types";
+
+// How each IssueType looks wherever it is highlighted or charted. Colour is never the only signal: every
+// type also has its own pattern and icon, so the four stay apart without colour vision. Names come from
+// the locale's catalog (Messages.issueTypes and Messages.fixed).
+
+export type IssueStyle = {
+  icon: string;      // shown before the highlight and in the legend; hidden from screen readers
+  highlight: string; // background colour and underline pattern, for text
+  fill: string;      // colour and matching fill pattern, for areas (chart bars, swatches)
+};
+
+export const ISSUE_STYLES: Record<IssueType, IssueStyle> = {
+  spell: {
+    icon: "✎",
+    highlight: "bg-yellow-200/80 dark:bg-yellow-700/40 underline decoration-wavy decoration-yellow-700 dark:decoration-yellow-300",
+    fill: "bg-yellow-400 dark:bg-yellow-600 bg-[image:repeating-linear-gradient(45deg,transparent_0_3px,rgb(0_0_0/0.3)_3px_4px)]",
+  },
+  grammar: {
+    icon: "§",
+    highlight: "bg-blue-200/70 dark:bg-blue-800/40 underline decoration-double decoration-blue-700 dark:decoration-blue-300",
+    fill: "bg-blue-400 dark:bg-blue-600 bg-[image:repeating-linear-gradient(0deg,transparent_0_2px,rgb(0_0_0/0.3)_2px_3px)]",
+  },
+  clarity: {
+    icon: "?",
+    highlight: "bg-purple-200/70 dark:bg-purple-800/40 underline decoration-dotted decoration-2 decoration-purple-700 dark:decoration-purple-300",
+    fill: "bg-purple-400 dark:bg-purple-600 bg-[image:radial-gradient(rgb(0_0_0/0.35)_1px,transparent_1.5px)] bg-[size:4px_4px]",
+  },
+  structure: {
+    icon: "¶",
+    highlight: "bg-red-200/70 dark:bg-red-800/40 underline decoration-dashed decoration-red-700 dark:decoration-red-300",
+    fill: "bg-red-400 dark:bg-red-600 bg-[image:repeating-linear-gradient(90deg,transparent_0_3px,rgb(0_0_0/0.3)_3px_5px)]",
+  },
+};
+
+export const FIXED_STYLE: IssueStyle = {
+  icon: "✓",
+  highlight: "bg-green-200/70 dark:bg-green-800/40",
+  fill: "bg-green-400 dark:bg-green-600",
+};
+
+export const ISSUE_TYPES_SHOWN: IssueType[] = ["spell", "grammar", "clarity", "structure"];
@@ -0,0 +1,77 @@
+import type { GoalCoverage, GoalStatus } from "../types";
+import type { Span } from "../text/tokenizer";
+
+/**
+ * Rule-based goal coverage for the local evaluator. The three default goals have their own
+ * detectors; any other goal falls back to matching its content words. Each goal is scored by
+ * its best sentence: a strong signal means "covered", a weaker one "partial".
+ */
+
+type Detector = (sentence: string) => GoalStatus;
+
+const TIME_WORDS = /\b(?:today|this (?:morning|afternoon|evening)|tonight|earlier|at (?:work|school|home|lunch)|after (?:work|school|lunch|dinner)|in the (?:morning|afternoon|evening))\b/i;
+const PAST_VERBS = /\b(?:was|were|went|had|did|made|got|saw|met|ate|took|came|left|gave|found|told|said|spent|bought|read|wrote|thought|felt|slept|woke|ran|drove|\w{3,}ed)\b/i;
+
+const EMOTIONS = new Set([
+  "happy", "sad", "tired", "angry", "excited", "nervous", "proud", "worried", "stressed", "calm", "glad",
+  "relieved", "frustrated", "lonely", "bored", "anxious", "upset", "grateful", "thankful", "scared", "afraid",
+  "disappointed", "embarrassed", "confident", "hopeful", "exhausted", "overwhelmed", "relaxed", "surprised",
+  "annoyed", "confused", "curious", "peaceful", "jealous", "homesick", "satisfied", "cheerful", "miserable",
+]);
+const VAGUE_FEELINGS = /\b(?:good|bad|fine|ok|okay|great|nice|terrible|awful)\b/i;
+const FEELING_VERBS = /\b(?:feel|feels|felt|feeling|mood|emotion)\b/i;
+
+const FUTURE = /\b(?:will|going to|plan to|planning to|want to|need to|hope to|try to|am gonna)\b|['’]ll\b/i;
+const FIRST_PERSON = /\b(?:I|[Ww]e)\b/;
+const LATER = /\b(?:tomorrow|next|later|soon|tonight|this weekend|should)\b/i;
+
+const detectDay: Detector = (s) => (PAST_VERBS.test(s) ? (TIME_WORDS.test(s) ? "covered" : "partial") : "missing");
+
+const detectFeelings: Detector = (s) => {
+  const words = s.toLowerCase().match(/[a-z]+/g) ?? [];
+  if (words.some((w) => EMOTIONS.has(w))) return "covered";
+  return FEELING_VERBS.test(s) || VAGUE_FEELINGS.test(s) ? "partial" : "missing";
+};
+
+const detectNextAction: Detector = (s) => {
+  if (FUTURE.test(s) && FIRST_PERSON.test(s)) return LATER.test(s) || /\bwill\b|['’]ll\b/i.test(s) ? "covered" : "partial";
+  return LATER.test(s) ? "partial" : "missing";
+};
+
+// Matched against the goal's wording, so "describe my feelings" and "feelings" share a detector
+const DETECTORS: [RegExp, Detector][] = [
+  [/\b(?:feel|feeling|feelings|emotion|emotions|mood)\b/i, detectFeelings],
+  [/\b(?:next|action|plan|plans|tomorrow|future)\b/i, detectNextAction],
+  [/\b(?:day|happened|events?)\b/i, detectDay],
+];
+
+const STOP_WORDS = new Set(["a", "an", "the", "my", "me", "i", "to", "of", "and", "or", "about", "what", "how", "one", "something", "tell", "write", "describe", "say", "mention"]);
+
+function keywordDetector(goal: string): Detector {
+  const keys = (goal.toLowerCase().match(/[a-z]+/g) ?? []).filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+  return (s) => {
+    if (keys.length === 0) return "missing";
+    const words = s.toLowerCase().match(/[a-z]+/g) ?? [];
+    // Prefix match so "cook" finds "cooked" and "cooking"
+    const hits = keys.filter((k) => words.some((w) => w.startsWith(k.slice(0, Math.max(4, k.length - 2)))));
+    if (hits.length === keys.length) return "covered";
+    return hits.length > 0 ? "partial" : "missing";
+  };
+}
+
+const RANK: Record<GoalStatus, number> = { missing: 0, partial: 1, covered: 2 };
+
+export function assessGoals(text: string, sentences: Span[], goals: string[]): GoalCoverage[] {
+  return goals.map((goal) => {
+    const detect = DETECTORS.find(([re]) => re.test(goal))?.[1] ?? keywordDetector(goal);
+    let best: { status: GoalStatus; span?: Span } = { status: "missing" };
+    for (const span of sentences) {
+      const status = detect(text.slice(span.start, span.end));
+      if (RANK[status] > RANK[best.status]) best = { status, span };
+      if (best.status === "covered") break;
+    }
+    if (!best.span) return { goal, status: best.status };
+    const { start, end } = best.span;
+    return { goal, status: best.status, start, end, quote: text.slice(start, end) };
+  });
+}
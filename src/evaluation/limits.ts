@@ -0,0 +1,25 @@
+import { countWords } from "../text/tokenizer";
+import type { EvaluationErrorCode } from "./provider";
+
+// Checked by /api/evaluate and /api/submit, and by the UI before it lets the learner submit.
+
+export const EVALUATION_LIMITS = {
+  maxChars: 4000,
+  maxWords: 600,
+  maxPromptChars: 500, // the question being answered; matches CLASSROOM_LIMITS.maxPromptLength
+  maxBodyBytes: 32 * 1024,
+};
+
+// Every UI locale (src/i18n/locales.ts), so the interface language reaches the evaluator
+export const SUPPORTED_LOCALES = ["en", "es"] as const;
+
+/** The first limit `text` breaks, or null. */
+export function checkTextLimits(text: string): EvaluationErrorCode | null {
+  if (text.length > EVALUATION_LIMITS.maxChars) return "text_too_long";
+  if (countWords(text) > EVALUATION_LIMITS.maxWords) return "too_many_words";
+  return null;
+}
+
+export function isSupportedLocale(locale: unknown): locale is (typeof SUPPORTED_LOCALES)[number] {
+  return SUPPORTED_LOCALES.includes(locale as (typeof SUPPORTED_LOCALES)[number]);
+}
@@ -0,0 +1,134 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Issue } from "../types";
+import { evaluateLocally } from "./localEvaluator";
+import { loadDictionary, type Dictionary } from "./wordlist";
+
+let dict: Dictionary;
+beforeAll(async () => {
+  dict = await loadDictionary();
+});
+
+function flagged(text: string, type?: Issue["type"]) {
+  return evaluateLocally(text, dict)
+    .issues.filter((i) => !type || i.type === type)
+    .map((i) => ({ type: i.type, quote: text.slice(i.start, i.end), tip: i.tip }));
+}
+
+describe("spelling", () => {
+  it.each([
+    ["a common learner misspelling", "I was late becuase of the rain.", "becuase", "because"],
+    ["a word close to an everyday one", "I went to scool today.", "scool", "school"],
+    ["a long word two edits away", "The lesson was very intresting today.", "intresting", "interesting"],
+    ["a regular ending on an irregular verb", "I goed home early.", "goed", "went"],
+    ["a missing apostrophe", "I think it dont matter.", "dont", "don't"],
+  ])("flags %s", (_name, text, quote, fix) => {
+    expect(flagged(text, "spell")).toEqual([{ type: "spell", quote, tip: `Spelling: ‘${fix}’.` }]);
+  });
+
+  it("keeps the capital of a misspelled first word", () => {
+    expect(flagged("Teh bus was late.", "spell")).toEqual([{ type: "spell", quote: "Teh", tip: "Spelling: ‘The’." }]);
+  });
+
+  it.each([
+    ["short words it cannot guess from", "We ate pho and my bro said yum."],
+    ["inflected forms of known words", "She stopped running and studied the tallest buildings."],
+    ["contractions and informal words", "I'm sure they'll text me on my smartphone."],
+    ["less common but valid words", "The condo had a decal on the door."],
+    ["names mid-sentence", "Then I met Priyanka and Oskar at the station."],
+    ["numbers", "I slept 8h and woke at 7am."],
+    ["words with no close match", "We played quidditch after lunch."],
+  ])("leaves alone %s", (_name, text) => {
+    expect(flagged(text, "spell")).toEqual([]);
+  });
+});
+
+describe("the pronoun I", () => {
+  it("flags a lowercase i, alone or in a contraction", () => {
+    expect(flagged("Today i went out and i'm tired.", "grammar")).toEqual([
+      { type: "grammar", quote: "i", tip: "Capitalize ‘I’." },
+      { type: "grammar", quote: "i", tip: "Capitalize ‘I’." },
+    ]);
+  });
+
+  it("does not flag an i inside a word or a sentence-start i twice", () => {
+    expect(flagged("i like it. It is a mini bus.", "grammar")).toEqual([{ type: "grammar", quote: "i", tip: "Capitalize ‘I’." }]);
+  });
+});
+
+describe("sentence starts and breaks", () => {
+  it("flags a sentence that starts lowercase", () => {
+    expect(flagged("I woke up. then I ate.", "grammar")).toEqual([{ type: "grammar", quote: "t", tip: "Start each sentence with a capital letter." }]);
+  });
+
+  it("flags a new sentence with no full stop before it", () => {
+    expect(flagged("I went to class Then I went home.", "structure")).toEqual([
+      { type: "structure", quote: "class Then", tip: "Add a full stop before the new sentence." },
+    ]);
+  });
+
+  it("does not take a capitalized name for a new sentence", () => {
+    expect(flagged("I went to class with Maria.", "structure")).toEqual([]);
+  });
+});
+
+describe("run-on sentences", () => {
+  const long = `I ${"really ".repeat(30)}liked it.`;
+  const chained = "I went to the shop and I bought some bread and then I walked home so I was tired but happy.";
+
+  it.each([
+    ["more than thirty words", long],
+    ["a long sentence chained with and, so and but", chained],
+  ])("flags %s", (_name, text) => {
+    expect(flagged(text, "clarity")).toEqual([{ type: "clarity", quote: text, tip: "This sentence is long. Split it into two or three." }]);
+  });
+
+  it("leaves a short sentence with a few joins alone", () => {
+    expect(flagged("I ate and drank and then slept.", "clarity")).toEqual([]);
+  });
+});
+
+describe("end punctuation", () => {
+  it("flags a text with no closing punctuation", () => {
+    expect(flagged("I went home", "structure")).toEqual([{ type: "structure", quote: "home", tip: "End with a full stop." }]);
+  });
+
+  it.each(["I went home.", "Did I go home?", "I went home!", "She said “I went home.”", "I went home.  \n"])("accepts %j", (text) => {
+    expect(flagged(text, "structure")).toEqual([]);
+  });
+});
+
+describe("evaluateLocally", () => {
+  it("finds nothing in a clean text", () => {
+    const result = evaluateLocally("Today I went to school. I was nervous but happy.", dict);
+    expect(result.issues).toEqual([]);
+    expect(result.topTips).toEqual([]);
+    expect(result.example).toBeUndefined();
+  });
+
+  it("sorts issues by position and builds at most three tips with examples", () => {
+    const text = "today i went to scool Then i was tired";
+    const result = evaluateLocally(text, dict);
+    const starts = result.issues.map((i) => i.start);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    expect(result.topTips.map((t) => t.title)).toEqual([
+      "Add clear sentence breaks",
+      "Write ‘I’ as a capital letter",
+      "Check the spelling of a few words",
+    ]);
+    expect(result.topTips[2].examples).toEqual([{ before: "went to scool Then i", after: "went to school Then i" }]);
+  });
+
+  it("shows the first fixable sentence with every fix in bold", () => {
+    const { example } = evaluateLocally("I went to scool and i was late.", dict);
+    expect(example).toEqual({
+      before: "I went to scool and i was late.",
+      afterParts: [{ text: "I went to " }, { text: "school", bold: true }, { text: " and " }, { text: "I", bold: true }, { text: " was late." }],
+    });
+  });
+
+  it("adds a tip for a goal the text skips", () => {
+    const { goals, topTips } = evaluateLocally("Today I went to school.", dict, ["feelings"]);
+    expect(goals).toEqual([{ goal: "feelings", status: "missing" }]);
+    expect(topTips.map((t) => t.title)).toEqual(["Add a sentence for ‘feelings’"]);
+  });
+});
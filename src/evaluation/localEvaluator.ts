@@ -0,0 +1,319 @@
+import type { EvalResult, ExamplePair, GoalCoverage, Issue, Tip } from "../types";
+import { assessGoals } from "./goalCoverage";
+import type { EvaluationProvider } from "./provider";
+import { SCHEMA_VERSION } from "./schema";
+import { splitSentences, type Span } from "../text/tokenizer";
+import { COMMON_MISSPELLINGS, loadDictionary, type Dictionary } from "./wordlist";
+
+/**
+ * Deterministic, rule-based evaluator. No network and no API key: used offline, in CI,
+ * and by the server when the model call fails. Rules:
+ *   - spelling against the bundled wordlist (unknown words of five letters or more are flagged only when close to a common word)
+ *   - lowercase "i" as a pronoun
+ *   - sentences that start lowercase, or run into the next one without a break
+ *   - run-on sentences (very long, or chained with and/so/then)
+ *   - no end punctuation at all
+ * Goal coverage comes from ./goalCoverage; a skipped goal earns a tip when there is room for one.
+ */
+
+const RUN_ON_WORDS = 30;
+const CHAIN_WORDS = new Set(["and", "so", "then", "but"]);
+const CHAIN_LIMIT = 3;
+// Shorter unknown words have too many near neighbours to guess from (pho → pro, bae → bad)
+const MIN_GUESS_LENGTH = 5;
+// Words that usually open a new sentence when they appear capitalized mid-sentence
+const SENTENCE_STARTERS = new Set([
+  "Then", "After", "Later", "Today", "Tomorrow", "Tonight", "Yesterday", "My", "We", "He", "She", "They", "It",
+  "Next", "Now", "Also", "But", "So", "Finally",
+]);
+
+type Fix = { start: number; end: number; replacement: string };
+type Finding = { issue: Issue; fix?: Fix; kind: "spelling" | "pronoun" | "capital" | "break" | "runon" | "ending" };
+
+export function createLocalProvider(): EvaluationProvider {
+  return {
+    name: "local",
+    async evaluate(req) {
+      return { ...evaluateLocally(req.text, await loadDictionary(), req.goals), version: { evaluator: "local", schema: SCHEMA_VERSION } };
+    },
+  };
+}
+
+export function evaluateLocally(text: string, dict: Dictionary, goals: string[] = []): EvalResult {
+  const sentences = splitSentences(text);
+  const findings: Finding[] = [
+    ...checkPronounI(text),
+    ...checkSpelling(text, sentences, dict),
+    ...checkSentenceStarts(text, sentences),
+    ...checkMissingBreaks(text),
+    ...checkRunOns(text, sentences),
+    ...checkEnding(text),
+  ];
+  findings.sort((a, b) => a.issue.start - b.issue.start || a.issue.end - b.issue.end);
+  const coverage = assessGoals(text, sentences, goals);
+  return {
+    issues: findings.map((f) => f.issue),
+    goals: coverage,
+    topTips: buildTips(text, findings, coverage),
+    example: buildExample(text, sentences, findings),
+    sentences,
+  };
+}
+
+// ---------- Rules ----------
+
+function checkPronounI(text: string): Finding[] {
+  const out: Finding[] = [];
+  for (const m of text.matchAll(/\bi(?=$|[\s,.!?;:]|['’](?:m|ve|ll|d)\b)/g)) {
+    const start = m.index;
+    out.push({
+      kind: "pronoun",
+      issue: { type: "grammar", start, end: start + 1, tip: "Capitalize ‘I’." },
+      fix: { start, end: start + 1, replacement: "I" },
+    });
+  }
+  return out;
+}
+
+function checkSpelling(text: string, sentences: Span[], dict: Dictionary): Finding[] {
+  const out: Finding[] = [];
+  const sentenceStarts = new Set(sentences.map((s) => firstWordStart(text, s)));
+  for (const m of text.matchAll(/[A-Za-z]+(?:['’][A-Za-z]+)*/g)) {
+    const raw = m[0];
+    const start = m.index;
+    const word = raw.toLowerCase().replace(/’/g, "'");
+    if (word === "i") continue;
+    // A capital letter mid-sentence is most likely a name; leave it alone
+    if (/^[A-Z]/.test(raw) && !sentenceStarts.has(start)) continue;
+    const suggestion = COMMON_MISSPELLINGS[word] ?? (isKnown(word, dict.known) ? undefined : nearestWord(word, dict.common));
+    if (!suggestion) continue;
+    const replacement = /^[A-Z]/.test(raw) ? suggestion[0].toUpperCase() + suggestion.slice(1) : suggestion;
+    out.push({
+      kind: "spelling",
+      issue: { type: "spell", start, end: start + raw.length, tip: `Spelling: ‘${replacement}’.` },
+      fix: { start, end: start + raw.length, replacement },
+    });
+  }
+  return out;
+}
+
+function checkSentenceStarts(text: string, sentences: Span[]): Finding[] {
+  const out: Finding[] = [];
+  for (const s of sentences) {
+    const start = firstWordStart(text, s);
+    if (start < 0 || !/[a-z]/.test(text[start])) continue;
+    if (text[start] === "i" && /^i\b/.test(text.slice(start))) continue; // the pronoun rule already covers it
+    out.push({
+      kind: "capital",
+      issue: { type: "grammar", start, end: start + 1, tip: "Start each sentence with a capital letter." },
+      fix: { start, end: start + 1, replacement: text[start].toUpperCase() },
+    });
+  }
+  return out;
+}
+
+function checkMissingBreaks(text: string): Finding[] {
+  const out: Finding[] = [];
+  for (const m of text.matchAll(/\b([a-z]+)( +)([A-Z][a-z]*)\b/g)) {
+    const next = m[3];
+    if (!SENTENCE_STARTERS.has(next)) continue;
+    const gap = m.index + m[1].length;
+    const start = gap + m[2].length;
+    out.push({
+      kind: "break",
+      issue: { type: "structure", start: m.index, end: start + next.length, tip: "Add a full stop before the new sentence." },
+      fix: { start: gap, end: gap, replacement: "." },
+    });
+  }
+  return out;
+}
+
+function checkRunOns(text: string, sentences: Span[]): Finding[] {
+  const out: Finding[] = [];
+  for (const s of sentences) {
+    const words = text.slice(s.start, s.end).match(/[A-Za-z']+/g) ?? [];
+    const chains = words.filter((w) => CHAIN_WORDS.has(w.toLowerCase())).length;
+    if (words.length > RUN_ON_WORDS || (chains >= CHAIN_LIMIT && words.length > 15)) {
+      out.push({
+        kind: "runon",
+        issue: { type: "clarity", start: s.start, end: s.end, tip: "This sentence is long. Split it into two or three." },
+      });
+    }
+  }
+  return out;
+}
+
+function checkEnding(text: string): Finding[] {
+  const trimmed = text.trimEnd();
+  if (!trimmed || /[.!?]["'’”)]*$/.test(trimmed)) return [];
+  const lastWord = trimmed.match(/\S+$/);
+  const start = lastWord ? trimmed.length - lastWord[0].length : 0;
+  return [
+    {
+      kind: "ending",
+      issue: { type: "structure", start, end: trimmed.length, tip: "End with a full stop." },
+      fix: { start: trimmed.length, end: trimmed.length, replacement: "." },
+    },
+  ];
+}
+
+// ---------- Tips & example ----------
+
+const TIP_TEXT: Record<Finding["kind"], { title: string; why: string }> = {
+  pronoun: { title: "Write ‘I’ as a capital letter", why: "In English, ‘I’ is always a capital letter, even in the middle of a sentence." },
+  spelling: { title: "Check the spelling of a few words", why: "Correct spelling helps readers understand you quickly." },
+  capital: { title: "Start sentences with a capital letter", why: "A capital letter shows the reader where a new idea begins." },
+  break: { title: "Add clear sentence breaks", why: "A full stop between two ideas makes each one easier to follow." },
+  runon: { title: "Split long sentences", why: "Shorter sentences are easier to read and make each idea stand out." },
+  ending: { title: "Finish with a full stop", why: "End punctuation tells the reader your thought is complete." },
+};
+
+const TIP_ORDER: Finding["kind"][] = ["break", "runon", "pronoun", "spelling", "capital", "ending"];
+
+function buildTips(text: string, findings: Finding[], goals: GoalCoverage[]): Tip[] {
+  const tips: Tip[] = [];
+  for (const kind of TIP_ORDER) {
+    const ofKind = findings.filter((f) => f.kind === kind);
+    if (ofKind.length === 0) continue;
+    const examples = ofKind.slice(0, 2).flatMap((f) => {
+      const span = contextSpan(text, f);
+      const before = text.slice(span.start, span.end);
+      const after = f.fix ? applyFixes(text, span, [f.fix]) : splitLongSentence(before);
+      return before !== after ? [{ before, after }] : [];
+    });
+    tips.push({ ...TIP_TEXT[kind], examples });
+    if (tips.length === 3) break;
+  }
+  const skipped = goals.filter((g) => g.status === "missing").map((g) => `‘${g.goal}’`);
+  if (skipped.length > 0 && tips.length < 3) {
+    tips.push({
+      title: `Add a sentence for ${skipped.join(" and ")}`,
+      why: "Each goal makes your reflection more complete, and one short sentence is enough.",
+      examples: [],
+    });
+  }
+  return tips;
+}
+
+function buildExample(text: string, sentences: Span[], findings: Finding[]): ExamplePair | undefined {
+  const fixable = findings.filter((f) => f.fix);
+  const sentence = sentences.find((s) => fixable.some((f) => f.fix!.start >= s.start && f.fix!.end <= s.end));
+  if (!sentence) return undefined;
+  const fixes = fixable
+    .map((f) => f.fix!)
+    .filter((fx) => fx.start >= sentence.start && fx.end <= sentence.end)
+    .sort((a, b) => a.start - b.start)
+    .filter((fx, i, all) => i === 0 || fx.start >= all[i - 1].end);
+
+  const afterParts: ExamplePair["afterParts"] = [];
+  let cursor = sentence.start;
+  for (const fx of fixes) {
+    if (fx.start > cursor) afterParts.push({ text: text.slice(cursor, fx.start) });
+    afterParts.push({ text: fx.replacement, bold: true });
+    cursor = fx.end;
+  }
+  if (cursor < sentence.end) afterParts.push({ text: text.slice(cursor, sentence.end) });
+  return { before: text.slice(sentence.start, sentence.end), afterParts };
+}
+
+function contextSpan(text: string, f: Finding): Span {
+  if (f.kind === "runon") return { start: f.issue.start, end: f.issue.end };
+  // A few words either side of the issue
+  let start = f.issue.start;
+  for (let words = 0; start > 0 && words < 3; start--) if (/\s/.test(text[start - 1]) && !/\s/.test(text[start])) words++;
+  while (start < f.issue.start && /\s/.test(text[start])) start++;
+  let end = Math.max(f.issue.end, f.fix?.end ?? 0);
+  for (let words = 0; end < text.length && words < 3; end++) if (/\s/.test(text[end]) && !/\s/.test(text[end - 1])) words++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+function applyFixes(text: string, span: Span, fixes: Fix[]): string {
+  let out = "";
+  let cursor = span.start;
+  for (const fx of fixes) {
+    out += text.slice(cursor, fx.start) + fx.replacement;
+    cursor = fx.end;
+  }
+  return out + text.slice(cursor, span.end);
+}
+
+function splitLongSentence(sentence: string): string {
+  const m = sentence.match(/^(.{20,}?)\s+(?:and|so|but)(?:\s+then)?\s+(.+)$/i);
+  if (!m) return sentence;
+  return `${m[1].replace(/,$/, "")}. ${m[2][0].toUpperCase()}${m[2].slice(1)}`;
+}
+
+// ---------- Text helpers ----------
+
+function firstWordStart(text: string, s: Span): number {
+  for (let i = s.start; i < s.end; i++) if (/[A-Za-z]/.test(text[i])) return i;
+  return -1;
+}
+
+const SUFFIXES: [string, string[]][] = [
+  ["'s", [""]],
+  ["ies", ["y"]],
+  ["ied", ["y"]],
+  ["ily", ["y"]],
+  ["ing", ["", "e"]],
+  ["ed", ["", "e"]],
+  ["es", [""]],
+  ["est", ["", "e"]],
+  ["er", ["", "e"]],
+  ["ly", [""]],
+  ["ness", [""]],
+  ["ful", [""]],
+  ["less", [""]],
+  ["ment", [""]],
+  ["s", [""]],
+  ["d", [""]],
+];
+
+function isKnown(word: string, known: ReadonlySet<string>): boolean {
+  if (known.has(word) || word.length <= 2 || /\d/.test(word)) return true;
+  for (const [suffix, restores] of SUFFIXES) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < 2) continue;
+    const stem = word.slice(0, -suffix.length);
+    for (const r of restores) if (known.has(stem + r)) return true;
+    // stopped → stop, running → run
+    if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2] && known.has(stem.slice(0, -1))) return true;
+  }
+  return false;
+}
+
+/** Closest wordlist entry, or undefined when nothing is close enough to be a confident guess. */
+function nearestWord(word: string, common: string[]): string | undefined {
+  if (word.length < MIN_GUESS_LENGTH || word.includes("'")) return undefined;
+  const limit = word.length >= 6 ? 2 : 1;
+  let best: string | undefined;
+  let bestDist = limit + 1;
+  for (const candidate of common) {
+    if (Math.abs(candidate.length - word.length) > limit) continue;
+    const d = editDistance(word, candidate, bestDist);
+    if (d < bestDist || (d === bestDist && best && best[0] !== word[0] && candidate[0] === word[0])) {
+      best = candidate;
+      bestDist = d;
+    }
+  }
+  return bestDist <= limit ? best : undefined;
+}
+
+/** Optimal string alignment distance (Levenshtein plus adjacent swaps), capped at `cap`. */
+function editDistance(a: string, b: string, cap: number): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) rows.push([i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, rows[i - 2][j - 2] + 1);
+      rows[i][j] = d;
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > cap) return cap + 1;
+  }
+  return rows[a.length][b.length];
+}
@@ -0,0 +1,97 @@
+import type { LearnerProfile } from "../profile/profile";
+import type { EvalResult } from "../types";
+import type { TroubleWord } from "../vocabulary/bank";
+import { streamEvaluation, type EvalSection } from "./stream";
+
+/** What the client sends to /api/evaluate and what every provider is asked to judge. */
+export type EvaluationRequest = LearnerProfile & {
+  text: string;
+  locale: string; // language the feedback is written in
+  prompt?: string; // the question the learner was answering: the daily prompt, a follow-up or a class assignment
+  troubleWords?: TroubleWord[]; // words the learner keeps getting wrong, from their vocabulary bank
+};
+
+/** Anything that can turn a reflection into an EvalResult: the model, the offline rules, a stub. */
+export type EvaluationProvider = {
+  name: string;
+  // Changes whenever the same request could get a different answer (prompt or schema edits). Part of the server's cache key.
+  version?: string;
+  evaluate(req: EvaluationRequest): Promise<EvalResult>;
+  // Optional: yield sections as soon as each is ready (see stream.ts)
+  stream?(req: EvaluationRequest): AsyncIterable<EvalSection>;
+};
+
+export type EvaluationErrorCode =
+  | "malformed_json" // the evaluator's reply was not JSON
+  | "invalid_shape" // JSON, but not something we can turn into an EvalResult
+  | "timeout" // the model took longer than the server allows
+  | "rate_limited" // too many requests from this client; see Retry-After
+  | "text_too_long" // over EVALUATION_LIMITS.maxChars (or the request body is too large)
+  | "too_many_words" // over EVALUATION_LIMITS.maxWords
+  | "too_few_sentences" // under the learner's or assignment's minSentences
+  | "unsupported_level"
+  | "unsupported_locale"
+  | "invalid_request"; // anything else wrong with the request body
+
+/** A failure the client can act on; `code` travels to the browser in the error body. */
+export class EvaluationError extends Error {
+  readonly code: EvaluationErrorCode;
+
+  constructor(code: EvaluationErrorCode, message: string) {
+    super(message);
+    this.name = "EvaluationError";
+    this.code = code;
+  }
+}
+
+// The request itself was refused. Asking another evaluator would only dodge the limit.
+const REFUSALS: ReadonlySet<EvaluationErrorCode> = new Set([
+  "rate_limited",
+  "text_too_long",
+  "too_many_words",
+  "too_few_sentences",
+  "unsupported_level",
+  "unsupported_locale",
+  "invalid_request",
+]);
+
+export function isRefusal(err: unknown): err is EvaluationError {
+  return err instanceof EvaluationError && REFUSALS.has(err.code);
+}
+
+/**
+ * Tries `primary` and answers from `fallback` when it throws, unless the request was refused
+ * (see isRefusal). When streaming, sections the primary already delivered are kept and only
+ * the missing ones come from the fallback.
+ */
+export function withFallback(
+  primary: EvaluationProvider,
+  fallback: EvaluationProvider,
+  onFallback?: (err: unknown) => void
+): EvaluationProvider {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    async evaluate(req) {
+      try {
+        return await primary.evaluate(req);
+      } catch (err: unknown) {
+        if (isRefusal(err)) throw err;
+        onFallback?.(err);
+        return fallback.evaluate(req);
+      }
+    },
+    async *stream(req) {
+      const sent = new Set<EvalSection["section"]>();
+      try {
+        for await (const s of streamEvaluation(primary, req)) {
+          sent.add(s.section);
+          yield s;
+        }
+      } catch (err: unknown) {
+        if (isRefusal(err)) throw err;
+        onFallback?.(err);
+        for await (const s of streamEvaluation(fallback, req)) if (!sent.has(s.section)) yield s;
+      }
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import type { EvalResult } from "../types";
+import { EvaluationError, type EvaluationErrorCode, type EvaluationProvider } from "./provider";
+import { NDJSON, readEvents } from "./stream";
+
+/** The serverless evaluator at /api/evaluate. Throws on network or server errors. */
+export function createRemoteProvider(endpoint = "/api/evaluate"): EvaluationProvider {
+  async function post(body: unknown, accept: string) {
+    const r = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: accept },
+      body: JSON.stringify(body),
+    });
+    if (!r.ok) {
+      const failure = (await r.json().catch(() => null)) as { error?: string; code?: EvaluationErrorCode } | null;
+      if (failure?.code) throw new EvaluationError(failure.code, failure.error ?? `Server error ${r.status}`);
+      throw new Error(`Server error ${r.status}`);
+    }
+    return r;
+  }
+
+  return {
+    name: "remote",
+    async evaluate(req) {
+      const r = await post(req, "application/json");
+      return (await r.json()) as EvalResult;
+    },
+    async *stream(req) {
+      const r = await post(req, NDJSON);
+      if (!r.body) throw new Error("Empty response");
+      for await (const event of readEvents(r.body)) {
+        if (event.section === "done") return;
+        if (event.section === "error") {
+          if (event.code) throw new EvaluationError(event.code, event.error);
+          throw new Error(event.error);
+        }
+        yield event;
+      }
+      throw new Error("The feedback stream ended early.");
+    },
+  };
+}
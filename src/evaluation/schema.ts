@@ -0,0 +1,84 @@
+// JSON Schema for EvalResult, sent to the model as the structured-output contract.
+// Keep in sync with src/types.ts; validate.ts enforces the same rules on whatever comes back.
+// Any change to the schema bumps SCHEMA_VERSION and ships with a new prompt version (netlify/lib/evaluationPrompts.ts).
+
+export const SCHEMA_VERSION = 1;
+
+export const ISSUE_TYPES = ["spell", "grammar", "clarity", "structure"] as const;
+export const GOAL_STATUSES = ["covered", "partial", "missing"] as const;
+
+export const EVAL_RESULT_SCHEMA = {
+  type: "object",
+  required: ["issues", "goals", "topTips"],
+  properties: {
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["type", "start", "end"],
+        properties: {
+          type: { type: "string", enum: ISSUE_TYPES },
+          start: { type: "integer" },
+          end: { type: "integer" },
+          quote: { type: "string", description: "The exact characters text[start:end] covers." },
+          tip: { type: "string" },
+        },
+      },
+    },
+    goals: {
+      type: "array",
+      description: "One entry per requested goal, in the order given.",
+      items: {
+        type: "object",
+        required: ["goal", "status"],
+        properties: {
+          goal: { type: "string" },
+          status: { type: "string", enum: GOAL_STATUSES },
+          start: { type: "integer", description: "Start of the sentence(s) that address the goal." },
+          end: { type: "integer" },
+          quote: { type: "string", description: "The exact characters text[start:end] covers." },
+        },
+      },
+    },
+    topTips: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["title", "why", "examples"],
+        properties: {
+          title: { type: "string" },
+          why: { type: "string" },
+          examples: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["before", "after"],
+              properties: {
+                before: { type: "string" },
+                after: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+    example: {
+      type: "object",
+      required: ["before", "afterParts"],
+      properties: {
+        before: { type: "string", description: "A sentence copied exactly from the learner's text." },
+        afterParts: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["text"],
+            properties: {
+              text: { type: "string" },
+              bold: { type: "boolean" },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
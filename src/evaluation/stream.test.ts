@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_PROFILE } from "../profile/profile";
+import type { EvalResult } from "../types";
+import { EvaluationError, type EvaluationRequest } from "./provider";
+import { createRemoteProvider } from "./remoteProvider";
+import { applySection, completeResult, encodeEvent, readEvents, sectionsOf, type EvalStreamEvent, type PartialEvalResult } from "./stream";
+
+const RESULT: EvalResult = {
+  sentences: [{ start: 0, end: 13 }],
+  issues: [{ start: 0, end: 1, type: "spell", tip: "Use a capital “I”.", quote: "i" }],
+  goals: [{ goal: "Use the past tense", status: "missing" }],
+  topTips: [{ title: "Capital I", why: "It is always a capital.", examples: [{ before: "i went", after: "I went" }] }],
+  example: { before: "i went home.", afterParts: [{ text: "I", bold: true }, { text: " went home." }] },
+  version: { evaluator: "local", schema: 1 },
+};
+
+const REQUEST: EvaluationRequest = { ...DEFAULT_PROFILE, text: "i went home.", locale: "en" };
+
+/** A response body that arrives in exactly these pieces. */
+function bodyOf(chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const c of chunks) controller.enqueue(typeof c === "string" ? encoder.encode(c) : c);
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const events: EvalStreamEvent[] = [];
+  for await (const e of readEvents(body)) events.push(e);
+  return events;
+}
+
+const ndjson = (events: EvalStreamEvent[]) => events.map(encodeEvent).join("");
+
+describe("readEvents", () => {
+  const events: EvalStreamEvent[] = [...sectionsOf(RESULT), { section: "done" }];
+
+  it("reads one event per line", async () => {
+    expect(await collect(bodyOf([ndjson(events)]))).toEqual(events);
+  });
+
+  it("joins lines split across chunks at every position", async () => {
+    const text = ndjson(events);
+    for (let cut = 1; cut < text.length; cut += 7) {
+      expect(await collect(bodyOf([text.slice(0, cut), text.slice(cut)]))).toEqual(events);
+    }
+  });
+
+  it("survives one byte at a time, including multi-byte characters", async () => {
+    const bytes = new TextEncoder().encode(ndjson(events));
+    expect(await collect(bodyOf([...bytes].map((b) => Uint8Array.of(b))))).toEqual(events);
+  });
+
+  it("holds a partial line back until its newline arrives", async () => {
+    const reader = readEvents(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"section":"issues","issues":[]}\n{"section":"top'));
+        },
+      })
+    );
+    expect((await reader.next()).value).toEqual({ section: "issues", issues: [] });
+    const next = await Promise.race([reader.next(), new Promise((resolve) => setTimeout(() => resolve("waiting"), 20))]);
+    expect(next).toBe("waiting");
+  });
+
+  it("reads a last line that has no newline, and skips blank lines", async () => {
+    const body = bodyOf(['\n{"section":"issues","issues":[]}\n\n', '{"section":"done"}']);
+    expect(await collect(body)).toEqual([{ section: "issues", issues: [] }, { section: "done" }]);
+  });
+});
+
+describe("applySection and completeResult", () => {
+  it("rebuild the result the sections came from", () => {
+    const partial = [...sectionsOf(RESULT)].reduce<PartialEvalResult>(applySection, {});
+    expect(completeResult(partial)).toEqual(RESULT);
+  });
+
+  it("fill in what never arrived", () => {
+    expect(completeResult(applySection({}, { section: "issues", issues: RESULT.issues }))).toEqual({
+      issues: RESULT.issues,
+      topTips: [],
+      goals: undefined,
+      example: undefined,
+      sentences: undefined,
+      version: undefined,
+    });
+  });
+});
+
+describe("remote provider stream", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  function respondWith(chunks: string[]) {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(bodyOf(chunks), { headers: { "Content-Type": "application/x-ndjson" } })));
+  }
+
+  async function sectionsUntilThrow(chunks: string[]) {
+    respondWith(chunks);
+    const seen: string[] = [];
+    try {
+      for await (const s of createRemoteProvider().stream!(REQUEST)) seen.push(s.section);
+    } catch (err: unknown) {
+      return { seen, err };
+    }
+    return { seen, err: undefined };
+  }
+
+  it("yields sections and stops at done", async () => {
+    const { seen, err } = await sectionsUntilThrow([ndjson([...sectionsOf(RESULT), { section: "done" }])]);
+    expect(err).toBeUndefined();
+    expect(seen).toEqual(["sentences", "issues", "goals", "topTips", "example", "version"]);
+  });
+
+  it("keeps the sections before an error line and throws its code", async () => {
+    const { seen, err } = await sectionsUntilThrow([
+      ndjson([{ section: "sentences", sentences: [] }, { section: "issues", issues: [] }]),
+      ndjson([{ section: "error", code: "timeout", error: "Too slow." }, { section: "topTips", topTips: [] }]),
+    ]);
+    expect(seen).toEqual(["sentences", "issues"]);
+    expect(err).toBeInstanceOf(EvaluationError);
+    expect((err as EvaluationError).code).toBe("timeout");
+  });
+
+  it("throws a plain error for an error line without a code", async () => {
+    const { err } = await sectionsUntilThrow([ndjson([{ section: "error", error: "Model failed." }])]);
+    expect(err).not.toBeInstanceOf(EvaluationError);
+    expect((err as Error).message).toBe("Model failed.");
+  });
+
+  it("treats a stream without done as cut off", async () => {
+    const { seen, err } = await sectionsUntilThrow([ndjson([{ section: "issues", issues: [] }])]);
+    expect(seen).toEqual(["issues"]);
+    expect((err as Error).message).toMatch(/ended early/);
+  });
+
+  it("fails on a line cut off mid-way instead of skipping it", async () => {
+    const { seen, err } = await sectionsUntilThrow([ndjson([{ section: "issues", issues: [] }]), '{"section":"topT']);
+    expect(seen).toEqual(["issues"]);
+    expect(err).toBeInstanceOf(SyntaxError);
+  });
+});
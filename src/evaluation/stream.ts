@@ -0,0 +1,88 @@
+import type { EvalResult, EvalVersion, ExamplePair, GoalCoverage, Issue, Tip } from "../types";
+import type { EvaluationErrorCode, EvaluationProvider, EvaluationRequest } from "./provider";
+
+/**
+ * Streaming protocol for /api/evaluate: newline-delimited JSON, one event per line,
+ * in the order sentences → issues → goals → topTips → example → version → done. A failure mid-way ends with an error event.
+ *
+ *   {"section":"sentences","sentences":[{"start":0,"end":12},…]}
+ *   {"section":"issues","issues":[…]}
+ *   {"section":"goals","goals":[…]}
+ *   {"section":"topTips","topTips":[…]}
+ *   {"section":"example","example":{…}}
+ *   {"section":"version","version":{"evaluator":"openai","prompt":"1","schema":1}}
+ *   {"section":"done"}
+ */
+
+export const NDJSON = "application/x-ndjson";
+
+export type EvalSection =
+  | { section: "sentences"; sentences: NonNullable<EvalResult["sentences"]> }
+  | { section: "issues"; issues: Issue[] }
+  | { section: "goals"; goals: GoalCoverage[] }
+  | { section: "topTips"; topTips: Tip[] }
+  | { section: "example"; example?: ExamplePair }
+  | { section: "version"; version: EvalVersion };
+
+export type EvalStreamEvent =
+  | EvalSection
+  | { section: "done" }
+  | { section: "error"; code?: EvaluationErrorCode; error: string };
+
+/** What the UI holds while sections are still arriving. A key is present once its section has. */
+export type PartialEvalResult = Partial<EvalResult>;
+
+export function encodeEvent(event: EvalStreamEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+/** Decodes an NDJSON body into events, tolerating chunks that split lines anywhere. */
+export async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<EvalStreamEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (value) buffered += value;
+    const lines = buffered.split("\n");
+    buffered = done ? "" : lines.pop() ?? "";
+    for (const line of lines) if (line.trim()) yield JSON.parse(line) as EvalStreamEvent;
+    if (done) return;
+  }
+}
+
+/** Sections of a finished result, for providers that cannot stream. */
+export function* sectionsOf(result: EvalResult): Generator<EvalSection> {
+  if (result.sentences) yield { section: "sentences", sentences: result.sentences };
+  yield { section: "issues", issues: result.issues };
+  if (result.goals) yield { section: "goals", goals: result.goals };
+  yield { section: "topTips", topTips: result.topTips };
+  yield { section: "example", example: result.example };
+  if (result.version) yield { section: "version", version: result.version };
+}
+
+export async function* streamEvaluation(provider: EvaluationProvider, req: EvaluationRequest): AsyncGenerator<EvalSection> {
+  if (provider.stream) yield* provider.stream(req);
+  else yield* sectionsOf(await provider.evaluate(req));
+}
+
+export function applySection(partial: PartialEvalResult, s: EvalSection): PartialEvalResult {
+  switch (s.section) {
+    case "sentences":
+      return { ...partial, sentences: s.sentences };
+    case "issues":
+      return { ...partial, issues: s.issues };
+    case "goals":
+      return { ...partial, goals: s.goals };
+    case "topTips":
+      return { ...partial, topTips: s.topTips };
+    case "example":
+      return { ...partial, example: s.example };
+    case "version":
+      return { ...partial, version: s.version };
+  }
+}
+
+export function completeResult(partial: PartialEvalResult): EvalResult {
+  const { sentences, issues = [], goals, topTips = [], example, version } = partial;
+  return { issues, goals, topTips, example, sentences, version };
+}
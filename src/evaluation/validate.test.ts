@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import type { Issue } from "../types";
+import { validateEvalResult, validateSection } from "./validate";
+
+const TEXT = "Today I went to scool. I was nervus but happy.";
+
+// Where `quote` is in TEXT, so expectations do not hard-code offsets
+function at(quote: string) {
+  const start = TEXT.indexOf(quote);
+  return { start, end: start + quote.length, quote };
+}
+
+function issues(raw: unknown[]) {
+  const checked = validateEvalResult({ issues: raw, topTips: [] }, TEXT);
+  if (!checked.ok) throw new Error(checked.message);
+  return { issues: checked.result.issues.map(({ type, start, end, quote }) => ({ type, start, end, quote })), repairs: checked.repairs };
+}
+
+const spell = (span: { start: number; end: number; quote?: string }): Issue => ({ type: "spell", ...span });
+
+describe("validateEvalResult", () => {
+  it.each([
+    ["null", null],
+    ["an array", []],
+    ["no issues", { topTips: [] }],
+    ["no tips", { issues: [] }],
+    ["issues that are not a list", { issues: "scool", topTips: [] }],
+  ])("refuses %s with invalid_shape", (_name, raw) => {
+    expect(validateEvalResult(raw, TEXT)).toMatchObject({ ok: false, code: "invalid_shape" });
+  });
+
+  it("keeps a valid result as it is", () => {
+    const result = { issues: [{ type: "spell", ...at("scool"), tip: "school" }], topTips: [{ title: "Spelling", why: "Check it.", examples: [] }] };
+    const checked = validateEvalResult(result, TEXT);
+    expect(checked).toMatchObject({ ok: true, repairs: [], result });
+  });
+
+  it("drops issues with unknown types", () => {
+    const { start, end } = at("scool");
+    expect(issues([{ type: "spelling", start, end }, { type: "style", start, end }, "scool"])).toEqual({
+      issues: [],
+      repairs: ["dropped an issue with an unknown type", "dropped an issue with an unknown type", "dropped an issue with an unknown type"],
+    });
+  });
+
+  it("clamps offsets that run past the text", () => {
+    const { start } = at("happy.");
+    expect(issues([spell({ start, end: TEXT.length + 10 }), spell({ start: -4, end: 5 })])).toEqual({
+      issues: [
+        { type: "spell", start: 0, end: 5, quote: "Today" },
+        { type: "spell", ...at("happy.") },
+      ],
+      repairs: ["clamped a span to the text", "clamped a span to the text"],
+    });
+  });
+
+  it("drops spans that are empty, only whitespace or have no offsets", () => {
+    const space = TEXT.indexOf(" ");
+    expect(issues([spell({ start: 5, end: 5 }), spell({ start: space, end: space + 1 }), { type: "spell" }, spell({ start: 50, end: 60 })]).issues).toEqual([]);
+  });
+
+  it("trims whitespace off the ends of a span", () => {
+    const { start, end } = at("nervus");
+    expect(issues([spell({ start: start - 1, end: end + 1 })]).issues).toEqual([{ type: "spell", start, end, quote: "nervus" }]);
+  });
+
+  it("re-anchors a span by its quote when the offsets drift", () => {
+    expect(issues([spell({ start: 3, end: 8, quote: "nervus" })])).toEqual({ issues: [{ type: "spell", ...at("nervus") }], repairs: ['re-anchored "nervus"'] });
+  });
+
+  it("re-anchors a quote without offsets, and one whose case changed", () => {
+    expect(issues([spell({ quote: "scool" } as Issue), spell({ start: 0, end: 5, quote: "today" })]).issues).toEqual([
+      { type: "spell", start: 0, end: 5, quote: "Today" },
+      { type: "spell", ...at("scool") },
+    ]);
+  });
+
+  it("picks the occurrence of a repeated quote nearest the offsets", () => {
+    const text = "I was late. I was tired.";
+    const second = text.lastIndexOf("I was");
+    const checked = validateEvalResult({ issues: [{ type: "grammar", start: second + 2, end: second + 7, quote: "I was" }], topTips: [] }, text);
+    expect(checked.ok && checked.result.issues[0].start).toBe(second);
+  });
+
+  it("keeps the offsets when the quote is not in the text", () => {
+    const { start, end } = at("scool");
+    expect(issues([spell({ start, end, quote: "skool" })]).issues).toEqual([{ type: "spell", start, end, quote: "scool" }]);
+  });
+
+  it("drops exact duplicates", () => {
+    expect(issues([spell(at("scool")), spell(at("scool"))])).toEqual({ issues: [spell(at("scool"))], repairs: ["dropped a duplicate issue"] });
+  });
+
+  it("merges overlapping issues of the same type", () => {
+    const merged = issues([spell(at("went to")), spell(at("to scool"))]);
+    expect(merged).toEqual({ issues: [spell(at("went to scool"))], repairs: ["merged overlapping issues"] });
+  });
+
+  it("keeps an issue nested in another of a different type", () => {
+    const grammar = { type: "grammar" as const, ...at("I was nervus") };
+    expect(issues([grammar, spell(at("nervus"))]).issues).toEqual([grammar, spell(at("nervus"))]);
+  });
+
+  it("drops an issue crossing one of another type", () => {
+    const grammar = { type: "grammar" as const, ...at("went to") };
+    expect(issues([grammar, spell(at("to scool"))])).toEqual({ issues: [grammar], repairs: ["dropped an issue crossing another"] });
+  });
+
+  it("does not widen a span until it crosses another one", () => {
+    // "went to" sits inside the grammar span; merging "to scool. I" into it would cross that span's end
+    const grammar = { type: "grammar" as const, ...at("I went to scool") };
+    const result = issues([grammar, spell(at("went to")), spell(at("to scool. I"))]);
+    expect(result).toEqual({ issues: [grammar, spell(at("went to"))], repairs: ["dropped an issue crossing another"] });
+  });
+
+  it("keeps at most three tips and drops malformed ones", () => {
+    const tip = (title: string) => ({ title, why: "Because.", examples: [{ before: "a", after: "b" }, { before: "" }] });
+    const checked = validateEvalResult({ issues: [], topTips: [tip("1"), { title: "no why" }, tip("2"), tip("3"), tip("4")] }, TEXT);
+    expect(checked.ok && checked.result.topTips.map((t) => [t.title, t.examples.length])).toEqual([
+      ["1", 1],
+      ["2", 1],
+      ["3", 1],
+    ]);
+    expect(checked.ok && checked.repairs).toEqual(["dropped a malformed tip", "kept the first 3 tips"]);
+  });
+
+  it("keeps an example only when it quotes the text, recovering case and spacing", () => {
+    const example = (before: string) => validateEvalResult({ issues: [], topTips: [], example: { before, afterParts: [{ text: "fixed", bold: true }] } }, TEXT);
+    expect(example("I was nervus but happy.")).toMatchObject({ ok: true, result: { example: { before: "I was nervus but happy." } } });
+    expect(example("i  was nervus")).toMatchObject({ ok: true, result: { example: { before: "I was nervus" } } });
+    expect(example("I was calm.")).toMatchObject({ ok: true, result: { example: undefined }, repairs: ["dropped an example that does not quote the entry"] });
+  });
+
+  it("anchors covered goals and leaves missing ones without a span", () => {
+    const checked = validateEvalResult(
+      {
+        issues: [],
+        topTips: [],
+        goals: [
+          { goal: "feelings", status: "covered", start: 0, end: 3, quote: "I was nervus but happy." },
+          { goal: "next action", status: "missing", start: 0, end: 5 },
+          { goal: "tell day", status: "done" },
+        ],
+      },
+      TEXT
+    );
+    expect(checked.ok && checked.result.goals).toEqual([
+      { goal: "feelings", status: "covered", ...at("I was nervus but happy.") },
+      { goal: "next action", status: "missing" },
+    ]);
+  });
+});
+
+describe("validateSection", () => {
+  it("repairs a streamed issues section the same way", () => {
+    const repairs: string[] = [];
+    expect(validateSection("issues", [spell({ start: 0, end: 5, quote: "nervus" })], TEXT, repairs)).toEqual({
+      section: "issues",
+      issues: [{ type: "spell", ...at("nervus"), tip: undefined }],
+    });
+    expect(repairs).toEqual(['re-anchored "nervus"']);
+  });
+
+  it("refuses sections without a usable shape", () => {
+    expect(validateSection("issues", {}, TEXT)).toBeNull();
+    expect(validateSection("version", { evaluator: "openai" }, TEXT)).toBeNull();
+    expect(validateSection("unknown", [], TEXT)).toBeNull();
+  });
+});
@@ -0,0 +1,253 @@
+import type { EvalResult, EvalVersion, ExamplePair, GoalCoverage, GoalStatus, Issue, IssueType, Tip } from "../types";
+import type { EvaluationErrorCode } from "./provider";
+import { GOAL_STATUSES, ISSUE_TYPES } from "./schema";
+import type { EvalSection } from "./stream";
+
+/**
+ * Turns an evaluator's raw JSON into an EvalResult that is safe to highlight against `text`.
+ * Repairs what it can (re-anchors drifting spans, clamps, merges overlaps, drops broken tips
+ * and examples) and only fails when the payload has no usable shape at all.
+ */
+
+export type ValidationResult =
+  | { ok: true; result: EvalResult; repairs: string[] }
+  | { ok: false; code: EvaluationErrorCode; message: string };
+
+const MAX_TIPS = 3;
+
+export function validateEvalResult(raw: unknown, text: string): ValidationResult {
+  if (!isRecord(raw) || !Array.isArray(raw.issues) || !Array.isArray(raw.topTips)) {
+    return { ok: false, code: "invalid_shape", message: "Expected an object with 'issues' and 'topTips' arrays." };
+  }
+  const repairs: string[] = [];
+  const result: EvalResult = {
+    issues: normalizeIssues(raw.issues, text, repairs),
+    goals: Array.isArray(raw.goals) ? normalizeGoals(raw.goals, text, repairs) : undefined,
+    topTips: normalizeTips(raw.topTips, repairs),
+    example: raw.example === undefined ? undefined : normalizeExample(raw.example, text, repairs),
+    version: normalizeVersion(raw.version),
+  };
+  return { ok: true, result, repairs };
+}
+
+/** The same repairs, one streamed section at a time. Null when the section has no usable shape. */
+export function validateSection(section: string, raw: unknown, text: string, repairs: string[] = []): EvalSection | null {
+  switch (section) {
+    case "issues":
+      return Array.isArray(raw) ? { section, issues: normalizeIssues(raw, text, repairs) } : null;
+    case "goals":
+      return Array.isArray(raw) ? { section, goals: normalizeGoals(raw, text, repairs) } : null;
+    case "topTips":
+      return Array.isArray(raw) ? { section, topTips: normalizeTips(raw, repairs) } : null;
+    case "example":
+      return { section, example: raw == null ? undefined : normalizeExample(raw, text, repairs) };
+    case "version": {
+      const version = normalizeVersion(raw);
+      return version ? { section, version } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function normalizeIssues(raw: unknown[], text: string, repairs: string[]): Issue[] {
+  const anchored: Issue[] = [];
+  for (const item of raw) {
+    const issue = normalizeIssue(item, text, repairs);
+    if (issue) anchored.push(issue);
+  }
+  return mergeOverlaps(anchored, text, repairs);
+}
+
+function normalizeGoals(raw: unknown[], text: string, repairs: string[]): GoalCoverage[] {
+  return raw.flatMap((g): GoalCoverage[] => {
+    if (!isRecord(g) || !isText(g.goal) || !GOAL_STATUSES.includes(g.status as GoalStatus)) {
+      repairs.push("dropped a malformed goal");
+      return [];
+    }
+    const goal = g.goal.trim();
+    const status = g.status as GoalStatus;
+    if (status === "missing") return [{ goal, status }];
+    // A goal the model says is covered but cannot point at still counts; it just has no highlight
+    const span = anchorSpan(g, text, repairs);
+    return [span ? { goal, status, ...span } : { goal, status }];
+  });
+}
+
+function normalizeTips(raw: unknown[], repairs: string[]): Tip[] {
+  const tips = raw.flatMap((t) => {
+    const tip = normalizeTip(t);
+    if (!tip) repairs.push("dropped a malformed tip");
+    return tip ? [tip] : [];
+  });
+  if (tips.length > MAX_TIPS) repairs.push(`kept the first ${MAX_TIPS} tips`);
+  return tips.slice(0, MAX_TIPS);
+}
+
+// ---------- Issues ----------
+
+function normalizeIssue(item: unknown, text: string, repairs: string[]): Issue | null {
+  if (!isRecord(item) || !ISSUE_TYPES.includes(item.type as IssueType)) {
+    repairs.push("dropped an issue with an unknown type");
+    return null;
+  }
+  const span = anchorSpan(item, text, repairs);
+  if (!span) return null;
+  const tip = typeof item.tip === "string" && item.tip.trim() ? item.tip.trim() : undefined;
+  return { type: item.type as IssueType, ...span, tip };
+}
+
+/** Offsets that really point into `text`, or null when the item's span cannot be recovered. */
+function anchorSpan(item: Record<string, unknown>, text: string, repairs: string[]): { start: number; end: number; quote: string } | null {
+  const quote = typeof item.quote === "string" && item.quote.length > 0 ? item.quote : undefined;
+  let start = toInt(item.start);
+  let end = toInt(item.end);
+
+  // Trust the quoted words over the offsets when they disagree
+  if (quote && (start == null || end == null || text.slice(start, end) !== quote)) {
+    const found = findNearest(text, quote, start ?? 0);
+    if (found >= 0) {
+      repairs.push(`re-anchored "${quote}"`);
+      start = found;
+      end = found + quote.length;
+    }
+  }
+  if (start == null || end == null) {
+    repairs.push("dropped a span without offsets");
+    return null;
+  }
+
+  const clampedStart = clamp(start, 0, text.length);
+  const clampedEnd = clamp(end, 0, text.length);
+  if (clampedStart !== start || clampedEnd !== end) repairs.push("clamped a span to the text");
+  start = clampedStart;
+  end = clampedEnd;
+
+  // Highlights look broken when they start or end on whitespace
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start >= end) {
+    repairs.push("dropped an empty span");
+    return null;
+  }
+  return { start, end, quote: text.slice(start, end) };
+}
+
+/**
+ * buildSegments copes with nested spans but not with spans that cross each other.
+ * Exact duplicates are dropped, same-type overlaps merge unless the merged span would cross
+ * another one, and a span crossing an earlier one is dropped.
+ */
+function mergeOverlaps(issues: Issue[], text: string, repairs: string[]): Issue[] {
+  const sorted = [...issues].sort((a, b) => a.start - b.start || b.end - a.end);
+  const out: Issue[] = [];
+  for (const it of sorted) {
+    const overlapping = out.filter((k) => it.start < k.end && k.start < it.end);
+    if (overlapping.some((k) => k.start === it.start && k.end === it.end)) {
+      repairs.push("dropped a duplicate issue");
+      continue;
+    }
+    const sameType = overlapping.find((k) => k.type === it.type);
+    if (sameType) {
+      const end = Math.max(sameType.end, it.end);
+      const merged = { ...sameType, end, quote: text.slice(sameType.start, end) };
+      if (!out.some((k) => k !== sameType && crosses(k, merged))) {
+        out[out.indexOf(sameType)] = merged;
+        repairs.push("merged overlapping issues");
+        continue;
+      }
+    }
+    if (overlapping.some((k) => crosses(k, it))) {
+      repairs.push("dropped an issue crossing another");
+      continue;
+    }
+    out.push(it);
+  }
+  return out;
+}
+
+/** Overlapping without one containing the other. */
+function crosses(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return (a.start < b.start && b.start < a.end && a.end < b.end) || (b.start < a.start && a.start < b.end && b.end < a.end);
+}
+
+function findNearest(text: string, quote: string, near: number): number {
+  let best = -1;
+  for (let i = text.indexOf(quote); i >= 0; i = text.indexOf(quote, i + 1)) {
+    if (best < 0 || Math.abs(i - near) < Math.abs(best - near)) best = i;
+  }
+  if (best >= 0) return best;
+  // Models often change case at the start of a quote
+  const lower = text.toLowerCase();
+  const q = quote.toLowerCase();
+  for (let i = lower.indexOf(q); i >= 0; i = lower.indexOf(q, i + 1)) {
+    if (best < 0 || Math.abs(i - near) < Math.abs(best - near)) best = i;
+  }
+  return best;
+}
+
+// ---------- Tips, example & version ----------
+
+function normalizeTip(t: unknown): Tip | null {
+  if (!isRecord(t) || !isText(t.title) || !isText(t.why)) return null;
+  const examples = Array.isArray(t.examples)
+    ? t.examples.filter((ex): ex is Tip["examples"][number] => isRecord(ex) && isText(ex.before) && isText(ex.after))
+    : [];
+  return { title: t.title.trim(), why: t.why.trim(), examples: examples.map(({ before, after }) => ({ before, after })) };
+}
+
+function normalizeExample(ex: unknown, text: string, repairs: string[]): ExamplePair | undefined {
+  if (!isRecord(ex) || !isText(ex.before) || !Array.isArray(ex.afterParts)) {
+    repairs.push("dropped a malformed example");
+    return undefined;
+  }
+  const afterParts = ex.afterParts
+    .filter((p): p is ExamplePair["afterParts"][number] => isRecord(p) && typeof p.text === "string")
+    .map((p) => (p.bold === true ? { text: p.text, bold: true } : { text: p.text }));
+  if (afterParts.length === 0) {
+    repairs.push("dropped an example without a rewrite");
+    return undefined;
+  }
+
+  // "Yours" must really be the learner's words: accept it verbatim, or recover the original
+  // spelling when only case or spacing drifted
+  const before = text.includes(ex.before) ? ex.before : recoverQuote(text, ex.before);
+  if (!before) repairs.push("dropped an example that does not quote the entry");
+  return before ? { before, afterParts } : undefined;
+}
+
+// Not something to repair: a version is either well-formed or left off
+function normalizeVersion(v: unknown): EvalVersion | undefined {
+  if (!isRecord(v) || !isText(v.evaluator) || !Number.isInteger(v.schema)) return undefined;
+  const version: EvalVersion = { evaluator: v.evaluator, schema: v.schema as number };
+  return isText(v.prompt) ? { ...version, prompt: v.prompt } : version;
+}
+
+function recoverQuote(text: string, quote: string): string | undefined {
+  const words = quote.trim().split(/\s+/).map(escapeRegExp);
+  if (words.length === 0) return undefined;
+  const m = text.match(new RegExp(words.join("\\s+"), "i"));
+  return m?.[0];
+}
+
+// ---------- Helpers ----------
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isText(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function toInt(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? Math.round(v) : null;
+}
+
+function clamp(n: number, lo: number, hi: number) {
+  return Math.min(hi, Math.max(lo, n));
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,101 @@
+// Dictionary for the offline evaluator. The word lists come from SCOWL (via the
+// `wordlist-english` package) and are loaded on first use so they stay out of the main bundle.
+
+export type Dictionary = {
+  known: ReadonlySet<string>; // every accepted spelling, lowercase
+  common: string[];           // everyday words we are willing to suggest, most common first
+};
+
+// Everyday learner words SCOWL leaves out (contractions, modern or informal words)
+const EXTRA_WORDS = `
+i i'm i've i'll i'd don't doesn't didn't isn't aren't wasn't weren't won't wouldn't can't couldn't shouldn't
+haven't hasn't hadn't mustn't you're you've you'll you'd he's he'll he'd she's she'll she'd it's it'll we're
+we've we'll we'd they're they've they'll they'd that's there's here's what's who's where's how's let's
+ok vocab maths tv wifi online app apps laptop smartphone texted texting selfie grandma grandpa
+`;
+
+// Mistakes common enough in learner writing that we suggest the fix directly
+export const COMMON_MISSPELLINGS: Readonly<Record<string, string>> = {
+  teh: "the",
+  becuase: "because",
+  becasue: "because",
+  beacuse: "because",
+  becouse: "because",
+  beacause: "because",
+  freind: "friend",
+  freinds: "friends",
+  recieve: "receive",
+  recieved: "received",
+  wich: "which",
+  untill: "until",
+  realy: "really",
+  tommorow: "tomorrow",
+  tomorow: "tomorrow",
+  tommorrow: "tomorrow",
+  definately: "definitely",
+  alot: "a lot",
+  thier: "their",
+  wierd: "weird",
+  finaly: "finally",
+  happend: "happened",
+  begining: "beginning",
+  writting: "writing",
+  studing: "studying",
+  excercise: "exercise",
+  beatiful: "beautiful",
+  familly: "family",
+  sience: "science",
+  im: "I'm",
+  ive: "I've",
+  dont: "don't",
+  didnt: "didn't",
+  doesnt: "doesn't",
+  isnt: "isn't",
+  wasnt: "wasn't",
+  couldnt: "couldn't",
+  wouldnt: "wouldn't",
+  shouldnt: "shouldn't",
+  thats: "that's",
+  whats: "what's",
+  // regular endings on irregular verbs
+  feeled: "felt",
+  goed: "went",
+  buyed: "bought",
+  thinked: "thought",
+  eated: "ate",
+  teached: "taught",
+  catched: "caught",
+  runned: "ran",
+  writed: "wrote",
+  maked: "made",
+  taked: "took",
+  gived: "gave",
+  sleeped: "slept",
+  bringed: "brought",
+  meeted: "met",
+};
+
+let dictionary: Promise<Dictionary> | null = null;
+
+export function loadDictionary(): Promise<Dictionary> {
+  dictionary ??= Promise.all([
+    import("wordlist-english/english-words-10.json"),
+    import("wordlist-english/american-words-10.json"),
+    import("wordlist-english/british-words-10.json"),
+    import("wordlist-english/english-words-20.json"),
+    import("wordlist-english/american-words-20.json"),
+    import("wordlist-english/british-words-20.json"),
+    import("wordlist-english/english-words-35.json"),
+    import("wordlist-english/american-words-35.json"),
+    import("wordlist-english/british-words-35.json"),
+    import("wordlist-english/english-words-40.json"),
+    import("wordlist-english/american-words-40.json"),
+    import("wordlist-english/british-words-40.json"),
+  ]).then((lists) => {
+    const words = lists.map((m) => m.default as string[]);
+    const common = words.slice(0, 6).flat();
+    const known = new Set([...words.flat(), ...EXTRA_WORDS.split(/\s+/).filter(Boolean)].map((w) => w.toLowerCase()));
+    return { known, common };
+  });
+  return dictionary;
+}
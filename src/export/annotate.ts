@@ -0,0 +1,45 @@
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import type { JournalEntry } from "../journal/repository";
+import { buildSegments } from "../text/segments";
+import type { Issue, IssueType } from "../types";
+
+// What the Markdown and HTML exports have in common: the reflection split into highlight
+// segments, each issue numbered as a note so its tip survives on paper. Headings and labels come from
+// the interface language's catalog; the reflection and its feedback are exported as they are.
+
+export type AnnotatedPart = {
+  text: string;
+  type: "plain" | IssueType;
+  notes: number[]; // 1-based note numbers of the issues that end with this part
+};
+
+export type AnnotatedEntry = {
+  entry: JournalEntry;
+  parts: AnnotatedPart[];
+  notes: Issue[]; // notes[n - 1] is note n
+};
+
+export function annotate(entry: JournalEntry): AnnotatedEntry {
+  const { text, result } = entry;
+  const notes = result.issues.filter((it) => it.end <= text.length).sort((a, b) => a.start - b.start || b.end - a.end);
+  const parts = buildSegments(text, notes).map((seg) => {
+    const end = seg.start + seg.text.length;
+    const ending = notes.flatMap((it, i) => (it.end === end && it.start < end ? [i + 1] : []));
+    return { text: seg.text, type: seg.type, notes: ending };
+  });
+  return { entry, parts, notes };
+}
+
+/** The note under the reflection: the issue's tip, labelled with its kind unless the tip already says it. */
+export function noteText(issue: Issue, t: Messages): string {
+  const label = t.issueTypes[issue.type];
+  if (!issue.tip) return label;
+  return issue.tip.startsWith(label) ? issue.tip : `${label}: ${issue.tip}`;
+}
+
+/** "Monday, 3 March 2025" for an entry's YYYY-MM-DD day, in the interface language. */
+export function formatEntryDate(date: string, locale: UiLocale): string {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(locale, { weekday: "long", year: "numeric", month: "long", day: "numeric" });
+}
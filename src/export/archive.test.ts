@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { Draft, JournalEntry } from "../journal/repository";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, mergeEntries, parseArchive, toArchive, type ArchiveErrorCode } from "./archive";
+
+// Each draft's feedback flags "scool" where its text has it
+function draft(createdAt: string, text: string): Draft {
+  const start = text.indexOf("scool");
+  const issues = start < 0 ? [] : [{ type: "spell" as const, start, end: start + 5, quote: "scool", tip: "school" }];
+  return { createdAt, text, result: { issues, topTips: [] } };
+}
+
+function entry(id: string, ...drafts: Draft[]): JournalEntry {
+  const latest = drafts[drafts.length - 1];
+  return { id, date: drafts[0].createdAt.slice(0, 10), createdAt: drafts[0].createdAt, text: latest.text, result: latest.result, drafts };
+}
+
+const MONDAY = entry("a", draft("2025-06-02T09:00:00.000Z", "I went to scool."));
+const TUESDAY = entry("b", draft("2025-06-03T09:00:00.000Z", "I went to scool again."), draft("2025-06-03T09:10:00.000Z", "I went to school again."));
+
+const archive = (fields: Record<string, unknown>) => JSON.stringify({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: "2025-06-04T00:00:00.000Z", ...fields });
+
+describe("parseArchive", () => {
+  it("reads back what toArchive wrote", () => {
+    expect(parseArchive(toArchive([MONDAY, TUESDAY]))).toEqual({ ok: true, entries: [MONDAY, TUESDAY], skipped: 0 });
+  });
+
+  it.each<[string, string, ArchiveErrorCode]>([
+    ["invalid JSON", "{ not json", "not_json"],
+    ["another app's file", JSON.stringify({ format: "someone-else", version: 1, entries: [] }), "not_journal"],
+    ["a JSON array", "[]", "not_journal"],
+    ["a missing version", JSON.stringify({ format: ARCHIVE_FORMAT, entries: [] }), "no_version"],
+    ["a version that is not a whole number", archive({ version: 1.5 }), "no_version"],
+    ["a version from a newer app", archive({ version: ARCHIVE_VERSION + 1 }), "newer_version"],
+    ["no entries list", archive({ entries: undefined }), "no_entries"],
+  ])("rejects %s", (_name, raw, error) => {
+    expect(parseArchive(raw)).toEqual({ ok: false, error });
+  });
+
+  it("leaves out damaged entries and counts them", () => {
+    const damaged = [
+      { ...MONDAY, id: "" },
+      { ...MONDAY, id: "c", date: "June 2nd" },
+      { ...MONDAY, id: "d", drafts: [{ ...MONDAY.drafts[0], createdAt: "yesterday" }] },
+      { ...MONDAY, id: "e", drafts: [{ ...MONDAY.drafts[0], result: "fine" }] },
+      "not an entry",
+    ];
+    const parsed = parseArchive(archive({ entries: [MONDAY, ...damaged, TUESDAY] }));
+    expect(parsed).toEqual({ ok: true, entries: [MONDAY, TUESDAY], skipped: damaged.length });
+  });
+
+  it("turns an entry exported before drafts existed into one draft", () => {
+    const old = { ...MONDAY, drafts: undefined };
+    const parsed = parseArchive(archive({ entries: [old] }));
+    expect(parsed.ok && parsed.entries).toEqual([MONDAY]);
+  });
+});
+
+describe("mergeEntries", () => {
+  it("adds entries the journal does not have", () => {
+    const merge = mergeEntries([MONDAY], [TUESDAY]);
+    expect(merge).toEqual({ changed: [TUESDAY], added: 1, updated: 0, unchanged: 0 });
+  });
+
+  it("adds nothing when the same file is imported again", () => {
+    const parsed = parseArchive(toArchive([MONDAY, TUESDAY]));
+    expect(parsed.ok && mergeEntries([MONDAY, TUESDAY], parsed.entries)).toEqual({ changed: [], added: 0, updated: 0, unchanged: 2 });
+  });
+
+  it("matches an entry with a new id by its first draft", () => {
+    expect(mergeEntries([TUESDAY], [{ ...TUESDAY, id: "copy" }]).unchanged).toBe(1);
+  });
+
+  it("adds the drafts an existing entry is missing, in order", () => {
+    const first = entry("b", TUESDAY.drafts[0]);
+    const merge = mergeEntries([first], [TUESDAY]);
+    expect(merge).toMatchObject({ added: 0, updated: 1, unchanged: 0 });
+    expect(merge.changed).toEqual([{ ...TUESDAY, id: "b" }]);
+  });
+
+  it("saves a reflection that appears twice in one file once", () => {
+    const first = entry("b", TUESDAY.drafts[0]);
+    const second = entry("b", TUESDAY.drafts[1]);
+    const merge = mergeEntries([], [first, second]);
+    expect(merge.added).toBe(1);
+    expect(merge.changed).toHaveLength(1);
+    expect(merge.changed[0].drafts).toEqual(TUESDAY.drafts);
+  });
+});
@@ -0,0 +1,139 @@
+import { validateEvalResult } from "../evaluation/validate";
+import type { Draft, JournalEntry } from "../journal/repository";
+import { splitSentences } from "../text/tokenizer";
+
+/**
+ * The journal's JSON export, which can be imported again on this or another device.
+ * Bump ARCHIVE_VERSION and teach parseArchive the old shape whenever the format changes.
+ *
+ *   { "format": "daily-reflection-journal", "version": 1, "exportedAt": "…", "entries": [JournalEntry, …] }
+ */
+
+export const ARCHIVE_FORMAT = "daily-reflection-journal";
+export const ARCHIVE_VERSION = 1;
+
+export type JournalArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  entries: JournalEntry[];
+};
+
+export function toArchive(entries: JournalEntry[], now = new Date()): string {
+  const archive: JournalArchive = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: now.toISOString(), entries };
+  return JSON.stringify(archive, null, 2);
+}
+
+/** Why a file cannot be imported; the interface words each code (Messages.transfer.errors). */
+export type ArchiveErrorCode = "not_json" | "not_journal" | "no_version" | "newer_version" | "no_entries";
+
+export type ArchiveParse = { ok: true; entries: JournalEntry[]; skipped: number } | { ok: false; error: ArchiveErrorCode };
+
+/** Checks the whole file before anything is imported. Damaged entries are left out and counted in `skipped`. */
+export function parseArchive(raw: string): ArchiveParse {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "not_json" };
+  }
+  if (!isRecord(data) || data.format !== ARCHIVE_FORMAT) {
+    return { ok: false, error: "not_journal" };
+  }
+  if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+    return { ok: false, error: "no_version" };
+  }
+  if (data.version > ARCHIVE_VERSION) {
+    return { ok: false, error: "newer_version" };
+  }
+  if (!Array.isArray(data.entries)) return { ok: false, error: "no_entries" };
+
+  const entries = data.entries.map(parseEntry).filter((e) => e !== null);
+  return { ok: true, entries, skipped: data.entries.length - entries.length };
+}
+
+function parseEntry(raw: unknown): JournalEntry | null {
+  if (!isRecord(raw) || !isText(raw.id) || !isDay(raw.date) || !isTimestamp(raw.createdAt)) return null;
+  // Entries exported before drafts existed carry only text and result
+  const rawDrafts = Array.isArray(raw.drafts) && raw.drafts.length > 0 ? raw.drafts : [{ createdAt: raw.createdAt, text: raw.text, result: raw.result }];
+  const drafts: Draft[] = [];
+  for (const d of rawDrafts) {
+    if (!isRecord(d) || !isTimestamp(d.createdAt) || typeof d.text !== "string") return null;
+    const checked = validateEvalResult(d.result, d.text);
+    if (!checked.ok) return null;
+    const sentences = isRecord(d.result) && Array.isArray(d.result.sentences) ? splitSentences(d.text) : undefined;
+    drafts.push({ createdAt: d.createdAt, text: d.text, result: { ...checked.result, sentences } });
+  }
+  drafts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const latest = drafts[drafts.length - 1];
+  return { id: raw.id, date: raw.date, createdAt: raw.createdAt, text: latest.text, result: latest.result, drafts };
+}
+
+export type MergeResult = {
+  changed: JournalEntry[]; // entries to save: new ones and existing ones that gained drafts
+  added: number;
+  updated: number;
+  unchanged: number;
+};
+
+/**
+ * Merges imported entries into the journal without duplicates. An imported entry is the same
+ * reflection as an existing one when it has the same id, or started at the same moment with the
+ * same words (an export of an export). Drafts are merged the same way, by timestamp and text.
+ */
+export function mergeEntries(existing: JournalEntry[], incoming: JournalEntry[]): MergeResult {
+  const byId = new Map(existing.map((e) => [e.id, e]));
+  const byFirstDraft = new Map(existing.map((e) => [draftKey(e.drafts[0]), e]));
+  const result: MergeResult = { changed: [], added: 0, updated: 0, unchanged: 0 };
+
+  for (const entry of incoming) {
+    const match = byId.get(entry.id) ?? byFirstDraft.get(draftKey(entry.drafts[0]));
+    if (!match) {
+      result.changed.push(entry);
+      result.added++;
+      byId.set(entry.id, entry);
+      byFirstDraft.set(draftKey(entry.drafts[0]), entry);
+      continue;
+    }
+    const known = new Set(match.drafts.map(draftKey));
+    const extra = entry.drafts.filter((d) => !known.has(draftKey(d)));
+    if (extra.length === 0) {
+      result.unchanged++;
+      continue;
+    }
+    const drafts = [...match.drafts, ...extra].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const latest = drafts[drafts.length - 1];
+    const merged: JournalEntry = { ...match, text: latest.text, result: latest.result, drafts };
+    // A reflection imported twice in one file is still saved once
+    const previous = result.changed.indexOf(match);
+    if (previous >= 0) result.changed[previous] = merged;
+    else {
+      result.changed.push(merged);
+      result.updated++;
+    }
+    byId.set(merged.id, merged);
+    byFirstDraft.set(draftKey(match.drafts[0]), merged);
+    byFirstDraft.set(draftKey(merged.drafts[0]), merged);
+  }
+  return result;
+}
+
+function draftKey(d: Draft): string {
+  return `${d.createdAt}\u0000${d.text}`;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isText(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function isDay(v: unknown): v is string {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+}
+
+function isTimestamp(v: unknown): v is string {
+  return typeof v === "string" && !Number.isNaN(Date.parse(v));
+}
@@ -0,0 +1,114 @@
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import type { JournalEntry } from "../journal/repository";
+import type { IssueType } from "../types";
+import { annotate, formatEntryDate, noteText } from "./annotate";
+
+// Colours match the highlights in the app's preview
+const MARK_COLOR: Record<IssueType, string> = {
+  spell: "#fef08a",
+  grammar: "#bfdbfe",
+  clarity: "#e9d5ff",
+  structure: "#fecaca",
+};
+
+const STYLE = `
+  @page { margin: 18mm; }
+  body { font-family: Nunito, "Segoe UI", system-ui, sans-serif; color: #171717; line-height: 1.6; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; }
+  h1, h2, h3 { color: #be185d; line-height: 1.25; }
+  h1 { font-size: 1.6rem; }
+  h2 { font-size: 1.25rem; margin-top: 0; }
+  h3 { font-size: 1rem; margin-bottom: 0.25rem; }
+  article { border: 1px solid #fbcfe8; border-radius: 12px; padding: 1rem 1.25rem; margin: 1.5rem 0; }
+  .meta { color: #525252; font-size: 0.85rem; }
+  .reflection { white-space: pre-wrap; font-size: 1.05rem; }
+  mark { border-radius: 2px; padding: 0 1px; color: inherit; }
+  ${Object.entries(MARK_COLOR).map(([type, color]) => `mark.${type} { background: ${color}; }`).join("\n  ")}
+  sup { color: #be185d; font-size: 0.7em; }
+  .legend span { margin-right: 0.75rem; }
+  ol.notes { font-size: 0.85rem; color: #404040; padding-left: 1.25rem; }
+  ul.goals { list-style: none; padding-left: 0; }
+  blockquote { margin: 0.5rem 0; padding: 0.5rem 0.75rem; border-left: 3px solid #f9a8d4; background: #fdf2f8; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    article { border: none; padding: 0; margin: 0; }
+    article + article { break-before: page; }
+    mark, blockquote { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+/**
+ * A self-contained HTML document (inline styles, no scripts or external assets) ready to print
+ * or save as PDF from the browser. One reflection per printed page; tips are numbered notes
+ * because hover titles do not print.
+ */
+export function toHtml(entries: JournalEntry[], t: Messages, locale: UiLocale): string {
+  const title = t.exported.title;
+  return `<!doctype html>
+<html lang="${escapeHtml(locale)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta legend">${(Object.keys(MARK_COLOR) as IssueType[])
+    .map((type) => `<span><mark class="${type}">${escapeHtml(t.issueTypes[type])}</mark></span>`)
+    .join("")}</p>
+${entries.map((entry, i) => entryHtml(entry, i, t, locale)).join("\n")}
+</body>
+</html>
+`;
+}
+
+function entryHtml(entry: JournalEntry, index: number, t: Messages, locale: UiLocale): string {
+  const { parts, notes } = annotate(entry);
+  const { result } = entry;
+  const noteId = (n: number) => `note-${index + 1}-${n}`;
+  const html: string[] = [`<article>`, `<h2>${escapeHtml(formatEntryDate(entry.date, locale))}</h2>`];
+  if (entry.drafts.length > 1) html.push(`<p class="meta">${escapeHtml(t.exported.draft(entry.drafts.length))}</p>`);
+
+  const body = parts
+    .map((p) => {
+      const marks = p.notes.map((n) => `<sup><a href="#${noteId(n)}">${n}</a></sup>`).join("");
+      return p.type === "plain" ? escapeHtml(p.text) + marks : `<mark class="${p.type}">${escapeHtml(p.text)}</mark>${marks}`;
+    })
+    .join("");
+  html.push(`<p class="reflection">${body}</p>`);
+
+  if (result.goals?.length) {
+    html.push(`<h3>${escapeHtml(t.exported.goals)}</h3>`, `<ul class="goals">`);
+    for (const g of result.goals) {
+      html.push(`<li>${g.status === "covered" ? "✓" : g.status === "partial" ? "◐" : "○"} ${escapeHtml(g.goal)} <span class="meta">(${escapeHtml(t.goalStatus[g.status])})</span></li>`);
+    }
+    html.push(`</ul>`);
+  }
+
+  if (result.topTips.length > 0) {
+    html.push(`<h3>${escapeHtml(t.exported.fixes)}</h3>`, `<ul>`);
+    for (const tip of result.topTips) {
+      const examples = tip.examples.map((ex) => `<li>${escapeHtml(ex.before)} → <strong>${escapeHtml(ex.after)}</strong></li>`).join("");
+      html.push(`<li><strong>${escapeHtml(tip.title)}</strong>: ${escapeHtml(tip.why)}${examples ? `<ul>${examples}</ul>` : ""}</li>`);
+    }
+    html.push(`</ul>`);
+  }
+
+  if (result.example) {
+    const after = result.example.afterParts.map((p) => (p.bold ? `<strong>${escapeHtml(p.text)}</strong>` : escapeHtml(p.text))).join("");
+    html.push(`<h3>${escapeHtml(t.exported.example)}</h3>`, `<blockquote>${escapeHtml(result.example.before)}</blockquote>`, `<blockquote>${after}</blockquote>`);
+  }
+
+  if (notes.length > 0) {
+    html.push(`<ol class="notes">`);
+    notes.forEach((it, i) => html.push(`<li id="${noteId(i + 1)}">${escapeHtml(noteText(it, t))}</li>`));
+    html.push(`</ol>`);
+  }
+  html.push(`</article>`);
+  return html.join("\n");
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
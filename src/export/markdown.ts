@@ -0,0 +1,65 @@
+import type { UiLocale } from "../i18n/locales";
+import type { Messages } from "../i18n/messages";
+import type { JournalEntry } from "../journal/repository";
+import { annotate, formatEntryDate, noteText } from "./annotate";
+
+/**
+ * Reflections with their feedback as Markdown. Highlights become bold text with a footnote
+ * carrying the tip; the example's changed words stay bold.
+ */
+export function toMarkdown(entries: JournalEntry[], t: Messages, locale: UiLocale): string {
+  const blocks = [`# ${escapeMarkdown(t.exported.title)}`];
+  for (const [i, entry] of entries.entries()) blocks.push(entryMarkdown(entry, i + 1, t, locale));
+  return blocks.join("\n\n") + "\n";
+}
+
+function entryMarkdown(entry: JournalEntry, index: number, t: Messages, locale: UiLocale): string {
+  const { parts, notes } = annotate(entry);
+  const { result } = entry;
+  // Footnote labels must be unique across the whole document
+  const ref = (n: number) => `[^${index}-${n}]`;
+  const lines: string[] = [`## ${formatEntryDate(entry.date, locale)}`];
+  if (entry.drafts.length > 1) lines.push(`_${escapeMarkdown(t.exported.draft(entry.drafts.length))}_`);
+
+  const body = parts
+    .map((p) => {
+      const marks = p.notes.map(ref).join("");
+      if (p.type === "plain") return escapeMarkdown(p.text) + marks;
+      // Emphasis may not span a line break, so bold each line separately
+      return p.text.split("\n").map((line) => (line.trim() ? `**${escapeMarkdown(line)}**` : line)).join("\n") + marks;
+    })
+    .join("");
+  lines.push(body.replace(/\n/g, "  \n"));
+
+  if (result.goals?.length) {
+    lines.push(`### ${t.exported.goals}`);
+    lines.push(result.goals.map((g) => `- [${g.status === "covered" ? "x" : " "}] ${escapeMarkdown(g.goal)} (${t.goalStatus[g.status]})`).join("\n"));
+  }
+
+  if (result.topTips.length > 0) {
+    lines.push(`### ${t.exported.fixes}`);
+    lines.push(
+      result.topTips
+        .map((tip) => {
+          const examples = tip.examples.map((ex) => `  - ${escapeMarkdown(ex.before)} → **${escapeMarkdown(ex.after)}**`);
+          return [`- **${escapeMarkdown(tip.title)}**: ${escapeMarkdown(tip.why)}`, ...examples].join("\n");
+        })
+        .join("\n")
+    );
+  }
+
+  if (result.example) {
+    const after = result.example.afterParts.map((p) => (p.bold && p.text.trim() ? `**${escapeMarkdown(p.text)}**` : escapeMarkdown(p.text))).join("");
+    lines.push(`### ${t.exported.example}`);
+    lines.push(`> ${escapeMarkdown(result.example.before)}\n>\n> ${after}`);
+  }
+
+  if (notes.length > 0) {
+    lines.push(notes.map((it, i) => `${ref(i + 1)}: ${escapeMarkdown(noteText(it, t))}`).join("\n"));
+  }
+  return lines.join("\n\n");
+}
+
+function escapeMarkdown(s: string): string {
+  return s.replace(/[\\`*_{}[\]<>#|~]/g, "\\$&").replace(/^(\s*)([-+])(\s)/gm, "$1\\$2$3").replace(/^(\s*\d+)\.(\s)/gm, "$1\\.$2");
+}
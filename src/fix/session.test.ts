@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import type { EvalResult, Issue } from "../types";
+import { applyFix, checkFix, currentItem, isFinished, remainingIssues, resolvedIssues, skipCurrent, startFixSession, type FixSession } from "./session";
+
+const TEXT = "Today i went to scool. I was nervus but happy.";
+
+function span(type: Issue["type"], quote: string, text = TEXT): Issue {
+  const start = text.indexOf(quote);
+  return { type, start, end: start + quote.length };
+}
+
+const PRONOUN = span("grammar", "i went");
+const SCOOL = span("spell", "scool");
+const NERVUS = span("spell", "nervus");
+const SENTENCE = span("clarity", "I was nervus but happy.");
+
+// The words each span covers in the session's current text
+const quotes = (s: FixSession, issues: Issue[]) => issues.map((i) => s.text.slice(i.start, i.end));
+
+describe("startFixSession", () => {
+  it("orders the issues and starts at the first one", () => {
+    const s = startFixSession(TEXT, [NERVUS, SCOOL, PRONOUN]);
+    expect(s.items.map((it) => it.original)).toEqual(["i went", "scool", "nervus"]);
+    expect(s.items.every((it) => it.status === "open")).toBe(true);
+    expect(currentItem(s)?.issue).toEqual(PRONOUN);
+  });
+
+  it("leaves out spans that do not fit the text", () => {
+    const s = startFixSession(TEXT, [{ type: "spell", start: 40, end: 60 }, { type: "spell", start: 5, end: 5 }, { type: "spell", start: -1, end: 3 }, SCOOL]);
+    expect(s.items.map((it) => it.issue)).toEqual([SCOOL]);
+  });
+
+  it("is finished at once when there is nothing to fix", () => {
+    expect(isFinished(startFixSession(TEXT, []))).toBe(true);
+  });
+});
+
+describe("applyFix", () => {
+  it("splices the rewrite in and moves to the next issue", () => {
+    const s = applyFix(startFixSession(TEXT, [SCOOL, NERVUS]), "school");
+    expect(s.text).toBe("Today i went to school. I was nervus but happy.");
+    expect(s.items[0]).toMatchObject({ status: "resolved", original: "scool" });
+    expect(currentItem(s)?.original).toBe("nervus");
+  });
+
+  it("shifts later spans by the change in length", () => {
+    const s = applyFix(startFixSession(TEXT, [SCOOL, NERVUS]), "the school");
+    expect(quotes(s, resolvedIssues(s))).toEqual(["the school"]);
+    expect(quotes(s, remainingIssues(s))).toEqual(["nervus"]);
+  });
+
+  it("leaves earlier spans where they are", () => {
+    const first = skipCurrent(startFixSession(TEXT, [PRONOUN, NERVUS]));
+    const s = applyFix(first, "nervous");
+    expect(s.text).toBe("Today i went to scool. I was nervous but happy.");
+    expect(quotes(s, remainingIssues(s))).toEqual(["i went"]);
+  });
+
+  it("stretches a wider span around the rewrite", () => {
+    let s = startFixSession(TEXT, [SENTENCE, NERVUS]);
+    s = skipCurrent(s);
+    s = applyFix(s, "very nervous");
+    expect(quotes(s, remainingIssues(s))).toEqual(["I was very nervous but happy."]);
+  });
+
+  it("resolves an open issue the rewrite overlaps", () => {
+    const overlap = span("grammar", "to scool");
+    const s = applyFix(startFixSession(TEXT, [overlap, SCOOL]), "to school");
+    expect(s.items.map((it) => it.status)).toEqual(["resolved", "resolved"]);
+    expect(quotes(s, resolvedIssues(s))).toEqual(["to school", "to school"]);
+    expect(isFinished(s)).toBe(true);
+  });
+
+  it("does nothing once the walk is over", () => {
+    const done = applyFix(startFixSession(TEXT, [SCOOL]), "school");
+    expect(applyFix(done, "anything")).toBe(done);
+  });
+});
+
+describe("skipCurrent", () => {
+  it("marks the issue skipped, keeps the text and moves on", () => {
+    const s = skipCurrent(startFixSession(TEXT, [SCOOL, NERVUS]));
+    expect(s.text).toBe(TEXT);
+    expect(s.items.map((it) => it.status)).toEqual(["skipped", "open"]);
+    expect(currentItem(s)?.original).toBe("nervus");
+  });
+
+  it("finishes after the last issue and keeps skipped ones remaining", () => {
+    const s = skipCurrent(applyFix(startFixSession(TEXT, [SCOOL, NERVUS]), "school"));
+    expect(isFinished(s)).toBe(true);
+    expect(currentItem(s)).toBeUndefined();
+    expect(skipCurrent(s)).toBe(s);
+    expect(quotes(s, remainingIssues(s))).toEqual(["nervus"]);
+    expect(quotes(s, resolvedIssues(s))).toEqual(["school"]);
+  });
+});
+
+describe("checkFix", () => {
+  const result = (issues: Issue[]): EvalResult => ({ issues, topTips: [] });
+
+  it("sends only the sentence around the rewrite", async () => {
+    const evaluate = vi.fn(async () => result([]));
+    const s = skipCurrent(startFixSession(TEXT, [SCOOL, NERVUS]));
+    await expect(checkFix(s, "nervous", evaluate)).resolves.toBe(true);
+    expect(evaluate).toHaveBeenCalledWith("I was nervous but happy.");
+  });
+
+  it("fails when the evaluator still flags the rewritten words", async () => {
+    const s = startFixSession(TEXT, [SCOOL]);
+    const snippet = "Today i went to skool.";
+    const evaluate = async () => result([span("grammar", "i", snippet), span("spell", "skool", snippet)]);
+    await expect(checkFix(s, "skool", evaluate)).resolves.toBe(false);
+  });
+
+  it("passes when the evaluator only flags other words in the sentence", async () => {
+    const s = startFixSession(TEXT, [SCOOL]);
+    const evaluate = async () => result([span("grammar", "i", "Today i went to school.")]);
+    await expect(checkFix(s, "school", evaluate)).resolves.toBe(true);
+  });
+
+  it.each([
+    ["an empty rewrite", "  "],
+    ["the words left as they were", "scool"],
+  ])("refuses %s without asking the evaluator", async (_name, replacement) => {
+    const evaluate = vi.fn(async () => result([]));
+    await expect(checkFix(startFixSession(TEXT, [SCOOL]), replacement, evaluate)).resolves.toBe(false);
+    expect(evaluate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { sentencesAround } from "../text/tokenizer";
+import type { EvalResult, Issue } from "../types";
+
+/**
+ * "Fix this with me": a step-by-step pass over the issue spans of one evaluation.
+ * Pure state transitions only; the panel component owns input and async checking.
+ */
+
+export type FixStatus = "open" | "resolved" | "skipped";
+
+export type FixItem = {
+  issue: Issue;     // span always points into FixSession.text (shifted as earlier fixes land)
+  original: string; // the highlighted words as first submitted
+  status: FixStatus;
+};
+
+export type FixSession = {
+  text: string;
+  items: FixItem[];
+  current: number; // index into items; items.length when the walk is over
+};
+
+export function startFixSession(text: string, issues: Issue[]): FixSession {
+  const items = issues
+    .filter((it) => it.start >= 0 && it.end <= text.length && it.start < it.end)
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+    .map((issue) => ({ issue, original: text.slice(issue.start, issue.end), status: "open" as const }));
+  return { text, items, current: nextOpen(items, -1) };
+}
+
+export function currentItem(s: FixSession): FixItem | undefined {
+  return s.items[s.current];
+}
+
+export function isFinished(s: FixSession): boolean {
+  return s.current >= s.items.length;
+}
+
+/** Splices the learner's rewrite into the text, shifts later spans and moves to the next open issue. */
+export function applyFix(s: FixSession, replacement: string): FixSession {
+  const item = currentItem(s);
+  if (!item) return s;
+  const { start, end } = item.issue;
+  const delta = replacement.length - (end - start);
+  const fixedSpan = { start, end: start + replacement.length };
+
+  const items = s.items.map((it, i): FixItem => {
+    if (i === s.current) return { ...it, status: "resolved", issue: { ...it.issue, ...fixedSpan } };
+    const { start: a, end: b } = it.issue;
+    if (a >= end) return { ...it, issue: { ...it.issue, start: a + delta, end: b + delta } };
+    if (b <= start) return it;
+    // A wider span (e.g. a whole run-on sentence) just stretches around the rewrite
+    if (a <= start && b >= end) return { ...it, issue: { ...it.issue, end: b + delta } };
+    // Overlapped the rewritten words: the rewrite covers it too
+    return { ...it, status: it.status === "open" ? "resolved" : it.status, issue: { ...it.issue, ...fixedSpan } };
+  });
+
+  return {
+    text: s.text.slice(0, start) + replacement + s.text.slice(end),
+    items,
+    current: nextOpen(items, s.current),
+  };
+}
+
+export function skipCurrent(s: FixSession): FixSession {
+  if (!currentItem(s)) return s;
+  const items = s.items.map((it, i): FixItem => (i === s.current ? { ...it, status: "skipped" } : it));
+  return { ...s, items, current: nextOpen(items, s.current) };
+}
+
+/**
+ * Re-checks only the sentence around the current span with the rewrite in place.
+ * The fix counts when the evaluator reports nothing inside the rewritten words.
+ */
+export async function checkFix(
+  s: FixSession,
+  replacement: string,
+  evaluate: (snippet: string) => Promise<EvalResult>
+): Promise<boolean> {
+  const item = currentItem(s);
+  if (!item || replacement.trim() === "" || replacement === s.text.slice(item.issue.start, item.issue.end)) return false;
+  const { start, end } = item.issue;
+  const candidate = s.text.slice(0, start) + replacement + s.text.slice(end);
+  // The evaluator gets the whole sentence(s) around the fix for context
+  const bounds = sentencesAround(candidate, start, start + replacement.length);
+  const snippet = candidate.slice(bounds.start, bounds.end);
+  const from = start - bounds.start;
+  const to = from + replacement.length;
+  const { issues } = await evaluate(snippet);
+  return !issues.some((it) => it.start < to && it.end > from);
+}
+
+/** Open issues that still need work, with their spans in the session's current text. */
+export function remainingIssues(s: FixSession): Issue[] {
+  return s.items.filter((it) => it.status !== "resolved").map((it) => it.issue);
+}
+
+export function resolvedIssues(s: FixSession): Issue[] {
+  return s.items.filter((it) => it.status === "resolved").map((it) => it.issue);
+}
+
+function nextOpen(items: FixItem[], after: number): number {
+  for (let i = after + 1; i < items.length; i++) if (items[i].status === "open") return i;
+  return items.length;
+}
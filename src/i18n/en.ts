@@ -0,0 +1,263 @@
+import { ASSIGNMENT_MESSAGES } from "../classroom/classroom";
+import { EVALUATION_LIMITS } from "../evaluation/limits";
+import { CEFR_LABELS, NATIVE_LANGUAGES } from "../profile/profile";
+import type { Messages } from "./messages";
+
+const plural = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+export const en: Messages = {
+  appTitle: "Daily Reflection",
+  tagline: "Write • See • Fix",
+  language: "Language",
+  overview: "Overview",
+  focus: "Focus",
+  classPanel: "Class",
+  reviewPanel: (due) => (due > 0 ? `Review (${due})` : "Review"),
+  progressPanel: "Progress",
+  settingsPanel: "Settings",
+
+  profileHeading: "Your learner profile",
+  classHeading: "Class",
+  reviewHeading: "Word practice",
+  progressHeading: "Am I getting better?",
+  journalHeading: "Your journal",
+
+  classAssignment: "Class assignment:",
+  teacherWillSee: "Your teacher will see what you submit.",
+  revising: (draft) => `Revising this reflection: submitting saves draft ${draft}.`,
+  newReflection: "New reflection",
+  placeholder: (min) => `Write at least ${plural(min, "sentence", "sentences")}. Keep it honest and clear.`,
+  sentenceMeter: (count, min) => `${plural(count, "sentence", "sentences")} • minimum ${min}`,
+  submit: "Submit",
+  checking: "Checking…",
+
+  originalHeading: "Your original",
+  originalNote: "We always show your words first, unchanged.",
+  revisionsHeading: "Your revisions",
+  fixesHeading: "Today’s fixes",
+  fixWithMe: "Fix this with me",
+  noMajorFixes: "No major fixes today. Nice work! Try polishing your style with a stronger feeling word.",
+  pickingFixes: "Picking your top fixes…",
+  fixesEmpty: "Submit to see clear, compact feedback you can act on in under two minutes.",
+  exampleHeading: "One example",
+  rewriting: "Rewriting one of your sentences…",
+  exampleEmpty: "We’ll show one corrected version of your own sentence with the changes bolded.",
+  tryItLikeThis: "Try it like this",
+  yours: "Yours",
+  clearer: "Clearer",
+  footer: "Gentle loop: write • see • fix",
+
+  checkingAnnouncement: "Checking your reflection…",
+  resultReady: (issues, tips) => {
+    const total = issues.reduce((sum, it) => sum + it.count, 0);
+    const kinds = issues.map((it) => `${it.count} ${en.issueTypes[it.type].toLowerCase()}`).join(", ");
+    const highlights = total === 0 ? "no highlights" : `${plural(total, "highlight", "highlights")} (${kinds})`;
+    const fixes = tips === 0 ? "no fixes needed" : `${plural(tips, "fix", "fixes")} to try`;
+    return `Feedback is ready: ${highlights} and ${fixes}.`;
+  },
+  handedIn: (summary) => `Handed in. ${summary}`,
+  issueTypes: {
+    spell: "Spelling",
+    grammar: "Grammar",
+    clarity: "Clarity",
+    structure: "Structure",
+  },
+  fixed: "Fixed",
+  goalStatus: {
+    covered: "covered",
+    partial: "partly covered",
+    missing: "not covered yet",
+  },
+  levels: CEFR_LABELS,
+  languages: NATIVE_LANGUAGES,
+
+  offlineFallback: "Using offline feedback because the server is not available. Spelling and sentence checks still work.",
+  offlineQueued: "You are offline, so these are quick offline checks. Your reflection is saved and gets full feedback when you are back online.",
+  waitingToSend: (count) => `${plural(count, "reflection is", "reflections are")} waiting to be checked online.`,
+  deliveredLater: "Full feedback arrived for a reflection you wrote offline.",
+  feedbackFailed: "Feedback could not be created right now. Your writing is still here, so try again in a moment.",
+  handInFailed: (reason) => `Your reflection was not handed in: ${reason} Your writing is still here, so try again.`,
+  confirmDelete: "Delete this reflection? This cannot be undone.",
+  // Refusals (limits, rate limiting) never fall back to offline feedback
+  errors: {
+    rate_limited: "You asked for feedback many times in a short while. Take a short break and try again in a minute.",
+    text_too_long: `That is a lot of writing! Keep it under ${EVALUATION_LIMITS.maxChars} characters so the feedback can focus.`,
+    too_many_words: `That is a lot of writing! Keep it under ${EVALUATION_LIMITS.maxWords} words so the feedback can focus.`,
+    too_few_sentences: "Add another sentence or two first. Your reflection is shorter than the minimum.",
+    unsupported_level: "Your target level is not supported. Choose another one in Settings.",
+    unsupported_locale: "Feedback is not available in your language yet.",
+    invalid_request: "Something was wrong with that request. Reload the page and try again.",
+    timeout: "Feedback is taking too long right now. Your writing is still here, so try again in a moment.",
+    malformed_json: "Feedback could not be read this time. Your writing is still here, so try again in a moment.",
+    invalid_shape: "Feedback could not be read this time. Your writing is still here, so try again in a moment.",
+  },
+  journalErrors: {
+    load_failed: "Your journal could not be loaded on this device.",
+    save_failed: "This reflection could not be saved on this device.",
+    delete_failed: "This reflection could not be deleted.",
+    import_failed: "Some reflections could not be imported on this device.",
+  },
+  validation: ASSIGNMENT_MESSAGES,
+
+  preview: {
+    empty: "Your writing shows here after you submit.",
+    label: (highlights) => (highlights > 0 ? `Your writing with ${plural(highlights, "highlight", "highlights")}` : "Your writing"),
+    fixedAs: (type) => `Fixed (${type.toLowerCase()})`,
+    noTip: "Take another look at these words.",
+    legend: "Highlight key",
+  },
+  goalsLabel: "Writing goals",
+  promptPicker: {
+    daily: (theme) => `Today’s prompt • ${theme}`,
+    followingUp: "Following up on your last reflection",
+    another: "Another prompt",
+    backToDaily: "Back to today’s prompt",
+    followUp: "Follow up on last time",
+    writingFollowUp: "Writing a follow-up…",
+  },
+  fixSession: {
+    result: (resolved, total) => `You fixed ${resolved} of ${total}.`,
+    allDone: "Every highlight is done. Great work!",
+    someSkipped: "Skipped ones stay highlighted so you can come back later.",
+    useFixed: "Use my fixed text",
+    step: (step, total) => `Step ${step} of ${total}`,
+    retype: "Retype the highlighted part",
+    notYet: "Not quite yet. Change the highlighted words and check again.",
+    check: "Check",
+    skip: "Skip",
+    stop: "Stop for now",
+  },
+  history: {
+    empty: "Nothing saved yet. Every reflection you submit is kept here, day by day.",
+    highlights: (count) => plural(count, "highlight", "highlights"),
+    drafts: (count) => plural(count, "draft", "drafts"),
+    open: "Open",
+    delete: "Delete",
+  },
+  revisions: {
+    chooseDraft: "Choose a draft",
+    draftPair: (from, to) => `Draft ${from} → ${to}`,
+    fixedCount: (count) => `${count} fixed`,
+    stillThereCount: (count) => `${count} still there`,
+    newCount: (count) => `${count} new`,
+    fixed: "Fixed",
+    stillThere: "Still there",
+    new: "New",
+  },
+  transfer: {
+    whatToDownload: "What to download",
+    all: (count) => `All reflections (${count})`,
+    open: "The open reflection",
+    download: "Download:",
+    formats: { markdown: "Markdown", html: "Printable page", json: "Backup (JSON)" },
+    importBackup: "Import backup",
+    imported: (added, updated, unchanged) => `Imported ${plural(added, "new reflection", "new reflections")}, updated ${updated}, ${unchanged} already here.`,
+    skipped: (count) => `${plural(count, "damaged reflection was", "damaged reflections were")} left out.`,
+    errors: {
+      not_json: "This file is not valid JSON.",
+      not_journal: "This file is not a Daily Reflection journal export.",
+      no_version: "This journal export has no valid version.",
+      newer_version: "This journal was exported by a newer version of the app. Update the app and try again.",
+      no_entries: "This journal export has no entries.",
+    },
+  },
+  exported: {
+    title: "My reflection journal",
+    draft: (draft) => `Draft ${draft} of this reflection.`,
+    goals: "Goals",
+    fixes: "Fixes",
+    example: "One example",
+  },
+  vocabulary: {
+    empty: "Words you misspell or swap in your reflections collect here, so you can practise them.",
+    due: (count) => `${plural(count, "word", "words")} to practise`,
+    allCaughtUp: "All caught up",
+    nothingDue: "Nothing is due today. New mistakes from your reflections will show up here.",
+    troubleWords: "Your trouble words",
+    next: (date) => `next ${date}`,
+    spelledLike: "You spelled this word like this:",
+    usedInstead: "You used this word where another one fits better:",
+    typeCorrectly: "Type it correctly",
+    typeBetter: "Type the better word",
+    check: "Check",
+    right: "Yes! It is",
+    wrong: "Not quite. It is",
+    howWell: "How well did you know it?",
+    grades: {
+      again: { label: "Again", hint: "I got it wrong" },
+      hard: { label: "Hard", hint: "Right, but it took a while" },
+      good: { label: "Good", hint: "Right" },
+      easy: { label: "Easy", hint: "Right away" },
+    },
+  },
+  progress: {
+    empty: "Your progress shows up here once you have saved a few reflections.",
+    streak: "Day streak",
+    longestStreak: "Longest streak",
+    reflections: "Reflections",
+    wordsWritten: "Words written",
+    words: "Words per reflection",
+    wordsCaption: "Weekly average. Longer usually means more detail.",
+    sentences: "Sentences per reflection",
+    sentencesCaption: "Weekly average.",
+    highlights: "Highlights per 100 words",
+    highlightsCaption: "Lower is better. Split by kind of fix.",
+    themes: "Tips that keep coming back",
+    themesCaption: "The same advice in more than one reflection.",
+    noThemes: "No repeats yet. Each tip has only come up once.",
+  },
+  profile: {
+    firstLanguage: "First language",
+    targetLevel: "Target level",
+    explainInFirstLanguage: "Explain tips in my first language",
+    explainNote: "(examples stay in English; offline feedback is English only)",
+    goals: "Writing goals",
+    goal: (n) => `Goal ${n}`,
+    removeGoal: "Remove",
+    addGoal: "Add goal",
+    minSentences: "Minimum sentences",
+    cancel: "Cancel",
+    save: "Save",
+  },
+  classroom: {
+    yourClass: "Your class",
+    enrolledFor: "You are writing for",
+    enrolledAs: (name) => `as ${name}. Your teacher sees what you submit and the feedback you get.`,
+    leave: "Leave assignment",
+    join: "Join a class",
+    joinCode: "Join code",
+    yourName: "Your name",
+    nameMissing: "Add your name so your teacher knows whose writing this is.",
+    joining: "Joining…",
+    joinButton: "Join",
+    submissions: "Your submissions",
+    checkComments: "Check for comments",
+    loadingSubmissions: "Loading your submissions…",
+    commentsFailed: "The comments on this one could not be loaded.",
+    noComments: "No comments from your teacher yet.",
+    create: "Teach: new assignment",
+    title: "Title",
+    prompt: "Prompt",
+    goals: "Goals (one per line)",
+    level: "Level",
+    creating: "Creating…",
+    createButton: "Create assignment",
+    shareCode: "Share the join code",
+    shareCodeAfter: "with your class. The key that opens the submissions is kept in this browser only, so review from here.",
+    yourAssignments: "Your assignments",
+    review: "Review",
+  },
+  review: {
+    back: "Back",
+    loading: "Loading submissions…",
+    none: (code) => `No submissions yet. Share the code ${code} with your class.`,
+    feedbackSeen: "Feedback the student saw",
+    noFixes: "No major fixes.",
+    goals: "Goals",
+    commentOn: "Comment on",
+    saving: "Saving…",
+    addComment: "Add comment",
+    cancel: "Cancel",
+    selectToComment: "Select some words to comment on them.",
+  },
+};
@@ -0,0 +1,299 @@
+import { EVALUATION_LIMITS } from "../evaluation/limits";
+import type { Messages } from "./messages";
+
+const plural = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+export const es: Messages = {
+  appTitle: "Reflexión diaria",
+  tagline: "Escribe • Mira • Corrige",
+  language: "Idioma",
+  overview: "Resumen",
+  focus: "Enfoque",
+  classPanel: "Clase",
+  reviewPanel: (due) => (due > 0 ? `Repaso (${due})` : "Repaso"),
+  progressPanel: "Progreso",
+  settingsPanel: "Ajustes",
+
+  profileHeading: "Tu perfil de aprendizaje",
+  classHeading: "Clase",
+  reviewHeading: "Práctica de palabras",
+  progressHeading: "¿Estoy mejorando?",
+  journalHeading: "Tu diario",
+
+  classAssignment: "Tarea de clase:",
+  teacherWillSee: "Tu profesor verá lo que entregues.",
+  revising: (draft) => `Estás revisando esta reflexión: al enviarla se guarda el borrador ${draft}.`,
+  newReflection: "Nueva reflexión",
+  placeholder: (min) => `Escribe al menos ${plural(min, "oración", "oraciones")} en inglés. Sé sincero y claro.`,
+  sentenceMeter: (count, min) => `${plural(count, "oración", "oraciones")} • mínimo ${min}`,
+  submit: "Enviar",
+  checking: "Revisando…",
+
+  originalHeading: "Tu original",
+  originalNote: "Siempre mostramos primero tus palabras, sin cambios.",
+  revisionsHeading: "Tus revisiones",
+  fixesHeading: "Correcciones de hoy",
+  fixWithMe: "Corrígelo conmigo",
+  noMajorFixes: "Hoy no hay correcciones importantes. ¡Buen trabajo! Prueba a pulir tu estilo con una palabra más expresiva.",
+  pickingFixes: "Eligiendo tus correcciones principales…",
+  fixesEmpty: "Envía tu texto para ver comentarios claros y breves que puedes aplicar en menos de dos minutos.",
+  exampleHeading: "Un ejemplo",
+  rewriting: "Reescribiendo una de tus oraciones…",
+  exampleEmpty: "Te mostraremos una versión corregida de tu propia oración con los cambios en negrita.",
+  tryItLikeThis: "Pruébalo así",
+  yours: "La tuya",
+  clearer: "Más clara",
+  footer: "Ciclo tranquilo: escribe • mira • corrige",
+
+  checkingAnnouncement: "Revisando tu reflexión…",
+  resultReady: (issues, tips) => {
+    const total = issues.reduce((sum, it) => sum + it.count, 0);
+    const kinds = issues.map((it) => `${it.count} de ${es.issueTypes[it.type].toLowerCase()}`).join(", ");
+    const highlights = total === 0 ? "ninguna marca" : `${plural(total, "marca", "marcas")} (${kinds})`;
+    const fixes = tips === 0 ? "nada que corregir" : `${plural(tips, "corrección", "correcciones")} para probar`;
+    return `Tus comentarios están listos: ${highlights} y ${fixes}.`;
+  },
+  handedIn: (summary) => `Entregada. ${summary}`,
+  issueTypes: {
+    spell: "Ortografía",
+    grammar: "Gramática",
+    clarity: "Claridad",
+    structure: "Estructura",
+  },
+  fixed: "Corregido",
+  goalStatus: {
+    covered: "cumplido",
+    partial: "cumplido en parte",
+    missing: "todavía sin cumplir",
+  },
+  levels: {
+    A1: "A1 – Principiante",
+    A2: "A2 – Elemental",
+    B1: "B1 – Intermedio",
+    B2: "B2 – Intermedio alto",
+    C1: "C1 – Avanzado",
+    C2: "C2 – Maestría",
+  },
+  languages: {
+    ar: "Árabe",
+    zh: "Chino",
+    en: "Inglés",
+    fr: "Francés",
+    de: "Alemán",
+    hi: "Hindi",
+    it: "Italiano",
+    ja: "Japonés",
+    ko: "Coreano",
+    fa: "Persa",
+    pl: "Polaco",
+    pt: "Portugués",
+    ru: "Ruso",
+    so: "Somalí",
+    es: "Español",
+    tl: "Tagalo",
+    tr: "Turco",
+    uk: "Ucraniano",
+    vi: "Vietnamita",
+  },
+
+  offlineFallback: "Usamos comentarios sin conexión porque el servidor no está disponible. La ortografía y las oraciones se siguen revisando.",
+  offlineQueued: "No tienes conexión, así que estas son revisiones rápidas sin conexión. Tu reflexión está guardada y recibirá comentarios completos cuando vuelvas a conectarte.",
+  waitingToSend: (count) => `${plural(count, "reflexión espera", "reflexiones esperan")} la revisión en línea.`,
+  deliveredLater: "Llegaron los comentarios completos de una reflexión que escribiste sin conexión.",
+  feedbackFailed: "No se pudieron crear los comentarios ahora. Tu texto sigue aquí, así que inténtalo de nuevo en un momento.",
+  handInFailed: (reason) => `Tu reflexión no se entregó: ${reason} Tu texto sigue aquí, así que inténtalo de nuevo.`,
+  confirmDelete: "¿Borrar esta reflexión? No se puede deshacer.",
+  errors: {
+    rate_limited: "Has pedido comentarios muchas veces en poco tiempo. Descansa un poco e inténtalo de nuevo en un minuto.",
+    text_too_long: `¡Eso es mucho texto! Escribe menos de ${EVALUATION_LIMITS.maxChars} caracteres para que los comentarios se centren.`,
+    too_many_words: `¡Eso es mucho texto! Escribe menos de ${EVALUATION_LIMITS.maxWords} palabras para que los comentarios se centren.`,
+    too_few_sentences: "Añade una o dos oraciones más. Tu reflexión es más corta que el mínimo.",
+    unsupported_level: "Tu nivel objetivo no está disponible. Elige otro en Ajustes.",
+    unsupported_locale: "Los comentarios todavía no están disponibles en tu idioma.",
+    invalid_request: "Algo falló en esa solicitud. Recarga la página e inténtalo de nuevo.",
+    timeout: "Los comentarios están tardando demasiado. Tu texto sigue aquí, así que inténtalo de nuevo en un momento.",
+    malformed_json: "Esta vez no se pudieron leer los comentarios. Tu texto sigue aquí, así que inténtalo de nuevo en un momento.",
+    invalid_shape: "Esta vez no se pudieron leer los comentarios. Tu texto sigue aquí, así que inténtalo de nuevo en un momento.",
+  },
+  journalErrors: {
+    load_failed: "No se pudo cargar tu diario en este dispositivo.",
+    save_failed: "No se pudo guardar esta reflexión en este dispositivo.",
+    delete_failed: "No se pudo borrar esta reflexión.",
+    import_failed: "Algunas reflexiones no se pudieron importar en este dispositivo.",
+  },
+  validation: {
+    nativeLanguage: "Elige un idioma de la lista.",
+    level: (levels) => `El nivel debe ser uno de estos: ${levels}.`,
+    noGoals: "Añade al menos un objetivo de escritura.",
+    tooManyGoals: (max) => `Pon ${max} objetivos como máximo.`,
+    goalTooLong: (max) => `Cada objetivo debe tener menos de ${max} caracteres.`,
+    minSentences: (min, max) => `Elige un número entero del ${min} al ${max}.`,
+    noTitle: "Ponle un título a la tarea.",
+    titleTooLong: (max) => `El título debe tener menos de ${max} caracteres.`,
+    noPrompt: "Escribe una consigna para tus estudiantes.",
+    promptTooLong: (max) => `La consigna debe tener menos de ${max} caracteres.`,
+  },
+
+  preview: {
+    empty: "Tu texto aparece aquí cuando lo envías.",
+    label: (highlights) => (highlights > 0 ? `Tu texto con ${plural(highlights, "marca", "marcas")}` : "Tu texto"),
+    fixedAs: (type) => `Corregido (${type.toLowerCase()})`,
+    noTip: "Vuelve a mirar estas palabras.",
+    legend: "Qué significa cada marca",
+  },
+  goalsLabel: "Objetivos de escritura",
+  promptPicker: {
+    daily: (theme) => `Tema de hoy • ${theme}`,
+    followingUp: "Seguimos con tu última reflexión",
+    another: "Otro tema",
+    backToDaily: "Volver al tema de hoy",
+    followUp: "Seguir con la última vez",
+    writingFollowUp: "Escribiendo una continuación…",
+  },
+  fixSession: {
+    result: (resolved, total) => `Corregiste ${resolved} de ${total}.`,
+    allDone: "Todas las marcas están corregidas. ¡Muy bien!",
+    someSkipped: "Las que saltaste siguen marcadas para que vuelvas a ellas más tarde.",
+    useFixed: "Usar mi texto corregido",
+    step: (step, total) => `Paso ${step} de ${total}`,
+    retype: "Vuelve a escribir la parte marcada",
+    notYet: "Todavía no. Cambia las palabras marcadas y vuelve a comprobar.",
+    check: "Comprobar",
+    skip: "Saltar",
+    stop: "Parar por ahora",
+  },
+  history: {
+    empty: "Todavía no hay nada guardado. Cada reflexión que envías se guarda aquí, día a día.",
+    highlights: (count) => plural(count, "marca", "marcas"),
+    drafts: (count) => plural(count, "borrador", "borradores"),
+    open: "Abrir",
+    delete: "Borrar",
+  },
+  revisions: {
+    chooseDraft: "Elige un borrador",
+    draftPair: (from, to) => `Borrador ${from} → ${to}`,
+    fixedCount: (count) => `${count} ${count === 1 ? "corregida" : "corregidas"}`,
+    stillThereCount: (count) => `${count} ${count === 1 ? "sigue" : "siguen"} ahí`,
+    newCount: (count) => `${count} ${count === 1 ? "nueva" : "nuevas"}`,
+    fixed: "Corregidas",
+    stillThere: "Siguen ahí",
+    new: "Nuevas",
+  },
+  transfer: {
+    whatToDownload: "Qué descargar",
+    all: (count) => `Todas las reflexiones (${count})`,
+    open: "La reflexión abierta",
+    download: "Descargar:",
+    formats: { markdown: "Markdown", html: "Página para imprimir", json: "Copia de seguridad (JSON)" },
+    importBackup: "Importar copia",
+    imported: (added, updated, unchanged) =>
+      `Se importaron ${plural(added, "reflexión nueva", "reflexiones nuevas")}, ${updated} actualizadas y ${unchanged} que ya estaban.`,
+    skipped: (count) => (count === 1 ? "Se omitió 1 reflexión dañada." : `Se omitieron ${count} reflexiones dañadas.`),
+    errors: {
+      not_json: "Este archivo no es un JSON válido.",
+      not_journal: "Este archivo no es una exportación de un diario de Reflexión diaria.",
+      no_version: "Esta exportación del diario no tiene una versión válida.",
+      newer_version: "Este diario se exportó con una versión más nueva de la aplicación. Actualiza la aplicación e inténtalo de nuevo.",
+      no_entries: "Esta exportación del diario no tiene reflexiones.",
+    },
+  },
+  exported: {
+    title: "Mi diario de reflexiones",
+    draft: (draft) => `Borrador ${draft} de esta reflexión.`,
+    goals: "Objetivos",
+    fixes: "Correcciones",
+    example: "Un ejemplo",
+  },
+  vocabulary: {
+    empty: "Las palabras que escribes mal o confundes en tus reflexiones se juntan aquí para que las practiques.",
+    due: (count) => `${plural(count, "palabra", "palabras")} para practicar`,
+    allCaughtUp: "Todo al día",
+    nothingDue: "Hoy no toca nada. Los errores nuevos de tus reflexiones aparecerán aquí.",
+    troubleWords: "Tus palabras difíciles",
+    next: (date) => `próximo ${date}`,
+    spelledLike: "Escribiste esta palabra así:",
+    usedInstead: "Usaste esta palabra donde otra encaja mejor:",
+    typeCorrectly: "Escríbela bien",
+    typeBetter: "Escribe la palabra mejor",
+    check: "Comprobar",
+    right: "¡Sí! Es",
+    wrong: "Casi. Es",
+    howWell: "¿Qué tan bien la sabías?",
+    grades: {
+      again: { label: "Otra vez", hint: "Me equivoqué" },
+      hard: { label: "Difícil", hint: "Bien, pero me costó" },
+      good: { label: "Bien", hint: "Bien" },
+      easy: { label: "Fácil", hint: "Enseguida" },
+    },
+  },
+  progress: {
+    empty: "Tu progreso aparece aquí cuando hayas guardado algunas reflexiones.",
+    streak: "Días seguidos",
+    longestStreak: "Racha más larga",
+    reflections: "Reflexiones",
+    wordsWritten: "Palabras escritas",
+    words: "Palabras por reflexión",
+    wordsCaption: "Media semanal. Más largo suele significar más detalle.",
+    sentences: "Oraciones por reflexión",
+    sentencesCaption: "Media semanal.",
+    highlights: "Marcas cada 100 palabras",
+    highlightsCaption: "Menos es mejor. Separadas por tipo de corrección.",
+    themes: "Consejos que se repiten",
+    themesCaption: "El mismo consejo en más de una reflexión.",
+    noThemes: "Todavía no se repite nada. Cada consejo ha salido una sola vez.",
+  },
+  profile: {
+    firstLanguage: "Lengua materna",
+    targetLevel: "Nivel objetivo",
+    explainInFirstLanguage: "Explicar los consejos en mi lengua materna",
+    explainNote: "(los ejemplos siguen en inglés; los comentarios sin conexión solo están en inglés)",
+    goals: "Objetivos de escritura",
+    goal: (n) => `Objetivo ${n}`,
+    removeGoal: "Quitar",
+    addGoal: "Añadir objetivo",
+    minSentences: "Mínimo de oraciones",
+    cancel: "Cancelar",
+    save: "Guardar",
+  },
+  classroom: {
+    yourClass: "Tu clase",
+    enrolledFor: "Estás escribiendo para",
+    enrolledAs: (name) => `como ${name}. Tu profesor ve lo que entregas y los comentarios que recibes.`,
+    leave: "Dejar la tarea",
+    join: "Unirse a una clase",
+    joinCode: "Código de la clase",
+    yourName: "Tu nombre",
+    nameMissing: "Añade tu nombre para que tu profesor sepa de quién es el texto.",
+    joining: "Uniéndote…",
+    joinButton: "Unirse",
+    submissions: "Tus entregas",
+    checkComments: "Ver si hay comentarios",
+    loadingSubmissions: "Cargando tus entregas…",
+    commentsFailed: "No se pudieron cargar los comentarios de esta entrega.",
+    noComments: "Tu profesor todavía no ha comentado.",
+    create: "Enseñar: nueva tarea",
+    title: "Título",
+    prompt: "Consigna",
+    goals: "Objetivos (uno por línea)",
+    level: "Nivel",
+    creating: "Creando…",
+    createButton: "Crear tarea",
+    shareCode: "Comparte el código",
+    shareCodeAfter: "con tu clase. La clave que abre las entregas solo se guarda en este navegador, así que revísalas desde aquí.",
+    yourAssignments: "Tus tareas",
+    review: "Revisar",
+  },
+  review: {
+    back: "Volver",
+    loading: "Cargando entregas…",
+    none: (code) => `Todavía no hay entregas. Comparte el código ${code} con tu clase.`,
+    feedbackSeen: "Comentarios que vio el estudiante",
+    noFixes: "Sin correcciones importantes.",
+    goals: "Objetivos",
+    commentOn: "Comentar",
+    saving: "Guardando…",
+    addComment: "Añadir comentario",
+    cancel: "Cancelar",
+    selectToComment: "Selecciona algunas palabras para comentarlas.",
+  },
+};
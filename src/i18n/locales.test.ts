@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { isSupportedLocale } from "../evaluation/limits";
+import { detectLocale, isUiLocale, UI_LOCALES } from "./locales";
+
+describe("isUiLocale", () => {
+  it.each(["en", "es"])("accepts %j", (value) => expect(isUiLocale(value)).toBe(true));
+  it.each(["constructor", "toString", "__proto__", "fr", "", 1, null])("refuses %j", (value) => expect(isUiLocale(value)).toBe(false));
+});
+
+it.each(Object.keys(UI_LOCALES))("the evaluator accepts the UI locale %s", (locale) => {
+  expect(isSupportedLocale(locale)).toBe(true);
+});
+
+describe("detectLocale", () => {
+  it("takes the first browser language with a catalog", () => {
+    expect(detectLocale(["fr-FR", "es-MX", "en"])).toBe("es");
+  });
+
+  it("falls back to English", () => {
+    expect(detectLocale(["constructor", "de"])).toBe("en");
+    expect(detectLocale([])).toBe("en");
+  });
+});
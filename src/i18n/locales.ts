@@ -0,0 +1,26 @@
+import { en } from "./en";
+import { es } from "./es";
+import type { Messages } from "./messages";
+
+// Languages the interface is available in, each named in its own language for the switcher.
+// Adding one: write a catalog typed Messages and list it here.
+export const UI_LOCALES = {
+  en: "English",
+  es: "Español",
+} as const;
+export type UiLocale = keyof typeof UI_LOCALES;
+
+export const CATALOGS: Record<UiLocale, Messages> = { en, es };
+
+export function isUiLocale(value: unknown): value is UiLocale {
+  return typeof value === "string" && Object.hasOwn(UI_LOCALES, value);
+}
+
+/** The first browser language with a catalog ("es-MX" → "es"), else English. */
+export function detectLocale(languages: readonly string[]): UiLocale {
+  for (const tag of languages) {
+    const base = tag.toLowerCase().split("-")[0];
+    if (isUiLocale(base)) return base;
+  }
+  return "en";
+}
@@ -0,0 +1,227 @@
+import type { AssignmentMessages } from "../classroom/classroom";
+import type { EvaluationErrorCode } from "../evaluation/provider";
+import type { ArchiveErrorCode } from "../export/archive";
+import type { JournalErrorCode } from "../journal/useJournal";
+import type { CefrLevel, NativeLanguage } from "../profile/profile";
+import type { GoalStatus, IssueType } from "../types";
+
+// Interface text, one catalog per UI locale (en.ts, es.ts, ...). Every catalog is typed Messages, so a
+// missing or misspelled key fails the build. The app shell's text is at the top level; each panel has its
+// own group below. Feedback from the evaluator is not in here: it is written by the model (see
+// LearnerProfile.explainInNativeLanguage) or by the offline rules, in English.
+
+export type Messages = {
+  appTitle: string;
+  tagline: string;
+  language: string;
+  overview: string;
+  focus: string;
+  classPanel: string;
+  reviewPanel: (due: number) => string;
+  progressPanel: string;
+  settingsPanel: string;
+
+  profileHeading: string;
+  classHeading: string;
+  reviewHeading: string;
+  progressHeading: string;
+  journalHeading: string;
+
+  classAssignment: string;
+  teacherWillSee: string;
+  revising: (draft: number) => string;
+  newReflection: string;
+  placeholder: (min: number) => string;
+  sentenceMeter: (count: number, min: number) => string;
+  submit: string;
+  checking: string;
+
+  originalHeading: string;
+  originalNote: string;
+  revisionsHeading: string;
+  fixesHeading: string;
+  fixWithMe: string;
+  noMajorFixes: string;
+  pickingFixes: string;
+  fixesEmpty: string;
+  exampleHeading: string;
+  rewriting: string;
+  exampleEmpty: string;
+  tryItLikeThis: string;
+  yours: string;
+  clearer: string;
+  footer: string;
+
+  checkingAnnouncement: string;
+  // "Feedback is ready: 3 highlights (2 spelling, 1 grammar) and 2 fixes to try."
+  resultReady: (issues: { type: IssueType; count: number }[], tips: number) => string;
+  handedIn: (summary: string) => string;
+  issueTypes: Record<IssueType, string>;
+  fixed: string; // highlights resolved during a fix session
+  goalStatus: Record<GoalStatus, string>;
+  levels: Record<CefrLevel, string>;
+  languages: Record<NativeLanguage, string>;
+
+  offlineFallback: string;
+  offlineQueued: string;
+  waitingToSend: (count: number) => string;
+  deliveredLater: string;
+  feedbackFailed: string;
+  handInFailed: (reason: string) => string;
+  confirmDelete: string;
+  errors: Record<EvaluationErrorCode, string>;
+  journalErrors: Record<JournalErrorCode, string>;
+  validation: AssignmentMessages;
+
+  preview: {
+    empty: string;
+    label: (highlights: number) => string;
+    fixedAs: (type: string) => string;
+    noTip: string;
+    legend: string;
+  };
+  goalsLabel: string;
+  promptPicker: {
+    daily: (theme: string) => string;
+    followingUp: string;
+    another: string;
+    backToDaily: string;
+    followUp: string;
+    writingFollowUp: string;
+  };
+  fixSession: {
+    result: (resolved: number, total: number) => string;
+    allDone: string;
+    someSkipped: string;
+    useFixed: string;
+    step: (step: number, total: number) => string;
+    retype: string;
+    notYet: string;
+    check: string;
+    skip: string;
+    stop: string;
+  };
+  history: {
+    empty: string;
+    highlights: (count: number) => string;
+    drafts: (count: number) => string;
+    open: string;
+    delete: string;
+  };
+  revisions: {
+    chooseDraft: string;
+    draftPair: (from: number, to: number) => string;
+    fixedCount: (count: number) => string;
+    stillThereCount: (count: number) => string;
+    newCount: (count: number) => string;
+    fixed: string;
+    stillThere: string;
+    new: string;
+  };
+  transfer: {
+    whatToDownload: string;
+    all: (count: number) => string;
+    open: string;
+    download: string;
+    formats: Record<"markdown" | "html" | "json", string>;
+    importBackup: string;
+    imported: (added: number, updated: number, unchanged: number) => string;
+    skipped: (count: number) => string; // damaged reflections left out of an import
+    errors: Record<ArchiveErrorCode, string>;
+  };
+  // Headings in the Markdown and HTML exports
+  exported: {
+    title: string;
+    draft: (draft: number) => string;
+    goals: string;
+    fixes: string;
+    example: string;
+  };
+  vocabulary: {
+    empty: string;
+    due: (count: number) => string;
+    allCaughtUp: string;
+    nothingDue: string;
+    troubleWords: string;
+    next: (date: string) => string;
+    spelledLike: string;
+    usedInstead: string;
+    typeCorrectly: string;
+    typeBetter: string;
+    check: string;
+    right: string; // followed by the word: "Yes! It is <word>."
+    wrong: string;
+    howWell: string;
+    grades: Record<"again" | "hard" | "good" | "easy", { label: string; hint: string }>;
+  };
+  progress: {
+    empty: string;
+    streak: string;
+    longestStreak: string;
+    reflections: string;
+    wordsWritten: string;
+    words: string;
+    wordsCaption: string;
+    sentences: string;
+    sentencesCaption: string;
+    highlights: string;
+    highlightsCaption: string;
+    themes: string;
+    themesCaption: string;
+    noThemes: string;
+  };
+  profile: {
+    firstLanguage: string;
+    targetLevel: string;
+    explainInFirstLanguage: string;
+    explainNote: string;
+    goals: string;
+    goal: (n: number) => string;
+    removeGoal: string;
+    addGoal: string;
+    minSentences: string;
+    cancel: string;
+    save: string;
+  };
+  classroom: {
+    yourClass: string;
+    enrolledFor: string; // followed by the assignment title
+    enrolledAs: (name: string) => string;
+    leave: string;
+    join: string;
+    joinCode: string;
+    yourName: string;
+    nameMissing: string;
+    joining: string;
+    joinButton: string;
+    submissions: string;
+    checkComments: string;
+    loadingSubmissions: string;
+    commentsFailed: string;
+    noComments: string;
+    create: string;
+    title: string;
+    prompt: string;
+    goals: string;
+    level: string;
+    creating: string;
+    createButton: string;
+    shareCode: string; // followed by the join code
+    shareCodeAfter: string;
+    yourAssignments: string;
+    review: string;
+  };
+  review: {
+    back: string;
+    loading: string;
+    none: (code: string) => string;
+    feedbackSeen: string;
+    noFixes: string;
+    goals: string;
+    commentOn: string;
+    saving: string;
+    addComment: string;
+    cancel: string;
+    selectToComment: string;
+  };
+};
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { CATALOGS, detectLocale, isUiLocale, type UiLocale } from "./locales";
+
+const STORAGE_KEY = "daily-reflection:locale";
+
+function loadLocale(): UiLocale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isUiLocale(stored)) return stored;
+  } catch {
+    // storage blocked: fall through to the browser's languages
+  }
+  return detectLocale(navigator.languages ?? [navigator.language]);
+}
+
+/** The interface language and its messages, persisted in localStorage. Keeps <html lang> in step. */
+export function useLocale() {
+  const [locale, setLocaleState] = useState<UiLocale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: UiLocale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch (err: unknown) {
+      console.warn("Could not save language:", err);
+    }
+  }, []);
+
+  return { locale, setLocale, t: CATALOGS[locale] };
+}
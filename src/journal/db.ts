@@ -0,0 +1,71 @@
+// Thin promise wrapper over IndexedDB. Every store the app persists lives in one database;
+// add a new entry to MIGRATIONS (never edit an old one) when a store or index is needed.
+
+const DB_NAME = "daily-reflection";
+
+export const ENTRIES_STORE = "entries";
+export const VOCABULARY_STORE = "vocabulary";
+export const OUTBOX_STORE = "outbox";
+
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  // v1: journal entries keyed by id, browsable by day
+  (db) => {
+    const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: "id" });
+    entries.createIndex("date", "date");
+  },
+  // v2: trouble words keyed by their wrong form (src/vocabulary)
+  (db) => {
+    db.createObjectStore(VOCABULARY_STORE, { keyPath: "id" });
+  },
+  // v3: evaluations waiting for the network (src/offline)
+  (db) => {
+    db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, MIGRATIONS.length);
+      req.onupgradeneeded = (e) => {
+        for (let v = e.oldVersion; v < MIGRATIONS.length; v++) MIGRATIONS[v](req.result);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Allow a retry on the next call instead of caching the failure forever
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(name, mode);
+  const result = await promisify(run(tx.objectStore(name)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+}
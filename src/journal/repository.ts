@@ -0,0 +1,85 @@
+import type { EvalResult } from "../types";
+import { ENTRIES_STORE, withStore } from "./db";
+
+/** One submitted version of a reflection with the feedback it got. */
+export type Draft = {
+  createdAt: string; // ISO timestamp
+  text: string;      // exactly as submitted
+  result: EvalResult;
+};
+
+export type JournalEntry = {
+  id: string;
+  date: string;      // local calendar day of the first draft, YYYY-MM-DD
+  createdAt: string; // ISO timestamp of the first draft
+  text: string;      // the latest draft, kept here so lists and stats need not look inside drafts
+  result: EvalResult;
+  drafts: Draft[];   // oldest first; the last one is `text` and `result`
+};
+
+export type JournalRepository = {
+  list(): Promise<JournalEntry[]>; // newest first
+  get(id: string): Promise<JournalEntry | undefined>;
+  save(entry: JournalEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+};
+
+export function createJournalRepository(): JournalRepository {
+  return {
+    async list() {
+      const all = await withStore<JournalEntry[]>(ENTRIES_STORE, "readonly", (s) => s.getAll());
+      return all.map(withDrafts).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    async get(id) {
+      const entry = await withStore<JournalEntry | undefined>(ENTRIES_STORE, "readonly", (s) => s.get(id));
+      return entry && withDrafts(entry);
+    },
+    async save(entry) {
+      await withStore(ENTRIES_STORE, "readwrite", (s) => s.put(entry));
+    },
+    async remove(id) {
+      await withStore(ENTRIES_STORE, "readwrite", (s) => s.delete(id));
+    },
+  };
+}
+
+export function createEntry(text: string, result: EvalResult, now = new Date()): JournalEntry {
+  const createdAt = now.toISOString();
+  return {
+    id: crypto.randomUUID(),
+    date: dayKey(now),
+    createdAt,
+    text,
+    result,
+    drafts: [{ createdAt, text, result }],
+  };
+}
+
+/** Adds a revision. Resubmitting unchanged text refreshes the latest draft's feedback instead. */
+export function addDraft(entry: JournalEntry, text: string, result: EvalResult, now = new Date()): JournalEntry {
+  const draft: Draft = { createdAt: now.toISOString(), text, result };
+  const drafts = entry.drafts.length > 0 && entry.drafts[entry.drafts.length - 1].text === text
+    ? [...entry.drafts.slice(0, -1), draft]
+    : [...entry.drafts, draft];
+  return { ...entry, text, result, drafts };
+}
+
+/** Swaps in feedback that arrived later for one draft (see src/offline/queue.ts). Null when that draft is gone. */
+export function replaceDraftResult(entry: JournalEntry, createdAt: string, result: EvalResult): JournalEntry | null {
+  const i = entry.drafts.findIndex((d) => d.createdAt === createdAt);
+  if (i < 0) return null;
+  const drafts = entry.drafts.map((d, j) => (j === i ? { ...d, result } : d));
+  return i === drafts.length - 1 ? { ...entry, result, drafts } : { ...entry, drafts };
+}
+
+// Entries saved before drafts existed hold a single implicit draft
+function withDrafts(entry: JournalEntry): JournalEntry {
+  if (Array.isArray(entry.drafts) && entry.drafts.length > 0) return entry;
+  return { ...entry, drafts: [{ createdAt: entry.createdAt, text: entry.text, result: entry.result }] };
+}
+
+export function dayKey(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
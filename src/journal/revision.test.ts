@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { Issue, IssueType } from "../types";
+import type { Draft } from "./repository";
+import { compareDrafts } from "./revision";
+
+function issue(text: string, type: IssueType, quote: string, from = 0): Issue {
+  const start = text.indexOf(quote, from);
+  return { type, start, end: start + quote.length, quote };
+}
+
+const draft = (text: string, issues: Issue[]): Draft => ({ createdAt: "2025-06-02T09:00:00.000Z", text, result: { issues, topTips: [] } });
+
+describe("compareDrafts", () => {
+  const before = "I go to scool. I was nervus.";
+  const after = "Yesterday I went to school. I was nervus. It was a long day and I was tired and I slept.";
+
+  it("sorts earlier issues into fixed and still there, and finds new ones", () => {
+    const go = issue(before, "grammar", "go");
+    const scool = issue(before, "spell", "scool");
+    const nervus = issue(before, "spell", "nervus");
+    const stillNervus = issue(after, "spell", "nervus");
+    const runOn = issue(after, "clarity", "It was a long day and I was tired and I slept.");
+
+    const { diff, issues } = compareDrafts(draft(before, [go, scool, nervus]), draft(after, [stillNervus, runOn]));
+    expect(diff.length).toBeGreaterThan(1);
+    expect(issues).toEqual({ resolved: [go, scool], persisting: [{ before: nervus, after: stillNervus }], added: [runOn] });
+  });
+
+  it("needs the same type in the same place", () => {
+    const scool = issue(before, "spell", "scool");
+    const grammar = issue(after, "grammar", "school");
+    const elsewhere = issue(after, "spell", "tired");
+    expect(compareDrafts(draft(before, [scool]), draft(after, [grammar, elsewhere])).issues).toEqual({
+      resolved: [scool],
+      persisting: [],
+      added: [grammar, elsewhere],
+    });
+  });
+
+  it("follows a quoted word that moved", () => {
+    const moved = "I was nervus. I go to scool.";
+    const nervus = issue(before, "spell", "nervus");
+    const later = issue(moved, "spell", "nervus");
+    expect(compareDrafts(draft(before, [nervus]), draft(moved, [later])).issues.persisting).toEqual([{ before: nervus, after: later }]);
+  });
+
+  it("matches each later issue once", () => {
+    const text = "scool and scool";
+    const first = issue(text, "spell", "scool");
+    const second = issue(text, "spell", "scool", 1);
+    const fixed = "scool and school";
+    const remaining = issue(fixed, "spell", "scool");
+    expect(compareDrafts(draft(text, [first, second]), draft(fixed, [remaining])).issues).toEqual({
+      resolved: [second],
+      persisting: [{ before: first, after: remaining }],
+      added: [],
+    });
+  });
+});
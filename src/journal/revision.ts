@@ -0,0 +1,47 @@
+import { diffWords, mapOffset, type DiffPart } from "../text/diff";
+import type { Issue } from "../types";
+import type { Draft } from "./repository";
+
+export type IssueChanges = {
+  resolved: Issue[];                            // in the earlier draft, gone from the later one
+  persisting: { before: Issue; after: Issue }[]; // same type, same place (after the edit)
+  added: Issue[];                               // only in the later draft
+};
+
+export type Revision = {
+  diff: DiffPart[];
+  issues: IssueChanges;
+};
+
+/** What changed from `before` to `after`: the word diff and what happened to each highlighted issue. */
+export function compareDrafts(before: Draft, after: Draft): Revision {
+  const diff = diffWords(before.text, after.text);
+  return { diff, issues: compareIssues(before.result.issues, after.result.issues, diff, after.text) };
+}
+
+/**
+ * An earlier issue persists when a later issue of the same type covers the place its span moved
+ * to, or quotes the same words. Each later issue is matched at most once.
+ */
+export function compareIssues(before: Issue[], after: Issue[], diff: DiffPart[], afterText: string): IssueChanges {
+  const unmatched = new Set(after);
+  const resolved: Issue[] = [];
+  const persisting: IssueChanges["persisting"] = [];
+
+  for (const old of before) {
+    const start = mapOffset(diff, old.start);
+    const end = Math.max(start, mapOffset(diff, old.end));
+    const match = [...unmatched].find(
+      (it) =>
+        it.type === old.type &&
+        ((it.start < Math.max(end, start + 1) && start < it.end) || (!!old.quote && afterText.slice(it.start, it.end) === old.quote))
+    );
+    if (match) {
+      unmatched.delete(match);
+      persisting.push({ before: old, after: match });
+    } else {
+      resolved.push(old);
+    }
+  }
+  return { resolved, persisting, added: after.filter((it) => unmatched.has(it)) };
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { mergeEntries, type MergeResult } from "../export/archive";
+import type { EvalResult } from "../types";
+import { createJournalRepository, replaceDraftResult, type JournalEntry } from "./repository";
+
+/** What went wrong with the journal on this device; the interface words each code (Messages.journalErrors). */
+export type JournalErrorCode = "load_failed" | "save_failed" | "delete_failed" | "import_failed";
+
+/** Keeps the saved entries list in React state and mirrors every change to the repository. */
+export function useJournal() {
+  const repo = useMemo(() => createJournalRepository(), []);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [error, setError] = useState<JournalErrorCode | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    repo
+      .list()
+      .then((list) => {
+        if (!cancelled) setEntries(list);
+      })
+      .catch((err: unknown) => {
+        console.warn("Could not load journal:", err);
+        if (!cancelled) setError("load_failed");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repo]);
+
+  const save = useCallback(
+    async (entry: JournalEntry) => {
+      try {
+        await repo.save(entry);
+        setEntries((prev) => [entry, ...prev.filter((e) => e.id !== entry.id)].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+      } catch (err: unknown) {
+        console.warn("Could not save journal entry:", err);
+        setError("save_failed");
+      }
+    },
+    [repo]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await repo.remove(id);
+        setEntries((prev) => prev.filter((e) => e.id !== id));
+      } catch (err: unknown) {
+        console.warn("Could not delete journal entry:", err);
+        setError("delete_failed");
+      }
+    },
+    [repo]
+  );
+
+  // Feedback that arrived after the draft was saved; reads the entry fresh, since it may have changed meanwhile
+  const fillIn = useCallback(
+    async (entryId: string, draftCreatedAt: string, result: EvalResult): Promise<JournalEntry | null> => {
+      const entry = await repo.get(entryId).catch(() => undefined);
+      const updated = entry && replaceDraftResult(entry, draftCreatedAt, result);
+      if (!updated) return null;
+      await save(updated);
+      return updated;
+    },
+    [repo, save]
+  );
+
+  // Saves only what the merge changed; null when saving failed part-way (what was saved stays saved)
+  const importEntries = useCallback(
+    async (incoming: JournalEntry[]): Promise<MergeResult | null> => {
+      const merge = mergeEntries(entries, incoming);
+      let failed = false;
+      for (const entry of merge.changed) {
+        try {
+          await repo.save(entry);
+        } catch (err: unknown) {
+          console.warn("Could not import journal entry:", err);
+          failed = true;
+        }
+      }
+      setEntries(await repo.list().catch(() => entries));
+      if (!failed) return merge;
+      setError("import_failed");
+      return null;
+    },
+    [repo, entries]
+  );
+
+  return { entries, error, save, remove, fillIn, importEntries };
+}
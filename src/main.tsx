@@ -1,10 +1,20 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+// Self-hosted so the app looks the same offline; Latin subset only (the interface and the writing are English or Spanish)
+import '@fontsource/baloo-2/latin-400.css'
+import '@fontsource/baloo-2/latin-600.css'
+import '@fontsource/baloo-2/latin-800.css'
+import '@fontsource/nunito/latin-400.css'
+import '@fontsource/nunito/latin-600.css'
+import '@fontsource/nunito/latin-800.css'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './offline/registerServiceWorker'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>,
 )
+
+registerServiceWorker()
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { EvaluationError, type EvaluationRequest } from "../evaluation/provider";
+import { DEFAULT_PROFILE } from "../profile/profile";
+import type { EvalResult } from "../types";
+import { createOfflineQueue, type OutboxStore, type QueuedEvaluation } from "./queue";
+
+const RESULT: EvalResult = { issues: [], topTips: [] };
+const T0 = new Date("2025-03-03T10:00:00Z");
+const later = (ms: number) => new Date(T0.getTime() + ms);
+
+const request = (text: string): EvaluationRequest => ({ ...DEFAULT_PROFILE, text, locale: "en" });
+const draft = (entryId: string, text = "I went home.") => ({ entryId, draftCreatedAt: "2025-03-03T09:00:00Z", request: request(text) });
+
+function memoryStore(): OutboxStore & { items: Map<string, QueuedEvaluation> } {
+  const items = new Map<string, QueuedEvaluation>();
+  return {
+    items,
+    async list() {
+      return [...items.values()];
+    },
+    async put(item) {
+      items.set(item.id, item);
+    },
+    async remove(id) {
+      items.delete(id);
+    },
+  };
+}
+
+// Answers with whatever `outcomes` holds next (an error is thrown), then succeeds
+function sender(outcomes: unknown[] = []) {
+  const sent: string[] = [];
+  const send = async (req: EvaluationRequest) => {
+    sent.push(req.text);
+    const next = outcomes.shift();
+    if (next) throw next;
+    return RESULT;
+  };
+  return { sent, send };
+}
+
+const OPTIONS = { maxAttempts: 4, retryBaseMs: 1_000, retryMaxMs: 3_000 };
+
+describe("offline queue", () => {
+  it("sends everything oldest first and empties the outbox", async () => {
+    const store = memoryStore();
+    const { sent, send } = sender();
+    const queue = createOfflineQueue(store, send, OPTIONS);
+    await queue.enqueue(draft("b", "Second."), later(1));
+    await queue.enqueue(draft("a", "First."), T0);
+
+    const report = await queue.flush(later(2));
+    expect(sent).toEqual(["First.", "Second."]);
+    expect(report.delivered.map((d) => d.item.entryId)).toEqual(["a", "b"]);
+    expect(report).toMatchObject({ remaining: [], retryAt: null });
+    expect(store.items.size).toBe(0);
+  });
+
+  it("stops at a failure and backs off before retrying it", async () => {
+    const store = memoryStore();
+    const { sent, send } = sender([new TypeError("Failed to fetch")]);
+    const queue = createOfflineQueue(store, send, OPTIONS);
+    await queue.enqueue(draft("a", "First."), T0);
+    await queue.enqueue(draft("b", "Second."), later(1));
+
+    const failed = await queue.flush(T0);
+    expect(sent).toEqual(["First."]);
+    expect(failed.remaining.map((it) => it.entryId)).toEqual(["a", "b"]);
+    expect(failed.remaining[0]).toMatchObject({ attempts: 1, nextAttemptAt: later(1_000).toISOString() });
+    expect(failed.retryAt).toBe(later(1_000).toISOString());
+
+    // Not due yet: passed over, while the item behind it goes out
+    const early = await queue.flush(later(500));
+    expect(sent).toEqual(["First.", "Second."]);
+    expect(early.remaining.map((it) => it.entryId)).toEqual(["a"]);
+
+    const due = await queue.flush(later(1_000));
+    expect(sent).toEqual(["First.", "Second.", "First."]);
+    expect(due.delivered.map((d) => d.item.entryId)).toEqual(["a"]);
+    expect(store.items.size).toBe(0);
+  });
+
+  it("doubles the wait after each failure, up to the maximum, then gives up", async () => {
+    const down = () => new TypeError("Failed to fetch");
+    const store = memoryStore();
+    const { sent, send } = sender([down(), down(), down(), down()]);
+    const queue = createOfflineQueue(store, send, OPTIONS);
+    await queue.enqueue(draft("a"), T0);
+
+    const waits: number[] = [];
+    let now = T0;
+    for (let i = 0; i < 3; i++) {
+      const report = await queue.flush(now);
+      const retryAt = new Date(report.retryAt!);
+      waits.push(retryAt.getTime() - now.getTime());
+      now = retryAt;
+    }
+    expect(waits).toEqual([1_000, 2_000, 3_000]);
+
+    const last = await queue.flush(now);
+    expect(sent).toHaveLength(4);
+    expect(last.dropped.map((d) => d.item.attempts)).toEqual([4]);
+    expect(last).toMatchObject({ remaining: [], retryAt: null });
+  });
+
+  it("drops refusals straight away and carries on", async () => {
+    const store = memoryStore();
+    const { sent, send } = sender([new EvaluationError("too_many_words", "Too long.")]);
+    const queue = createOfflineQueue(store, send, OPTIONS);
+    await queue.enqueue(draft("a", "First."), T0);
+    await queue.enqueue(draft("b", "Second."), later(1));
+
+    const report = await queue.flush(later(2));
+    expect(sent).toEqual(["First.", "Second."]);
+    expect(report.dropped.map((d) => d.item.entryId)).toEqual(["a"]);
+    expect(report.delivered.map((d) => d.item.entryId)).toEqual(["b"]);
+  });
+
+  it("replaces a waiting draft when it is queued again, keeping its place", async () => {
+    const store = memoryStore();
+    const { sent, send } = sender([new TypeError("Failed to fetch")]);
+    const queue = createOfflineQueue(store, send, OPTIONS);
+    const first = await queue.enqueue(draft("a", "I go home."), T0);
+    await queue.enqueue(draft("b", "Other entry."), later(1));
+    await queue.flush(T0);
+
+    const again = await queue.enqueue(draft("a", "I went home."), later(2));
+    expect(again).toMatchObject({ id: first.id, queuedAt: first.queuedAt, attempts: 0 });
+    expect(again.nextAttemptAt).toBeUndefined();
+    expect((await queue.list()).map((it) => it.request.text)).toEqual(["I went home.", "Other entry."]);
+
+    await queue.flush(later(3));
+    expect(sent).toEqual(["I go home.", "I went home.", "Other entry."]);
+  });
+
+  it("keeps a new draft of the same entry as its own item", async () => {
+    const queue = createOfflineQueue(memoryStore(), sender().send, OPTIONS);
+    await queue.enqueue(draft("a"), T0);
+    await queue.enqueue({ ...draft("a"), draftCreatedAt: "2025-03-03T09:30:00Z" }, later(1));
+    expect(await queue.list()).toHaveLength(2);
+  });
+
+  it("shares one run between overlapping flushes", async () => {
+    const { sent, send } = sender();
+    const queue = createOfflineQueue(memoryStore(), send, OPTIONS);
+    await queue.enqueue(draft("a"), T0);
+    const [one, two] = await Promise.all([queue.flush(later(1)), queue.flush(later(1))]);
+    expect(one).toBe(two);
+    expect(sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { isRefusal, type EvaluationRequest } from "../evaluation/provider";
+import type { EvalResult } from "../types";
+
+// Reflections submitted without a connection. The learner gets the offline rules' feedback straight
+// away; the request waits here and goes to /api/evaluate once the network is back, and the answer
+// replaces the offline feedback on the journal draft it belongs to. No React, IndexedDB or service
+// worker in here: storage and sending are passed in (see repository.ts and useOfflineQueue.ts).
+
+export type QueuedEvaluation = {
+  id: string;
+  entryId: string;        // journal entry ...
+  draftCreatedAt: string; // ... and the draft whose feedback gets replaced
+  request: EvaluationRequest;
+  queuedAt: string;       // ISO timestamp
+  attempts: number;       // failed sends so far
+  nextAttemptAt?: string; // ISO timestamp; after a failed send, not retried before then
+};
+
+export type OutboxStore = {
+  list(): Promise<QueuedEvaluation[]>;
+  put(item: QueuedEvaluation): Promise<void>;
+  remove(id: string): Promise<void>;
+};
+
+export type FlushReport = {
+  delivered: { item: QueuedEvaluation; result: EvalResult }[];
+  dropped: { item: QueuedEvaluation; error: unknown }[]; // refused, or failed maxAttempts times
+  remaining: QueuedEvaluation[];
+  retryAt: string | null; // when the earliest waiting item is due again, if any is backing off
+};
+
+export type OfflineQueue = {
+  list(): Promise<QueuedEvaluation[]>; // oldest first
+  enqueue(item: Pick<QueuedEvaluation, "entryId" | "draftCreatedAt" | "request">, now?: Date): Promise<QueuedEvaluation>;
+  flush(now?: Date): Promise<FlushReport>;
+};
+
+export const OFFLINE_QUEUE_LIMITS = {
+  maxAttempts: 5,
+  retryBaseMs: 30_000,     // wait after the first failure, doubled after each one after that ...
+  retryMaxMs: 30 * 60_000, // ... up to this
+};
+
+/**
+ * Sends oldest first and stops at the first failure, since the rest would most likely fail the same
+ * way. The failed item backs off exponentially: flushes before its nextAttemptAt pass it over. A refusal
+ * (rate limit, too long, ...) will not succeed later either, so it is dropped and the offline feedback
+ * stays. Queueing the same draft again replaces the waiting item instead of sending twice. Overlapping
+ * flushes share one run.
+ */
+export function createOfflineQueue(
+  store: OutboxStore,
+  send: (req: EvaluationRequest) => Promise<EvalResult>,
+  {
+    maxAttempts = OFFLINE_QUEUE_LIMITS.maxAttempts,
+    retryBaseMs = OFFLINE_QUEUE_LIMITS.retryBaseMs,
+    retryMaxMs = OFFLINE_QUEUE_LIMITS.retryMaxMs,
+  }: { maxAttempts?: number; retryBaseMs?: number; retryMaxMs?: number } = {}
+): OfflineQueue {
+  let running: Promise<FlushReport> | null = null;
+
+  async function list() {
+    const all = await store.list();
+    return all.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  async function run(now: Date): Promise<FlushReport> {
+    const pending = await list();
+    const report: FlushReport = { delivered: [], dropped: [], remaining: [], retryAt: null };
+    for (let i = 0; i < pending.length; i++) {
+      const item = pending[i];
+      if (item.nextAttemptAt && item.nextAttemptAt > now.toISOString()) {
+        report.remaining.push(item);
+        continue;
+      }
+      try {
+        const result = await send(item.request);
+        await store.remove(item.id);
+        report.delivered.push({ item, result });
+      } catch (err: unknown) {
+        const attempts = item.attempts + 1;
+        if (isRefusal(err) || attempts >= maxAttempts) {
+          await store.remove(item.id);
+          report.dropped.push({ item: { ...item, attempts }, error: err });
+          continue;
+        }
+        const delay = Math.min(retryBaseMs * 2 ** (attempts - 1), retryMaxMs);
+        const failed = { ...item, attempts, nextAttemptAt: new Date(now.getTime() + delay).toISOString() };
+        await store.put(failed);
+        report.remaining.push(failed, ...pending.slice(i + 1));
+        break;
+      }
+    }
+    const waits = report.remaining.flatMap((it) => (it.nextAttemptAt ? [it.nextAttemptAt] : [])).sort();
+    report.retryAt = waits[0] ?? null;
+    return report;
+  }
+
+  return {
+    list,
+    async enqueue({ entryId, draftCreatedAt, request }, now = new Date()) {
+      // A resend of a draft that is still waiting takes its place in line, with a fresh start
+      const waiting = (await store.list()).find((it) => it.entryId === entryId && it.draftCreatedAt === draftCreatedAt);
+      const item: QueuedEvaluation = waiting
+        ? { id: waiting.id, entryId, draftCreatedAt, request, queuedAt: waiting.queuedAt, attempts: 0 }
+        : { id: crypto.randomUUID(), entryId, draftCreatedAt, request, queuedAt: now.toISOString(), attempts: 0 };
+      await store.put(item);
+      return item;
+    },
+    flush(now = new Date()) {
+      if (!running) {
+        running = run(now).finally(() => {
+          running = null;
+        });
+      }
+      return running;
+    },
+  };
+}
+
+/** True when a failed request most likely never reached the server: the browser is offline, or fetch itself failed. */
+export function isNetworkFailure(err: unknown, online = navigator.onLine): boolean {
+  return !online || err instanceof TypeError;
+}
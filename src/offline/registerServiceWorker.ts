@@ -0,0 +1,10 @@
+/**
+ * Installs /sw.js (built from sw.ts) so the app opens without a network. Production builds only:
+ * in development it would serve stale modules over Vite's hot reload.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((err: unknown) => console.warn("Service worker not installed:", err));
+  });
+}
@@ -0,0 +1,16 @@
+import { OUTBOX_STORE, withStore } from "../journal/db";
+import type { OutboxStore, QueuedEvaluation } from "./queue";
+
+export function createOutboxRepository(): OutboxStore {
+  return {
+    async list() {
+      return withStore<QueuedEvaluation[]>(OUTBOX_STORE, "readonly", (s) => s.getAll());
+    },
+    async put(item) {
+      await withStore(OUTBOX_STORE, "readwrite", (s) => s.put(item));
+    },
+    async remove(id) {
+      await withStore(OUTBOX_STORE, "readwrite", (s) => s.delete(id));
+    },
+  };
+}
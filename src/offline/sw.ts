@@ -0,0 +1,55 @@
+/// <reference lib="webworker" />
+// The service worker. It precaches the built app so it opens with no network, and serves static files
+// cache-first. Pages are network-first with the cached app shell as the fallback. API calls are never
+// cached; reflections written offline wait in the page's outbox instead (queue.ts).
+// Built to /sw.js by the serviceWorker() plugin in vite.config.ts, which fills in __PRECACHE__ and __BUILD__.
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE__: string[];
+declare const __BUILD__: string;
+
+const CACHE_PREFIX = "daily-reflection-";
+const CACHE = `${CACHE_PREFIX}${__BUILD__}`;
+const APP_SHELL = "/"; // index.html, which Netlify serves at "/"
+
+// A new build waits until every tab of the old one is closed, so a running page never loses its files
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll([APP_SHELL, ...__PRECACHE__])));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith(CACHE_PREFIX) && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/.netlify/")) return;
+  event.respondWith(request.mode === "navigate" ? networkFirst(request) : cacheFirst(request));
+});
+
+async function networkFirst(request: Request): Promise<Response> {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) void cache.put(APP_SHELL, response.clone());
+    return response;
+  } catch {
+    return (await cache.match(APP_SHELL)) ?? Response.error();
+  }
+}
+
+async function cacheFirst(request: Request): Promise<Response> {
+  const cache = await caches.open(CACHE);
+  const hit = await cache.match(request);
+  if (hit) return hit;
+  const response = await fetch(request);
+  if (response.ok) void cache.put(request, response.clone());
+  return response;
+}
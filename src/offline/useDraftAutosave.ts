@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+
+const STORAGE_KEY = "daily-reflection:draft";
+
+/** What is in the write box, and which journal entry it revises (null for a new reflection). */
+export type SavedDraft = { text: string; entryId: string | null };
+
+export function loadSavedDraft(): SavedDraft {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<SavedDraft> | null;
+    return {
+      text: typeof stored?.text === "string" ? stored.text : "",
+      entryId: typeof stored?.entryId === "string" ? stored.entryId : null,
+    };
+  } catch {
+    return { text: "", entryId: null };
+  }
+}
+
+function store(draft: SavedDraft) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(draft));
+  } catch (err: unknown) {
+    console.warn("Could not save draft:", err);
+  }
+}
+
+/**
+ * Keeps the write box in localStorage while the learner types: shortly after they pause, and at once
+ * when the page is hidden (tab switched, phone locked, app closed), so a dropped connection or a
+ * closed tab never costs them their writing.
+ */
+export function useDraftAutosave(text: string, entryId: string | null, delayMs = 500) {
+  const latest = useRef<SavedDraft>({ text, entryId });
+
+  useEffect(() => {
+    latest.current = { text, entryId };
+    const timer = setTimeout(() => store({ text, entryId }), delayMs);
+    return () => clearTimeout(timer);
+  }, [text, entryId, delayMs]);
+
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === "hidden") store(latest.current);
+    };
+    document.addEventListener("visibilitychange", onHide);
+    return () => document.removeEventListener("visibilitychange", onHide);
+  }, []);
+}
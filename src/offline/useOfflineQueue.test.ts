@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { EvaluationRequest } from "../evaluation/provider";
+import { DEFAULT_PROFILE } from "../profile/profile";
+import type { EvalResult } from "../types";
+import type { QueuedEvaluation } from "./queue";
+import { useOfflineQueue } from "./useOfflineQueue";
+
+// IndexedDB is not in jsdom; the outbox lives in memory instead
+const items = new Map<string, QueuedEvaluation>();
+vi.mock("./repository", () => ({
+  createOutboxRepository: () => ({
+    list: async () => [...items.values()],
+    put: async (item: QueuedEvaluation) => void items.set(item.id, item),
+    remove: async (id: string) => void items.delete(id),
+  }),
+}));
+
+const RESULT: EvalResult = { issues: [], topTips: [] };
+const DRAFT = { entryId: "a", draftCreatedAt: "2025-03-03T09:00:00Z", request: { ...DEFAULT_PROFILE, text: "I went home.", locale: "en" } };
+
+let online = false;
+
+beforeEach(() => {
+  items.clear();
+  online = false;
+  vi.spyOn(navigator, "onLine", "get").mockImplementation(() => online);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+function setup(send: (req: EvaluationRequest) => Promise<EvalResult>) {
+  const delivered: string[] = [];
+  const hook = renderHook(() => useOfflineQueue(send, (item) => delivered.push(item.entryId)));
+  return { ...hook, delivered };
+}
+
+describe("useOfflineQueue", () => {
+  it("holds reflections while offline and drains them when the browser comes back online", async () => {
+    const send = vi.fn(async () => RESULT);
+    const { result, delivered } = setup(send);
+
+    await act(() => result.current.enqueue(DRAFT));
+    expect(result.current.pending).toHaveLength(1);
+    await act(() => result.current.flush());
+    expect(send).not.toHaveBeenCalled();
+
+    online = true;
+    await act(async () => void window.dispatchEvent(new Event("online")));
+    await waitFor(() => expect(result.current.pending).toHaveLength(0));
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(delivered).toEqual(["a"]);
+  });
+
+  it("sends what is already waiting when the app starts online", async () => {
+    online = true;
+    items.set("q1", { id: "q1", ...DRAFT, queuedAt: "2025-03-03T09:00:00Z", attempts: 0 });
+    const { result, delivered } = setup(async () => RESULT);
+    await waitFor(() => expect(delivered).toEqual(["a"]));
+    expect(result.current.pending).toHaveLength(0);
+  });
+
+  it("retries a failed send by itself once its backoff is over", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    online = true;
+    let down = true;
+    const send = vi.fn(async () => {
+      if (down) throw new TypeError("Failed to fetch");
+      return RESULT;
+    });
+    const { result, delivered } = setup(send);
+    await act(() => result.current.enqueue(DRAFT));
+    await act(() => result.current.flush());
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(result.current.pending[0].attempts).toBe(1);
+
+    down = false;
+    await act(() => vi.advanceTimersByTimeAsync(29_000));
+    expect(delivered).toEqual([]);
+    await act(() => vi.advanceTimersByTimeAsync(1_000));
+    expect(delivered).toEqual(["a"]);
+    expect(result.current.pending).toHaveLength(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { EvaluationRequest } from "../evaluation/provider";
+import type { EvalResult } from "../types";
+import { createOfflineQueue, type QueuedEvaluation } from "./queue";
+import { createOutboxRepository } from "./repository";
+
+/**
+ * The offline outbox in React state. Flushes when the app starts, whenever the browser comes back
+ * online, and when an item that failed is due again; `onDelivered` gets each answer so it can replace
+ * the offline feedback.
+ */
+export function useOfflineQueue(
+  send: (req: EvaluationRequest) => Promise<EvalResult>,
+  onDelivered: (item: QueuedEvaluation, result: EvalResult) => void
+) {
+  const queue = useMemo(() => createOfflineQueue(createOutboxRepository(), send), [send]);
+  const [pending, setPending] = useState<QueuedEvaluation[]>([]);
+  const retry = useRef<ReturnType<typeof setTimeout>>(undefined);
+  // The latest callback, so a flush that finishes later still sees the current render's state
+  const deliver = useRef(onDelivered);
+  useEffect(() => {
+    deliver.current = onDelivered;
+  });
+
+  const refresh = useCallback(async () => {
+    try {
+      setPending(await queue.list());
+    } catch (err: unknown) {
+      console.warn("Could not load queued reflections:", err);
+    }
+  }, [queue]);
+
+  const flush = useCallback(async () => {
+    if (!navigator.onLine) return;
+    clearTimeout(retry.current);
+    try {
+      const report = await queue.flush();
+      for (const { item, result } of report.delivered) deliver.current(item, result);
+      for (const { item, error } of report.dropped) console.warn(`Gave up on queued reflection ${item.id}:`, error);
+      if (report.retryAt) retry.current = setTimeout(() => void flush(), Math.max(0, Date.parse(report.retryAt) - Date.now()));
+    } catch (err: unknown) {
+      console.warn("Could not send queued reflections:", err);
+    }
+    await refresh();
+  }, [queue, refresh]);
+
+  useEffect(() => {
+    void refresh().then(flush);
+    const onOnline = () => void flush();
+    window.addEventListener("online", onOnline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      clearTimeout(retry.current);
+    };
+  }, [refresh, flush]);
+
+  const enqueue = useCallback(
+    async (item: Pick<QueuedEvaluation, "entryId" | "draftCreatedAt" | "request">) => {
+      try {
+        await queue.enqueue(item);
+      } catch (err: unknown) {
+        console.warn("Could not queue reflection:", err);
+      }
+      await refresh();
+    },
+    [queue, refresh]
+  );
+
+  return { pending, enqueue, flush };
+}
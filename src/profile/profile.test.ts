@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { es } from "../i18n/es";
+import { DEFAULT_PROFILE, validateProfile } from "./profile";
+
+describe("validateProfile", () => {
+  it("accepts the default profile", () => {
+    expect(validateProfile(DEFAULT_PROFILE)).toEqual({ ok: true, profile: DEFAULT_PROFILE });
+  });
+
+  it.each(["constructor", "toString", "__proto__", "hasOwnProperty", "xx", ""])("refuses %j as a first language", (nativeLanguage) => {
+    const checked = validateProfile({ ...DEFAULT_PROFILE, nativeLanguage });
+    expect(checked.ok).toBe(false);
+    if (!checked.ok) expect(Object.keys(checked.errors)).toEqual(["nativeLanguage"]);
+  });
+
+  it("trims and de-duplicates goals", () => {
+    const checked = validateProfile({ ...DEFAULT_PROFILE, goals: [" feelings ", "feelings", "", 4] });
+    expect(checked.ok && checked.profile.goals).toEqual(["feelings"]);
+  });
+
+  it("words its errors from the messages it is given, in English by default", () => {
+    const bad = { ...DEFAULT_PROFILE, goals: [], minSentences: 0 };
+    expect(validateProfile(bad)).toEqual({
+      ok: false,
+      errors: { goals: "Add at least one writing goal.", minSentences: "Choose a whole number from 1 to 10." },
+    });
+    expect(validateProfile(bad, es.validation)).toEqual({
+      ok: false,
+      errors: { goals: "Añade al menos un objetivo de escritura.", minSentences: "Elige un número entero del 1 al 10." },
+    });
+  });
+});
@@ -0,0 +1,121 @@
+// Learner profile: who is writing and what they are aiming for. Shared by the settings panel
+// and the evaluate function, which both run validateProfile on anything they accept.
+
+export const CEFR_LEVELS = ["A1", "A2", "B1", "B2", "C1", "C2"] as const;
+export type CefrLevel = (typeof CEFR_LEVELS)[number];
+
+export const CEFR_LABELS: Record<CefrLevel, string> = {
+  A1: "A1 – Beginner",
+  A2: "A2 – Elementary",
+  B1: "B1 – Intermediate",
+  B2: "B2 – Upper intermediate",
+  C1: "C1 – Advanced",
+  C2: "C2 – Proficient",
+};
+
+// ISO 639-1 codes with the language's English name (used in the model prompt)
+export const NATIVE_LANGUAGES = {
+  ar: "Arabic",
+  zh: "Chinese",
+  en: "English",
+  fr: "French",
+  de: "German",
+  hi: "Hindi",
+  it: "Italian",
+  ja: "Japanese",
+  ko: "Korean",
+  fa: "Persian",
+  pl: "Polish",
+  pt: "Portuguese",
+  ru: "Russian",
+  so: "Somali",
+  es: "Spanish",
+  tl: "Tagalog",
+  tr: "Turkish",
+  uk: "Ukrainian",
+  vi: "Vietnamese",
+} as const;
+export type NativeLanguage = keyof typeof NATIVE_LANGUAGES;
+
+export type LearnerProfile = {
+  nativeLanguage: NativeLanguage;
+  level: CefrLevel;   // target level the feedback is pitched at
+  goals: string[];    // what each reflection should cover
+  minSentences: number;
+  // Tips explained in the first language (examples stay in English). Only the model evaluator does this.
+  explainInNativeLanguage?: boolean;
+};
+
+export const DEFAULT_PROFILE: LearnerProfile = {
+  nativeLanguage: "en",
+  level: "B1",
+  goals: ["tell day", "feelings", "next action"],
+  minSentences: 3,
+};
+
+export const PROFILE_LIMITS = {
+  maxGoals: 5,
+  maxGoalLength: 60,
+  minSentences: 1,
+  maxSentences: 10,
+} as const;
+
+export type ProfileValidation =
+  | { ok: true; profile: LearnerProfile }
+  | { ok: false; errors: Partial<Record<keyof LearnerProfile, string>> };
+
+// Why a field was refused. The server answers with these English defaults; the settings panel passes its catalog's.
+export type ProfileMessages = {
+  nativeLanguage: string;
+  level: (levels: string) => string;
+  noGoals: string;
+  tooManyGoals: (max: number) => string;
+  goalTooLong: (max: number) => string;
+  minSentences: (min: number, max: number) => string;
+};
+
+export const PROFILE_MESSAGES: ProfileMessages = {
+  nativeLanguage: "Choose a language from the list.",
+  level: (levels) => `Level must be one of ${levels}.`,
+  noGoals: "Add at least one writing goal.",
+  tooManyGoals: (max) => `Keep it to ${max} goals or fewer.`,
+  goalTooLong: (max) => `Keep each goal under ${max} characters.`,
+  minSentences: (min, max) => `Choose a whole number from ${min} to ${max}.`,
+};
+
+/** Checks every field; goals are trimmed and de-duplicated on the way through. */
+export function validateProfile(raw: unknown, messages: ProfileMessages = PROFILE_MESSAGES): ProfileValidation {
+  const p = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+  const errors: Partial<Record<keyof LearnerProfile, string>> = {};
+
+  if (typeof p.nativeLanguage !== "string" || !Object.hasOwn(NATIVE_LANGUAGES, p.nativeLanguage)) {
+    errors.nativeLanguage = messages.nativeLanguage;
+  }
+  if (!CEFR_LEVELS.includes(p.level as CefrLevel)) {
+    errors.level = messages.level(CEFR_LEVELS.join(", "));
+  }
+
+  const goals = Array.isArray(p.goals)
+    ? [...new Set(p.goals.filter((g): g is string => typeof g === "string").map((g) => g.trim()).filter(Boolean))]
+    : [];
+  if (goals.length === 0) errors.goals = messages.noGoals;
+  else if (goals.length > PROFILE_LIMITS.maxGoals) errors.goals = messages.tooManyGoals(PROFILE_LIMITS.maxGoals);
+  else if (goals.some((g) => g.length > PROFILE_LIMITS.maxGoalLength)) errors.goals = messages.goalTooLong(PROFILE_LIMITS.maxGoalLength);
+
+  const min = p.minSentences;
+  if (typeof min !== "number" || !Number.isInteger(min) || min < PROFILE_LIMITS.minSentences || min > PROFILE_LIMITS.maxSentences) {
+    errors.minSentences = messages.minSentences(PROFILE_LIMITS.minSentences, PROFILE_LIMITS.maxSentences);
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    profile: {
+      nativeLanguage: p.nativeLanguage as NativeLanguage,
+      level: p.level as CefrLevel,
+      goals,
+      minSentences: min as number,
+      ...(p.explainInNativeLanguage === true && { explainInNativeLanguage: true }),
+    },
+  };
+}
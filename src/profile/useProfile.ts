@@ -0,0 +1,32 @@
+import { useCallback, useState } from "react";
+import { DEFAULT_PROFILE, validateProfile, type LearnerProfile } from "./profile";
+
+const STORAGE_KEY = "daily-reflection:profile";
+
+function loadProfile(): LearnerProfile {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PROFILE;
+    // Fill fields added after the profile was saved, then drop anything no longer valid
+    const checked = validateProfile({ ...DEFAULT_PROFILE, ...JSON.parse(stored) });
+    return checked.ok ? checked.profile : DEFAULT_PROFILE;
+  } catch {
+    return DEFAULT_PROFILE;
+  }
+}
+
+/** The learner profile, persisted in localStorage so it is ready before the first render. */
+export function useProfile() {
+  const [profile, setProfile] = useState<LearnerProfile>(loadProfile);
+
+  const save = useCallback((next: LearnerProfile) => {
+    setProfile(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (err: unknown) {
+      console.warn("Could not save profile:", err);
+    }
+  }, []);
+
+  return { profile, save };
+}
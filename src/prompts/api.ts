@@ -0,0 +1,22 @@
+import type { CefrLevel, NativeLanguage } from "../profile/profile";
+import { cleanFollowUp, followUpTemplate } from "./followUp";
+
+/**
+ * A personal follow-up prompt from /api/followup. Never fails: when the server is unavailable or
+ * refuses (rate limits), the learner gets the template question instead.
+ */
+export async function fetchFollowUp(input: { nextAction: string; level: CefrLevel; nativeLanguage: NativeLanguage }): Promise<string> {
+  try {
+    const r = await fetch("/api/followup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    });
+    if (!r.ok) throw new Error(`Server error ${r.status}`);
+    const prompt = cleanFollowUp(((await r.json()) as { prompt?: unknown }).prompt);
+    if (prompt) return prompt;
+  } catch (err: unknown) {
+    console.warn("Follow-up prompt unavailable, using the template:", err);
+  }
+  return followUpTemplate(input.nextAction);
+}
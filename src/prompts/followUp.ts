@@ -0,0 +1,36 @@
+import { assessGoals } from "../evaluation/goalCoverage";
+import type { JournalEntry } from "../journal/repository";
+import { splitSentences } from "../text/tokenizer";
+
+// Follow-up prompts: a question about what the learner said they would do next. The server
+// (netlify/functions/followup.ts) can word it personally; followUpTemplate is the fallback.
+
+export const FOLLOW_UP_LIMITS = {
+  maxNextActionLength: 300,
+  maxPromptLength: 200,
+};
+
+/**
+ * The "next action" sentence of a saved reflection: the sentence its feedback marked as covering
+ * that goal, or else the one the local rules find. Null when the learner did not write one.
+ */
+export function findNextAction(entry: JournalEntry): string | null {
+  const scored = entry.result.goals?.find((g) => /\b(?:next|action|plan|plans|tomorrow|future)\b/i.test(g.goal));
+  const quote =
+    scored?.status === "covered" && scored.quote
+      ? scored.quote
+      : assessGoals(entry.text, splitSentences(entry.text), ["next action"])[0].quote;
+  const sentence = quote?.trim();
+  return sentence && sentence.length <= FOLLOW_UP_LIMITS.maxNextActionLength ? sentence : null;
+}
+
+export function followUpTemplate(nextAction: string): string {
+  return `Last time you wrote: “${nextAction}” Did you do it? How did it go, and what will you do next?`;
+}
+
+/** A generated follow-up prompt that is fit to show, or null. */
+export function cleanFollowUp(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const prompt = raw.replace(/\s+/g, " ").trim();
+  return prompt.length > 0 && prompt.length <= FOLLOW_UP_LIMITS.maxPromptLength ? prompt : null;
+}
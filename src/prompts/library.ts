@@ -0,0 +1,93 @@
+import type { CefrLevel } from "../profile/profile";
+
+/**
+ * Writing prompts tagged by theme and CEFR level. Each level gets its own order, reshuffled every
+ * cycle, and the day picks the place in it: the same date and level always give the same prompt,
+ * and every prompt for the level comes up once per cycle.
+ */
+
+export const PROMPT_THEMES = ["day", "people", "feelings", "learning", "food", "places", "plans", "gratitude"] as const;
+export type PromptTheme = (typeof PROMPT_THEMES)[number];
+
+export type WritingPrompt = {
+  id: string;
+  theme: PromptTheme;
+  levels: readonly CefrLevel[];
+  text: string;
+};
+
+const BASIC: readonly CefrLevel[] = ["A1", "A2"];
+const MIDDLE: readonly CefrLevel[] = ["A2", "B1", "B2"];
+const ADVANCED: readonly CefrLevel[] = ["B2", "C1", "C2"];
+const ALL: readonly CefrLevel[] = ["A1", "A2", "B1", "B2", "C1", "C2"];
+
+// The default label, also used when nothing in the library matches
+export const DEFAULT_PROMPT: WritingPrompt = {
+  id: "day-default",
+  theme: "day",
+  levels: ALL,
+  text: "Tell me about your day, how it felt, and what you’ll do next.",
+};
+
+export const PROMPT_LIBRARY: readonly WritingPrompt[] = [
+  DEFAULT_PROMPT,
+  { id: "day-morning", theme: "day", levels: BASIC, text: "What did you do this morning? How did you feel? What will you do tonight?" },
+  { id: "day-best-moment", theme: "day", levels: MIDDLE, text: "What was the best moment of your day, and why did it stand out?" },
+  { id: "day-surprise", theme: "day", levels: ADVANCED, text: "Describe something today that did not go the way you expected. What would you do differently?" },
+  { id: "people-met", theme: "people", levels: BASIC, text: "Who did you talk to today? What did you talk about?" },
+  { id: "people-helped", theme: "people", levels: MIDDLE, text: "Did someone help you today, or did you help someone? What happened?" },
+  { id: "people-perspective", theme: "people", levels: ADVANCED, text: "Think of a conversation you had today. How might the other person describe it?" },
+  { id: "feelings-color", theme: "feelings", levels: BASIC, text: "Are you happy, tired or something else today? Why?" },
+  { id: "feelings-change", theme: "feelings", levels: MIDDLE, text: "How did your mood change during the day? What changed it?" },
+  { id: "feelings-stress", theme: "feelings", levels: ADVANCED, text: "What has been on your mind lately, and how are you dealing with it?" },
+  { id: "learning-new", theme: "learning", levels: BASIC, text: "What new thing did you learn today? Who taught you?" },
+  { id: "learning-hard", theme: "learning", levels: MIDDLE, text: "What was difficult for you today? What will you try next time?" },
+  { id: "learning-mistake", theme: "learning", levels: ADVANCED, text: "Write about a recent mistake and what it taught you." },
+  { id: "food-meal", theme: "food", levels: BASIC, text: "What did you eat today? Did you like it? What will you eat tomorrow?" },
+  { id: "food-memory", theme: "food", levels: MIDDLE, text: "Describe a meal you had recently. Who were you with, and how did it taste?" },
+  { id: "food-culture", theme: "food", levels: ADVANCED, text: "Is there a dish that reminds you of home? Describe it and the memories it brings back." },
+  { id: "places-where", theme: "places", levels: BASIC, text: "Where did you go today? What did you see there?" },
+  { id: "places-favorite", theme: "places", levels: MIDDLE, text: "Describe a place you spent time in today. Would you like to go back? Why?" },
+  { id: "places-change", theme: "places", levels: ADVANCED, text: "How has a place you know well changed over time, and how do you feel about it?" },
+  { id: "plans-tomorrow", theme: "plans", levels: BASIC, text: "What will you do tomorrow? Who will you see?" },
+  { id: "plans-week", theme: "plans", levels: MIDDLE, text: "What do you want to finish this week? What is your first step?" },
+  { id: "plans-goal", theme: "plans", levels: ADVANCED, text: "Describe a goal you are working towards. What progress did you make today, and what gets in the way?" },
+  { id: "gratitude-thanks", theme: "gratitude", levels: BASIC, text: "Name one thing you are thankful for today. Why?" },
+  { id: "gratitude-small", theme: "gratitude", levels: MIDDLE, text: "Write about a small thing that made your day better." },
+  { id: "gratitude-person", theme: "gratitude", levels: ADVANCED, text: "Who are you grateful for right now, and have you told them? Why or why not?" },
+];
+
+export function promptsFor(level: CefrLevel): WritingPrompt[] {
+  const fit = PROMPT_LIBRARY.filter((p) => p.levels.includes(level));
+  return fit.length > 0 ? fit : [DEFAULT_PROMPT];
+}
+
+/**
+ * The prompt for `day` (YYYY-MM-DD, see dayKey). `skip` steps forward through the same rotation,
+ * so "another prompt" is repeatable too.
+ */
+export function dailyPrompt(level: CefrLevel, day: string, skip = 0): WritingPrompt {
+  const prompts = promptsFor(level);
+  const [y, m, d] = day.split("-").map(Number);
+  const n = Math.floor(Date.UTC(y, m - 1, d) / 86_400_000) + skip;
+  const cycle = Math.floor(n / prompts.length);
+  return shuffled(prompts, `${level}:${cycle}`)[n - cycle * prompts.length];
+}
+
+// Fisher–Yates with a PRNG seeded from the string (FNV-1a into mulberry32)
+function shuffled<T>(items: T[], seed: string): T[] {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 0x01000193);
+  const random = () => {
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), 1 | h);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
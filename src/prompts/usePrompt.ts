@@ -0,0 +1,49 @@
+import { useCallback, useMemo, useState } from "react";
+import { dayKey, type JournalEntry } from "../journal/repository";
+import type { LearnerProfile } from "../profile/profile";
+import { fetchFollowUp } from "./api";
+import { findNextAction } from "./followUp";
+import { dailyPrompt, type PromptTheme } from "./library";
+
+export type ActivePrompt =
+  | { kind: "daily"; text: string; theme: PromptTheme }
+  | { kind: "followUp"; text: string; from: string }; // `from`: the day of the reflection it follows up
+
+/**
+ * Today's question. The daily prompt comes from the library by date and level; when an earlier
+ * reflection said what the learner would do next, they can ask for a follow-up about it instead.
+ * The follow-up is only fetched on request, so opening the app never spends the model's rate limit.
+ */
+export function usePrompt(profile: LearnerProfile, entries: JournalEntry[]) {
+  const today = dayKey(new Date());
+  const [skip, setSkip] = useState(0);
+  const [followUp, setFollowUp] = useState<Extract<ActivePrompt, { kind: "followUp" }> | null>(null);
+  const [loadingFollowUp, setLoadingFollowUp] = useState(false);
+
+  const daily = dailyPrompt(profile.level, today, skip);
+  // Newest first, so this is the latest reflection from an earlier day
+  const previous = entries.find((e) => e.date < today);
+  const nextAction = useMemo(() => (previous ? findNextAction(previous) : null), [previous]);
+
+  const askFollowUp = useCallback(async () => {
+    if (!previous || !nextAction) return;
+    setLoadingFollowUp(true);
+    const text = await fetchFollowUp({ nextAction, level: profile.level, nativeLanguage: profile.nativeLanguage });
+    setFollowUp({ kind: "followUp", text, from: previous.date });
+    setLoadingFollowUp(false);
+  }, [previous, nextAction, profile.level, profile.nativeLanguage]);
+
+  const prompt: ActivePrompt = followUp ?? { kind: "daily", text: daily.text, theme: daily.theme };
+
+  return {
+    prompt,
+    canFollowUp: nextAction !== null,
+    loadingFollowUp,
+    askFollowUp,
+    another: () => {
+      setFollowUp(null);
+      setSkip((s) => s + 1);
+    },
+    backToDaily: () => setFollowUp(null),
+  };
+}
@@ -0,0 +1,10 @@
+import axe from "axe-core";
+
+// jsdom does no layout, so rules that need rendered colours or sizes cannot run here.
+const NEEDS_LAYOUT = ["color-contrast", "target-size"];
+
+/** axe-core's violations for `root`, as "rule: help (selector)" lines, so a failing test says what to fix. */
+export async function axeViolations(root: Element): Promise<string[]> {
+  const results = await axe.run(root, { rules: Object.fromEntries(NEEDS_LAYOUT.map((id) => [id, { enabled: false }])) });
+  return results.violations.flatMap((v) => v.nodes.map((n) => `${v.id}: ${v.help} (${n.target.join(" ")})`));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { diffWords, mapOffset } from "./diff";
+
+const ops = (before: string, after: string) => diffWords(before, after).map((p) => [p.op, p.text]);
+
+describe("diffWords", () => {
+  it("finds replaced words", () => {
+    expect(ops("I go to scool.", "I went to school.")).toEqual([
+      ["same", "I "],
+      ["removed", "go"],
+      ["added", "went"],
+      ["same", " to "],
+      ["removed", "scool"],
+      ["added", "school"],
+      ["same", "."],
+    ]);
+  });
+
+  it.each<[string, string, string, [string, string][]]>([
+    ["unchanged text", "I went home.", "I went home.", [["same", "I went home."]]],
+    ["empty drafts", "", "", []],
+    ["a first draft", "", "Hi.", [["added", "Hi."]]],
+    ["everything removed", "Hi.", "", [["removed", "Hi."]]],
+    ["punctuation on its own", "home.", "home!", [["same", "home"], ["removed", "."], ["added", "!"]]],
+    ["contractions as one word", "I dont know", "I don't know", [["same", "I "], ["removed", "dont"], ["added", "don't"], ["same", " know"]]],
+    ["added words", "I went home.", "I went home early.", [["same", "I went home"], ["added", " early"], ["same", "."]]],
+  ])("%s", (_name, before, after, expected) => {
+    expect(ops(before, after)).toEqual(expected);
+  });
+
+  it("gives offsets into both texts", () => {
+    const before = "Yesterday i go to the park with my freind and we play.";
+    const after = "Yesterday I went to the big park with my friend, and we played football.";
+    const parts = diffWords(before, after);
+    expect(parts.filter((p) => p.op !== "added").map((p) => p.text).join("")).toBe(before);
+    expect(parts.filter((p) => p.op !== "removed").map((p) => p.text).join("")).toBe(after);
+    for (const p of parts) {
+      if (p.op !== "added") expect(before.slice(p.from, p.from + p.text.length)).toBe(p.text);
+      if (p.op !== "removed") expect(after.slice(p.to, p.to + p.text.length)).toBe(p.text);
+    }
+  });
+});
+
+describe("mapOffset", () => {
+  const before = "I go to scool.";
+  const after = "Today I went to school.";
+  const parts = diffWords(before, after);
+
+  it("moves offsets in unchanged text with it", () => {
+    expect(mapOffset(parts, before.indexOf("to"))).toBe(after.indexOf("to"));
+    expect(mapOffset(parts, before.indexOf("."))).toBe(after.indexOf("."));
+  });
+
+  it("moves offsets inside removed words to where they were", () => {
+    expect(mapOffset(parts, before.indexOf("scool") + 2)).toBe(after.indexOf("school"));
+  });
+
+  it("maps the end of the text to the end of the new text", () => {
+    expect(mapOffset(parts, before.length)).toBe(after.length);
+    expect(mapOffset(diffWords("Hi there.", "Hi."), "Hi there.".length)).toBe("Hi.".length);
+    expect(mapOffset([], 3)).toBe(0);
+  });
+});
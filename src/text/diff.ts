@@ -0,0 +1,69 @@
+// Word-level diff between two drafts, with offsets into both texts.
+
+export type DiffOp = "same" | "added" | "removed";
+
+export type DiffPart = {
+  op: DiffOp;
+  text: string;
+  from: number; // offset in the old text (for "added", where it was inserted)
+  to: number;   // offset in the new text (for "removed", where it was taken out)
+};
+
+const TOKEN = /\s+|[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN) ?? [];
+}
+
+/** Longest-common-subsequence diff over words, spaces and punctuation. Neighbouring parts with the same op are merged. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const n = a.length;
+  const m = b.length;
+  // lcs[i * (m + 1) + j] = LCS length of a[i:] and b[j:]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[i] === b[j] ? lcs[(i + 1) * (m + 1) + j + 1] + 1 : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let from = 0;
+  let to = 0;
+  const push = (op: DiffOp, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) last.text += text;
+    else parts.push({ op, text, from, to });
+    if (op !== "added") from += text.length;
+    if (op !== "removed") to += text.length;
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < n) push("removed", a[i++]);
+  while (j < m) push("added", b[j++]);
+  return parts;
+}
+
+/** Where `offset` in the old text lands in the new one. Offsets inside removed text move to where it was. */
+export function mapOffset(parts: DiffPart[], offset: number): number {
+  for (const p of parts) {
+    if (p.op === "added") continue;
+    if (offset < p.from + p.text.length) return p.op === "same" ? p.to + (offset - p.from) : p.to;
+  }
+  const last = parts[parts.length - 1];
+  return last ? last.to + (last.op === "removed" ? 0 : last.text.length) : 0;
+}
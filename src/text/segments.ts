@@ -0,0 +1,40 @@
+import type { Issue, IssueType } from "../types";
+
+// Highlight segments for a text and its issues. Shared by the preview and the journal export.
+
+export type Segment = { text: string; start: number; type: "plain" | IssueType; tip?: string; issue?: Issue };
+
+/** Splits text at every issue boundary, plus any extra `cuts` (e.g. a spotlighted sentence). */
+export function buildSegments(text: string, issues: Issue[], cuts: number[] = []): Segment[] {
+  const markers = new Array<{ idx: number; issue?: Issue; open?: boolean }>();
+  for (const it of issues) {
+    markers.push({ idx: it.start, issue: it, open: true });
+    markers.push({ idx: it.end, issue: it, open: false });
+  }
+  for (const idx of cuts) markers.push({ idx, open: false });
+  markers.sort((a, b) => a.idx - b.idx || Number(b.open) - Number(a.open));
+
+  const segs: Segment[] = [];
+  let cursor = 0;
+  let stack: Issue[] = [];
+  for (const m of markers) {
+    if (m.idx > cursor) {
+      // push the plain or current-issue segment
+      const active = stack[stack.length - 1];
+      const type = active ? active.type : "plain";
+      const tip = active?.tip;
+      segs.push({ text: text.slice(cursor, m.idx), start: cursor, type, tip, issue: active });
+      cursor = m.idx;
+    }
+    if (!m.issue) continue;
+    if (m.open) stack.push(m.issue);
+    else stack = stack.filter((x) => x !== m.issue);
+  }
+  if (cursor < text.length) {
+    const active = stack[stack.length - 1];
+    const type = active ? active.type : "plain";
+    const tip = active?.tip;
+    segs.push({ text: text.slice(cursor), start: cursor, type, tip, issue: active });
+  }
+  return segs;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { countSentences, countWords, sentencesAround, splitSentences, splitWords } from "./tokenizer";
+
+const sentences = (text: string) => splitSentences(text).map((s) => text.slice(s.start, s.end));
+const words = (text: string) => splitWords(text).map((w) => w.text);
+
+describe("splitSentences", () => {
+  it.each<[string, string, string[]]>([
+    // Plain endings
+    ["full stops", "I woke up. I ate breakfast. I went to school.", ["I woke up.", "I ate breakfast.", "I went to school."]],
+    ["question and exclamation marks", "Why was I late? I missed the bus! It rained.", ["Why was I late?", "I missed the bus!", "It rained."]],
+    ["runs of punctuation", "Really?! Yes!!! OK.", ["Really?!", "Yes!!!", "OK."]],
+    ["no full stop at the end", "I was tired. I slept early", ["I was tired.", "I slept early"]],
+    ["surrounding whitespace", "  I was tired.   I slept.  ", ["I was tired.", "I slept."]],
+    ["empty text", "", []],
+    ["only whitespace", " \n\t ", []],
+
+    // Titles and abbreviations
+    ["Mr. and Dr.", "Mr. Lee met Dr. Park. They talked.", ["Mr. Lee met Dr. Park.", "They talked."]],
+    ["lowercase titles", "I saw mr. Brown and mrs. Smith today.", ["I saw mr. Brown and mrs. Smith today."]],
+    ["St. and Mt. before names", "We walked on St. John Street to Mt. Fuji.", ["We walked on St. John Street to Mt. Fuji."]],
+    ["U.S. mid-sentence", "I moved to the U.S. last year.", ["I moved to the U.S. last year."]],
+    ["U.S. at the end", "I moved to the U.S. My sister stayed.", ["I moved to the U.S.", "My sister stayed."]],
+    ["p.m. mid-sentence", "The class ends at 5 p.m. on Fridays.", ["The class ends at 5 p.m. on Fridays."]],
+    ["p.m. at the end", "The class ends at 5 p.m. Then I go home.", ["The class ends at 5 p.m.", "Then I go home."]],
+    ["e.g. and etc.", "I like fruit, e.g. apples, pears etc. and I eat them daily.", ["I like fruit, e.g. apples, pears etc. and I eat them daily."]],
+    ["initials", "I read J. K. Rowling. It was fun.", ["I read J. K. Rowling.", "It was fun."]],
+    ["the pronoun I at the end", "The winner was I. Nobody believed it.", ["The winner was I.", "Nobody believed it."]],
+
+    // Numbers and names with dots
+    ["decimals", "It cost 3.5 dollars. I paid 10.30 in total.", ["It cost 3.5 dollars.", "I paid 10.30 in total."]],
+    ["a number ends the sentence", "My score was 95. Next time I want 100.", ["My score was 95.", "Next time I want 100."]],
+    ["web addresses and file names", "I used google.com to find notes.txt for class.", ["I used google.com to find notes.txt for class."]],
+
+    // Ellipses
+    ["ellipsis inside a sentence", "I waited... and waited. Nobody came.", ["I waited... and waited.", "Nobody came."]],
+    ["ellipsis character inside a sentence", "I waited… and waited.", ["I waited… and waited."]],
+    ["ellipsis before a capital", "I waited... Then I left.", ["I waited...", "Then I left."]],
+    ["ellipsis at the end", "I don't know...", ["I don't know..."]],
+
+    // Quoted speech
+    ["quoted exclamation that carries on", '"Stop!" she said. I stopped.', ['"Stop!" she said.', "I stopped."]],
+    ["curly quotes", "“Are you OK?” my friend asked. I said yes.", ["“Are you OK?” my friend asked.", "I said yes."]],
+    ["full stop inside the quote", 'He said "I am tired." Then he slept.', ['He said "I am tired."', "Then he slept."]],
+    ["closing bracket after the full stop", "I was late (again.) My teacher sighed.", ["I was late (again.)", "My teacher sighed."]],
+
+    // What learners write
+    ["missing space after a full stop", "I went home.Then I cooked dinner.", ["I went home.", "Then I cooked dinner."]],
+    ["missing space after a question mark", "Where was he?He was late.", ["Where was he?", "He was late."]],
+    ["lowercase sentence starts", "i was tired. i slept.", ["i was tired.", "i slept."]],
+    ["run-on without punctuation", "today i went to school i met my friend we ate lunch", ["today i went to school i met my friend we ate lunch"]],
+    ["comma splices", "I was tired, I went to bed, I slept well.", ["I was tired, I went to bed, I slept well."]],
+    ["line breaks end sentences", "Dear diary\nToday was good\n\nI learned a lot", ["Dear diary", "Today was good", "I learned a lot"]],
+    ["Windows line endings", "First line.\r\nSecond line.", ["First line.", "Second line."]],
+    ["a bullet list", "- woke up\n- went to work\n- slept", ["- woke up", "- went to work", "- slept"]],
+
+    // Other languages' punctuation
+    ["Spanish inverted marks", "¿Qué hiciste hoy? ¡Fui a la playa! Fue divertido.", ["¿Qué hiciste hoy?", "¡Fui a la playa!", "Fue divertido."]],
+    ["Spanish quotes", "«Hola», dijo ella. Sonreí.", ["«Hola», dijo ella.", "Sonreí."]],
+    ["CJK full stops in English text", "I went home。Then I slept。", ["I went home。", "Then I slept。"]],
+    ["CJK question and exclamation marks", "Why？Because I was tired！", ["Why？", "Because I was tired！"]],
+    ["Chinese text", "我今天很累。我早点睡了。", ["我今天很累。", "我早点睡了。"]],
+    ["Japanese text", "今日は学校に行きました。楽しかったです！", ["今日は学校に行きました。", "楽しかったです！"]],
+    ["Japanese quoted speech", "「行こう！」と言った。友達も来た。", ["「行こう！」と言った。", "友達も来た。"]],
+  ])("%s", (_name, text, expected) => {
+    expect(sentences(text)).toEqual(expected);
+    expect(countSentences(text)).toBe(expected.length);
+  });
+
+  it("returns offsets into the original text", () => {
+    const text = "  Hi there.  Bye. ";
+    expect(splitSentences(text)).toEqual([
+      { start: 2, end: 11 },
+      { start: 13, end: 17 },
+    ]);
+  });
+});
+
+describe("splitWords", () => {
+  it.each<[string, string, string[]]>([
+    ["plain words", "I went to school.", ["I", "went", "to", "school"]],
+    ["contractions", "I don't think it's ready; they’re late.", ["I", "don't", "think", "it's", "ready", "they’re", "late"]],
+    ["hyphenated words", "A well-known twenty-one-year-old.", ["A", "well-known", "twenty-one-year-old"]],
+    ["decimals and thousands", "It was 3.5 km and cost 1,200 yen.", ["It", "was", "3.5", "km", "and", "cost", "1,200", "yen"]],
+    ["a number at the end of a sentence", "I am 25. You are 30.", ["I", "am", "25", "You", "are", "30"]],
+    ["dashes between words", "I was tired - very tired -- and sad.", ["I", "was", "tired", "very", "tired", "and", "sad"]],
+    ["abbreviations", "Mr. Lee lives in the U.S. now.", ["Mr", "Lee", "lives", "in", "the", "U", "S", "now"]],
+    ["a missing space", "home.Then", ["home", "Then"]],
+    ["quotes around words", '"Stop!" she said.', ["Stop", "she", "said"]],
+    ["Spanish accents and marks", "¿Qué pasó? ¡Está aquí!", ["Qué", "pasó", "Está", "aquí"]],
+    ["CJK punctuation between English words", "home。Then，I slept", ["home", "Then", "I", "slept"]],
+    ["only punctuation", "... !? --", []],
+    ["empty text", "", []],
+  ])("%s", (_name, text, expected) => {
+    expect(words(text)).toEqual(expected);
+    expect(countWords(text)).toBe(expected.length);
+  });
+
+  it("returns offsets into the original text", () => {
+    const text = "  don't stop";
+    expect(splitWords(text)).toEqual([
+      { start: 2, end: 7, text: "don't" },
+      { start: 8, end: 12, text: "stop" },
+    ]);
+  });
+});
+
+describe("sentencesAround", () => {
+  const text = "I woke up. I ate breakfast. I went to school.";
+
+  it("widens a span to the sentences it touches", () => {
+    const at = text.indexOf("ate");
+    expect(sentencesAround(text, at, at + 3)).toEqual({ start: 11, end: 27 });
+    expect(sentencesAround(text, 5, 15)).toEqual({ start: 0, end: 27 });
+  });
+
+  it("keeps a span that touches no sentence", () => {
+    expect(sentencesAround("   ", 1, 2)).toEqual({ start: 1, end: 2 });
+  });
+});
@@ -0,0 +1,118 @@
+// Sentence and word tokenizer shared by the write box meter, the evaluators and the server.
+// Every span is a pair of character offsets into the original text, so callers can highlight
+// or slice without re-searching.
+
+export type Span = { start: number; end: number };
+export type Token = Span & { text: string };
+
+// Never end a sentence: a name always follows
+const TITLES = new Set(["mr", "mrs", "ms", "dr", "prof", "st", "jr", "sr", "mt"]);
+// End a sentence only when a capitalised word follows ("at 7 a.m. Then we left.")
+const ABBREVIATIONS = new Set(["etc", "e.g", "i.e", "vs", "a.m", "p.m", "approx"]);
+
+const CLOSERS = `"'”’)]»」』`;
+const TERMINATORS = ".!?…。！？";
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+|(?<=\d)[.,]\d+)*/gu;
+
+/**
+ * Sentence spans, trimmed of surrounding whitespace. Handles what learners actually write:
+ *   - titles and abbreviations ("Mr. Lee", "e.g.", "7 p.m."), initials ("J. K. Rowling")
+ *   - decimals and times ("3.5", "10.30"), URLs and file names ("google.com")
+ *   - ellipses that trail into the same sentence ("I waited... and waited.")
+ *   - quoted speech ('"Stop!" she said.') and closing quotes after the full stop
+ *   - a missing space after the full stop ("home.Then") and a missing full stop at the end
+ *   - sentences that start lowercase ("i was tired. i slept.")
+ *   - line breaks, which always end a sentence
+ *   - full-width 。！？ typed with a Chinese or Japanese keyboard ("I went home。Then I slept。")
+ */
+export function splitSentences(text: string): Span[] {
+  const spans: Span[] = [];
+  let start = -1;
+
+  const close = (end: number) => {
+    let e = end;
+    while (e > start && /\s/.test(text[e - 1])) e--;
+    if (start >= 0 && e > start) spans.push({ start, end: e });
+    start = -1;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\n") {
+      close(i);
+      continue;
+    }
+    if (start < 0) {
+      if (!/\s/.test(ch)) start = i;
+      else continue;
+    }
+    if (!TERMINATORS.includes(ch)) continue;
+
+    // The whole run of punctuation and closing quotes: "?!", "...", '."'
+    let end = i + 1;
+    while (end < text.length && TERMINATORS.includes(text[end])) end++;
+    const punct = text.slice(i, end);
+    let quoted = false;
+    while (end < text.length && CLOSERS.includes(text[end])) {
+      if (text[end] !== ")" && text[end] !== "]") quoted = true;
+      end++;
+    }
+    if (endsSentence(text, start, i, punct, end, quoted)) {
+      close(end);
+    }
+    i = end - 1;
+  }
+  if (start >= 0) close(text.length);
+  return spans;
+}
+
+function endsSentence(text: string, start: number, at: number, punct: string, end: number, quoted: boolean): boolean {
+  if (end >= text.length) return true;
+  const next = text[end];
+  const afterSpace = text.slice(end).match(/^[ \t]*(\S)/)?.[1];
+  if (afterSpace === undefined) return true; // only spaces, then a line break or the end
+  const nextIsUpper = /\p{Lu}/u.test(afterSpace);
+  const nextIsLower = /\p{Ll}/u.test(afterSpace);
+
+  if (punct === ".") {
+    const word = text.slice(start, at).match(/([\p{L}\p{N}.]+)$/u)?.[1] ?? "";
+    const before = text[at - 1] ?? "";
+    // 3.5, 10.30
+    if (/\d/.test(before) && /\d/.test(next)) return false;
+    // google.com, file.txt: no space, lowercase straight after
+    if (!/\s/.test(next) && !CLOSERS.includes(next) && !nextIsUpper) return false;
+    const bare = word.toLowerCase().replace(/\.$/, "");
+    if (TITLES.has(bare)) return false;
+    if (ABBREVIATIONS.has(bare)) return nextIsUpper;
+    // Initials: "J. K. Rowling", "U.S." (but "I." is the pronoun)
+    if (/^\p{Lu}$/u.test(word) && word !== "I" && nextIsUpper) return false;
+    if (/^(?:\p{L}\.)+\p{L}$/u.test(word)) return nextIsUpper;
+    return true;
+  }
+
+  // Ellipsis trailing into the same sentence: "I waited... and waited."
+  if (/^(?:\.{2,}|…)$/.test(punct) && nextIsLower) return false;
+  // Quoted speech that carries on: '"Stop!" she said.', '「行こう！」と言った。' (no case in Chinese or Japanese)
+  if (quoted && !nextIsUpper && /\p{L}/u.test(afterSpace)) return false;
+  return true;
+}
+
+/** Words with offsets. Contractions, hyphenated words and decimals count as one word. */
+export function splitWords(text: string): Token[] {
+  return [...text.matchAll(WORD)].map((m) => ({ start: m.index, end: m.index + m[0].length, text: m[0] }));
+}
+
+export function countSentences(text: string): number {
+  return splitSentences(text).length;
+}
+
+export function countWords(text: string): number {
+  return splitWords(text).length;
+}
+
+/** The sentence spans that overlap [start, end), merged into one span; [start, end) itself when none do. */
+export function sentencesAround(text: string, start: number, end: number): Span {
+  const hit = splitSentences(text).filter((s) => s.start < Math.max(end, start + 1) && start < s.end);
+  if (hit.length === 0) return { start, end };
+  return { start: Math.min(start, hit[0].start), end: Math.max(end, hit[hit.length - 1].end) };
+}
@@ -0,0 +1,48 @@
+// Shared shapes for evaluation results. Used by the UI, the journal and the Netlify functions.
+
+export type IssueType = "spell" | "grammar" | "clarity" | "structure";
+
+export type Issue = {
+  type: IssueType;
+  start: number; // inclusive index into original text
+  end: number;   // exclusive
+  quote?: string; // text[start:end] as the evaluator saw it; used to re-anchor drifting offsets
+  tip?: string;  // short one-liner for tooltip
+};
+
+export type Tip = {
+  title: string; // What’s the issue (plain language)
+  why: string;   // Why it matters (one sentence)
+  examples: { before: string; after: string }[]; // Try it like this
+};
+
+export type GoalStatus = "covered" | "partial" | "missing";
+
+export type GoalCoverage = {
+  goal: string;        // one of the request's goals, as sent
+  status: GoalStatus;
+  start?: number;      // supporting span in the original text (absent when missing)
+  end?: number;
+  quote?: string;      // text[start:end], used to re-anchor like Issue.quote
+};
+
+export type ExamplePair = {
+  before: string;
+  afterParts: { text: string; bold?: boolean }[]; // parts with bolded changes
+};
+
+// Who wrote a result, and against which prompt and schema (netlify/lib/evaluationPrompts.ts, src/evaluation/schema.ts)
+export type EvalVersion = {
+  evaluator: string; // "openai", "stub", "local"
+  prompt?: string;   // the model prompt's version; absent for the local rules
+  schema: number;    // SCHEMA_VERSION the result was asked for in
+};
+
+export type EvalResult = {
+  issues: Issue[];
+  goals?: GoalCoverage[]; // one per requested goal; absent on reflections saved before goal scoring
+  topTips: Tip[];
+  example?: ExamplePair;
+  sentences?: { start: number; end: number }[]; // sentence offsets from src/text/tokenizer.ts, added by the server
+  version?: EvalVersion; // absent on reflections saved before versioning
+};
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "local" skips /api/evaluate and uses the offline rule-based evaluator
+  readonly VITE_EVALUATION_PROVIDER?: "remote" | "local";
+}
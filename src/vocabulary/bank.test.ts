@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import type { EvalResult, Issue } from "../types";
+import { dueItems, extractVocabulary, recordObservations, review, troubleWords, validateTroubleWords, type Grade, type VocabItem } from "./bank";
+
+const NOW = new Date("2025-06-02T09:00:00.000Z");
+const DAY_MS = 86_400_000;
+
+function spell(text: string, word: string, tip?: string): Issue {
+  const start = text.indexOf(word);
+  return { type: "spell", start, end: start + word.length, tip };
+}
+
+function result(issues: Issue[], examples: [string, string][] = [], example?: EvalResult["example"]): EvalResult {
+  return { issues, topTips: [{ title: "Tip", why: "Because.", examples: examples.map(([before, after]) => ({ before, after })) }], example };
+}
+
+function item(wrong: string, fields: Partial<VocabItem> = {}): VocabItem {
+  const [created] = recordObservations([], "first", [{ wrong, right: `${wrong}!`, kind: "spelling" }], NOW);
+  return { ...created, ...fields };
+}
+
+describe("extractVocabulary", () => {
+  it("takes a misspelling's correction from a tip example", () => {
+    const text = "I went to scool.";
+    expect(extractVocabulary(text, result([spell(text, "scool")], [["to scool", "to school"]]))).toEqual([
+      { wrong: "scool", right: "school", kind: "spelling" },
+    ]);
+  });
+
+  it("takes it from the example rewrite", () => {
+    const text = "I was nervus.";
+    const example = { before: "I was nervus.", afterParts: [{ text: "I was " }, { text: "nervous", bold: true }, { text: "." }] };
+    expect(extractVocabulary(text, result([spell(text, "nervus")], [], example))).toEqual([{ wrong: "nervus", right: "nervous", kind: "spelling" }]);
+  });
+
+  it("takes it from a quoted word in the tip", () => {
+    const text = "It was becuase of the rain.";
+    expect(extractVocabulary(text, result([spell(text, "becuase", "Spelling: ‘because’.")]))).toEqual([{ wrong: "becuase", right: "because", kind: "spelling" }]);
+  });
+
+  it("counts other one-word replacements as word choice", () => {
+    expect(extractVocabulary("I did a photo.", result([], [["I did a photo", "I took a photo"]]))).toEqual([{ wrong: "did", right: "took", kind: "wordChoice" }]);
+  });
+
+  it.each([
+    ["a case-only change", [["i went home", "I went home"]]],
+    ["a phrase rewritten", [["very very good", "excellent"]]],
+    ["added words", [["I went", "I went home"]]],
+    ["numbers", [["at 10", "at 11"]]],
+  ] as [string, [string, string][]][])("leaves out %s", (_name, examples) => {
+    expect(extractVocabulary("", result([], examples))).toEqual([]);
+  });
+
+  it("leaves out a misspelling it has no correction for", () => {
+    const text = "I went to scool.";
+    expect(extractVocabulary(text, result([spell(text, "scool", "Check this word.")]))).toEqual([]);
+  });
+});
+
+describe("recordObservations", () => {
+  const scool = { wrong: "scool", right: "school", kind: "spelling" as const };
+
+  it("adds a new word, due at once", () => {
+    expect(recordObservations([], "a", [scool], NOW)).toEqual([
+      {
+        id: "scool",
+        ...scool,
+        count: 1,
+        seenIn: ["a"],
+        firstSeen: NOW.toISOString(),
+        lastSeen: NOW.toISOString(),
+        review: { ease: 2.5, interval: 0, repetitions: 0, due: NOW.toISOString() },
+      },
+    ]);
+  });
+
+  it("does not count a resubmitted draft of the same reflection twice", () => {
+    const [first] = recordObservations([], "a", [scool], NOW);
+    expect(recordObservations([first], "a", [scool], NOW)).toEqual([]);
+  });
+
+  it("counts a word again in a new reflection and starts its review over", () => {
+    const [first] = recordObservations([], "a", [scool], NOW);
+    const learned = review(review(first, 5, NOW), 5, NOW);
+    const later = new Date(NOW.getTime() + 3 * DAY_MS);
+    const [again] = recordObservations([learned], "b", [{ ...scool, wrong: "Scool" }], later);
+    expect(again).toMatchObject({ id: "scool", count: 2, seenIn: ["a", "b"], lastSeen: later.toISOString() });
+    expect(again.review).toEqual({ ease: 2.5, interval: 0, repetitions: 0, due: later.toISOString() });
+  });
+});
+
+describe("review", () => {
+  const schedule = (grades: Grade[]) => {
+    let it = item("scool");
+    return grades.map((g) => {
+      it = review(it, g, NOW);
+      return it.review;
+    });
+  };
+
+  it("goes 1 day, 6 days, then interval × ease", () => {
+    expect(schedule([4, 4, 4, 4]).map((r) => r.interval)).toEqual([1, 6, 15, 38]);
+  });
+
+  it("moves the due date by the interval", () => {
+    expect(schedule([4, 4]).map((r) => r.due)).toEqual([new Date(NOW.getTime() + DAY_MS).toISOString(), new Date(NOW.getTime() + 6 * DAY_MS).toISOString()]);
+  });
+
+  it("raises the ease on easy answers and lowers it on hard ones", () => {
+    expect(schedule([5])[0].ease).toBeCloseTo(2.6);
+    expect(schedule([4])[0].ease).toBeCloseTo(2.5);
+    expect(schedule([3])[0].ease).toBeCloseTo(2.36);
+  });
+
+  it("starts over tomorrow after a lapse", () => {
+    const [, , third, lapse, next] = schedule([4, 4, 4, 1, 4]);
+    expect(third).toMatchObject({ repetitions: 3, interval: 15 });
+    expect(lapse).toMatchObject({ repetitions: 0, interval: 1 });
+    expect(lapse.ease).toBeCloseTo(1.96);
+    expect(next).toMatchObject({ repetitions: 1, interval: 1 });
+  });
+
+  it("never lets the ease fall below 1.3", () => {
+    const [first, ...rest] = schedule([0, 0, 0, 0]).map((r) => r.ease);
+    expect(first).toBeCloseTo(1.7);
+    expect(rest).toEqual([1.3, 1.3, 1.3]);
+  });
+});
+
+describe("dueItems", () => {
+  it("lists due cards, most overdue first", () => {
+    const at = (days: number) => new Date(NOW.getTime() + days * DAY_MS).toISOString();
+    const dueIn = (id: string, days: number) => item(id, { review: { ...item(id).review, due: at(days) } });
+    const items = [dueIn("a", -1), dueIn("b", 1), dueIn("c", -3)];
+    expect(dueItems(items, NOW).map((it) => it.id)).toEqual(["c", "a"]);
+  });
+});
+
+describe("troubleWords", () => {
+  it("lists words seen in more than one reflection, most frequent first", () => {
+    const items = [item("once"), item("twice", { count: 2 }), item("often", { count: 5 })];
+    expect(troubleWords(items)).toEqual([
+      { wrong: "often", right: "often!" },
+      { wrong: "twice", right: "twice!" },
+    ]);
+    expect(troubleWords(items, 1)).toHaveLength(1);
+  });
+});
+
+describe("validateTroubleWords", () => {
+  it("accepts a short list of word pairs", () => {
+    expect(validateTroubleWords([{ wrong: "scool", right: "school", extra: 1 }])).toEqual([{ wrong: "scool", right: "school" }]);
+  });
+
+  it.each([
+    ["not a list", "scool"],
+    ["too many words", Array.from({ length: 11 }, () => ({ wrong: "a", right: "b" }))],
+    ["a phrase", [{ wrong: "to scool", right: "to school" }]],
+    ["a missing correction", [{ wrong: "scool" }]],
+    ["an overlong word", [{ wrong: "a".repeat(41), right: "b" }]],
+  ])("refuses %s", (_name, raw) => {
+    expect(validateTroubleWords(raw)).toBeNull();
+  });
+});
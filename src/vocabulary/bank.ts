@@ -0,0 +1,159 @@
+import { diffWords } from "../text/diff";
+import type { EvalResult } from "../types";
+
+/**
+ * The learner's trouble words: misspellings and word-choice corrections pulled out of their
+ * feedback, counted per reflection, and scheduled for review with SM-2. Pure functions only;
+ * storage is in ./repository.
+ */
+
+export type VocabKind = "spelling" | "wordChoice";
+
+/** SM-2 state. New and freshly repeated mistakes are due at once. */
+export type ReviewState = {
+  ease: number;        // easiness factor, never below MIN_EASE
+  interval: number;    // days until the next review
+  repetitions: number; // correct reviews in a row
+  due: string;         // ISO timestamp
+};
+
+export type VocabItem = {
+  id: string;          // the wrong form, lower-cased
+  wrong: string;
+  right: string;       // the latest correction seen
+  kind: VocabKind;
+  count: number;       // reflections it appeared in
+  seenIn: string[];    // ids of the latest of those reflections, so a resubmitted draft is not counted twice
+  firstSeen: string;
+  lastSeen: string;
+  review: ReviewState;
+};
+
+export type Observation = { wrong: string; right: string; kind: VocabKind };
+
+const WORD = /^[\p{L}][\p{L}'’-]*$/u;
+const QUOTED = /[‘'"“]([\p{L}][\p{L}'’-]*)[’'"”]/u;
+const MAX_SEEN_IN = 20;
+const MIN_EASE = 1.3;
+const DAY_MS = 86_400_000;
+
+/**
+ * Single-word corrections in one evaluation. Spell issues take their correction from a tip example
+ * or example rewrite that replaces the word, or from a quoted word in the issue's tip ("Spelling:
+ * ‘school’."). Other one-word replacements in the examples count as word choice. Case-only
+ * changes ("i" → "I") are left out.
+ */
+export function extractVocabulary(text: string, result: EvalResult): Observation[] {
+  const pairs = result.topTips.flatMap((t) => t.examples).flatMap((ex) => replacedWords(ex.before, ex.after));
+  if (result.example) pairs.push(...replacedWords(result.example.before, result.example.afterParts.map((p) => p.text).join("")));
+
+  const found = new Map<string, Observation>();
+  for (const issue of result.issues) {
+    if (issue.type !== "spell") continue;
+    const wrong = text.slice(issue.start, issue.end).trim();
+    if (!WORD.test(wrong)) continue;
+    const right = pairs.find((p) => p.wrong.toLowerCase() === wrong.toLowerCase())?.right ?? issue.tip?.match(QUOTED)?.[1];
+    if (right && right.toLowerCase() !== wrong.toLowerCase()) found.set(wrong.toLowerCase(), { wrong, right, kind: "spelling" });
+  }
+  for (const { wrong, right } of pairs) {
+    if (!found.has(wrong.toLowerCase())) found.set(wrong.toLowerCase(), { wrong, right, kind: "wordChoice" });
+  }
+  return [...found.values()];
+}
+
+// One word taken out and one put in at the same place
+function replacedWords(before: string, after: string): { wrong: string; right: string }[] {
+  const parts = diffWords(before, after);
+  const pairs: { wrong: string; right: string }[] = [];
+  for (let i = 0; i + 1 < parts.length; i++) {
+    const [a, b] = [parts[i], parts[i + 1]];
+    if (a.op === b.op || a.op === "same" || b.op === "same") continue;
+    const wrong = (a.op === "removed" ? a : b).text.trim();
+    const right = (a.op === "added" ? a : b).text.trim();
+    if (WORD.test(wrong) && WORD.test(right) && wrong.toLowerCase() !== right.toLowerCase()) pairs.push({ wrong, right });
+    i++;
+  }
+  return pairs;
+}
+
+/**
+ * Adds one reflection's observations to the bank. Returns only the items that changed. A word seen
+ * again in a new reflection counts once more and its review starts over.
+ */
+export function recordObservations(items: VocabItem[], entryId: string, observations: Observation[], now = new Date()): VocabItem[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const at = now.toISOString();
+  const changed: VocabItem[] = [];
+  for (const obs of observations) {
+    const id = obs.wrong.toLowerCase();
+    const existing = byId.get(id);
+    if (!existing) {
+      changed.push({ id, ...obs, count: 1, seenIn: [entryId], firstSeen: at, lastSeen: at, review: newReview(now) });
+      continue;
+    }
+    if (existing.seenIn.includes(entryId)) {
+      if (existing.right !== obs.right) changed.push({ ...existing, right: obs.right });
+      continue;
+    }
+    changed.push({
+      ...existing,
+      right: obs.right,
+      count: existing.count + 1,
+      seenIn: [...existing.seenIn, entryId].slice(-MAX_SEEN_IN),
+      lastSeen: at,
+      review: newReview(now),
+    });
+  }
+  return changed;
+}
+
+function newReview(now: Date): ReviewState {
+  return { ease: 2.5, interval: 0, repetitions: 0, due: now.toISOString() };
+}
+
+export type Grade = 0 | 1 | 2 | 3 | 4 | 5; // SM-2 quality: below 3 is a lapse
+
+/** SM-2: a lapse starts the word over tomorrow; correct answers go 1 day, 6 days, then interval × ease. */
+export function review(item: VocabItem, grade: Grade, now = new Date()): VocabItem {
+  const { ease, interval, repetitions } = item.review;
+  const nextEase = Math.max(MIN_EASE, ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+  const passed = grade >= 3;
+  const nextRepetitions = passed ? repetitions + 1 : 0;
+  const nextInterval = !passed || nextRepetitions === 1 ? 1 : nextRepetitions === 2 ? 6 : Math.round(interval * nextEase);
+  return {
+    ...item,
+    review: { ease: nextEase, interval: nextInterval, repetitions: nextRepetitions, due: new Date(now.getTime() + nextInterval * DAY_MS).toISOString() },
+  };
+}
+
+/** Due cards, most overdue first. */
+export function dueItems(items: VocabItem[], now = new Date()): VocabItem[] {
+  const at = now.toISOString();
+  return items.filter((it) => it.review.due <= at).sort((a, b) => a.review.due.localeCompare(b.review.due));
+}
+
+export type TroubleWord = { wrong: string; right: string };
+
+export const TROUBLE_WORD_LIMITS = { maxWords: 10, maxLength: 40 };
+
+/** Words worth mentioning to the evaluator: ones that came back in more than one reflection, most frequent first. */
+export function troubleWords(items: VocabItem[], limit = TROUBLE_WORD_LIMITS.maxWords): TroubleWord[] {
+  return items
+    .filter((it) => it.count > 1)
+    .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+    .slice(0, limit)
+    .map(({ wrong, right }) => ({ wrong, right }));
+}
+
+/** Checks `troubleWords` from a request body; null when it is not a short list of word pairs. */
+export function validateTroubleWords(raw: unknown): TroubleWord[] | null {
+  if (!Array.isArray(raw) || raw.length > TROUBLE_WORD_LIMITS.maxWords) return null;
+  const words: TroubleWord[] = [];
+  for (const w of raw) {
+    const { wrong, right } = (typeof w === "object" && w !== null ? w : {}) as Record<string, unknown>;
+    const ok = (v: unknown): v is string => typeof v === "string" && WORD.test(v) && v.length <= TROUBLE_WORD_LIMITS.maxLength;
+    if (!ok(wrong) || !ok(right)) return null;
+    words.push({ wrong, right });
+  }
+  return words;
+}
@@ -0,0 +1,18 @@
+import { VOCABULARY_STORE, withStore } from "../journal/db";
+import type { VocabItem } from "./bank";
+
+export type VocabularyRepository = {
+  list(): Promise<VocabItem[]>;
+  save(item: VocabItem): Promise<void>;
+};
+
+export function createVocabularyRepository(): VocabularyRepository {
+  return {
+    async list() {
+      return withStore<VocabItem[]>(VOCABULARY_STORE, "readonly", (s) => s.getAll());
+    },
+    async save(item) {
+      await withStore(VOCABULARY_STORE, "readwrite", (s) => s.put(item));
+    },
+  };
+}
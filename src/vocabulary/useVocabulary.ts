@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { EvalResult } from "../types";
+import { extractVocabulary, recordObservations, review, type Grade, type VocabItem } from "./bank";
+import { createVocabularyRepository } from "./repository";
+
+/** The trouble-word bank in React state, mirrored to IndexedDB like the journal. */
+export function useVocabulary() {
+  const repo = useMemo(() => createVocabularyRepository(), []);
+  const [items, setItems] = useState<VocabItem[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    repo
+      .list()
+      .then((list) => {
+        if (!cancelled) setItems(list);
+      })
+      .catch((err: unknown) => console.warn("Could not load vocabulary:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [repo]);
+
+  const persist = useCallback(
+    async (changed: VocabItem[]) => {
+      if (changed.length === 0) return;
+      setItems((prev) => [...prev.filter((it) => !changed.some((c) => c.id === it.id)), ...changed]);
+      try {
+        for (const item of changed) await repo.save(item);
+      } catch (err: unknown) {
+        console.warn("Could not save vocabulary:", err);
+      }
+    },
+    [repo]
+  );
+
+  /** Learns from one evaluated draft of the journal entry `entryId`. */
+  const learn = useCallback(
+    (entryId: string, text: string, result: EvalResult) => persist(recordObservations(items, entryId, extractVocabulary(text, result))),
+    [items, persist]
+  );
+
+  const grade = useCallback((item: VocabItem, g: Grade) => persist([review(item, g)]), [persist]);
+
+  return { items, learn, grade };
+}
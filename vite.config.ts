@@ -1,7 +1,44 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { createHash } from 'node:crypto'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwind from '@tailwindcss/vite'
 
+// Static files in public/ that the app needs offline. Vite's output is listed automatically, and sw.ts adds the page itself.
+const PUBLIC_PRECACHE = ['/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png']
+
+// Builds src/offline/sw.ts to /sw.js next to the app, and fills in the files it precaches:
+// every emitted file except source maps and the .woff fallbacks of the .woff2 fonts.
+function serviceWorker(): Plugin {
+  return {
+    name: 'daily-reflection:service-worker',
+    apply: 'build',
+    config: () => ({
+      build: {
+        rollupOptions: {
+          input: { main: 'index.html', sw: 'src/offline/sw.ts' },
+          output: { entryFileNames: (chunk) => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js') },
+        },
+      },
+    }),
+    generateBundle(_options, bundle) {
+      const sw = bundle['sw.js']
+      if (!sw || sw.type !== 'chunk') this.error('sw.js was not built')
+      const files = Object.keys(bundle)
+        .filter((f) => f !== 'sw.js' && !f.endsWith('.map') && !f.endsWith('.woff'))
+        .map((f) => `/${f}`)
+        .concat(PUBLIC_PRECACHE)
+        .sort()
+      const build = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+      sw.code = sw.code.replace('__PRECACHE__', JSON.stringify(files)).replace('__BUILD__', JSON.stringify(build))
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react(), tailwind()],
-})
\ No newline at end of file
+  plugins: [react(), tailwind(), serviceWorker()],
+  test: {
+    // Not netlify/functions: every file there is deployed as a function
+    include: ['src/**/*.test.{ts,tsx}', 'netlify/{lib,tests}/**/*.test.ts'],
+  },
+})